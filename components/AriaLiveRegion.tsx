@@ -2,16 +2,23 @@
  * Scroll System - Aria Live Region
  * ==================================
  * Announces view changes to screen readers.
+ * Also announces refused navigations with the same message as ScrollHint.
  */
 
 import React, { useEffect, useState } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
+import { getScrollHintMessage } from "../utils/scrollHint";
+import type { ScrollHintMessages } from "../utils/scrollHint";
 
 export interface AriaLiveRegionProps {
   /** Custom announcement template. Use {viewIndex} and {viewId} as placeholders */
   template?: string;
   /** Politeness level for announcements */
   politeness?: "polite" | "assertive";
+  /** Announce refused navigations ("Scroll to continue"...) (default: true) */
+  announceBlocked?: boolean;
+  /** Override the hint messages (same keys as ScrollHint) */
+  hintMessages?: Partial<ScrollHintMessages>;
 }
 
 /**
@@ -21,13 +28,19 @@ export interface AriaLiveRegionProps {
 export function AriaLiveRegion({
   template = "Navigated to section {viewIndex} of {totalViews}",
   politeness = "polite",
+  announceBlocked = true,
+  hintMessages,
 }: AriaLiveRegionProps) {
   const [announcement, setAnnouncement] = useState("");
   
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const activeId = useScrollStore((s) => s.activeId);
-  const totalViews = useScrollStore((s) => s.totalViews);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
+  const useStore = useScrollStoreApi();
+
+  const activeIndex = useStore((s) => s.activeIndex);
+  const activeId = useStore((s) => s.activeId);
+  const totalViews = useStore((s) => s.totalViews);
+  const isTransitioning = useStore((s) => s.isTransitioning);
+  const lastBlocked = useStore((s) => s.lastBlockedNavigation);
+  const blockedViewType = useStore((s) => s.views.find((v) => v.id === s.lastBlockedNavigation?.viewId)?.type);
 
   useEffect(() => {
     // Announce when transition ends
@@ -46,6 +59,19 @@ export function AriaLiveRegion({
     }
   }, [activeIndex, activeId, totalViews, isTransitioning, template]);
 
+  // Announce refused navigations (same text as ScrollHint)
+  useEffect(() => {
+    if (!announceBlocked || !lastBlocked) return;
+    const message = getScrollHintMessage(lastBlocked, blockedViewType, hintMessages);
+
+    const timer = setTimeout(() => {
+      setAnnouncement(message);
+    }, 100);
+
+    return () => clearTimeout(timer);
+    // hintMessages se lee al anunciar: un objeto inline no debe re-anunciar
+  }, [announceBlocked, lastBlocked, blockedViewType]);
+
   return (
     <div
       role="status"
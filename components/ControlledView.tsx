@@ -7,9 +7,10 @@
 
 import React, { useMemo, useEffect } from "react";
 import { useViewRegistration } from "../hooks/useViewRegistration";
-import { useScrollStore } from "../store";
+import { useViewTransition } from "../hooks/useViewTransition";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
 import { useMetricsReporter } from "../hooks/useMetricsReporter";
-import type { ControlledViewProps, ControlledViewConfig } from "../types";
+import type { ControlledViewProps, ControlledViewConfig, LockDirection } from "../types";
 
 export function ControlledView({
   id,
@@ -25,8 +26,15 @@ export function ControlledView({
   onEnterEnd,
   onExitStart,
   onExitEnd,
+  beforeLeave,
+  beforeEnter,
+  skipGuardsFor,
+  transition,
+  order,
 }: ControlledViewProps) {
-  const setExplicitLock = useScrollStore((s) => s.setViewExplicitLock);
+  const useStore = useScrollStoreApi();
+
+  const setExplicitLock = useStore((s) => s.setViewExplicitLock);
 
   // Configuración de la vista
   const config = useMemo<ControlledViewConfig>(
@@ -36,12 +44,14 @@ export function ControlledView({
       scrollDirection,
       allowInternalScroll,
       allowGoBack,
+      transition,
     }),
-    [id, scrollDirection, allowInternalScroll, allowGoBack]
+    [id, scrollDirection, allowInternalScroll, allowGoBack, transition]
   );
 
   // Registro en el sistema
   const { isActive, index } = useViewRegistration({
+    order,
     config,
     onActivate,
     onDeactivate,
@@ -49,8 +59,14 @@ export function ControlledView({
     onEnterEnd,
     onExitStart,
     onExitEnd,
+    beforeLeave,
+    beforeEnter,
+    skipGuardsFor,
   });
 
+  // Per-view transition styles (undefined in classic slide mode)
+  const transitionStyle = useViewTransition(index, transition);
+
   // Reporter para métricas (importante para Global Progress)
   // Si no tiene scroll interno, scrollDirection es "none" y el hook maneja eso.
   const { scrollRef } = useMetricsReporter({
@@ -90,6 +106,7 @@ export function ControlledView({
         width: "100%",
         height: "100vh",
         zIndex: isActive ? 10 : 0,
+        ...transitionStyle,
       }}
     >
       <div
@@ -111,21 +128,26 @@ export function ControlledView({
 // ============================================
 
 export function useViewControl(viewId: string) {
-  const setExplicitLock = useScrollStore((s) => s.setViewExplicitLock);
-  const goToNext = useScrollStore((s) => s.goToNext);
-  const goToPrevious = useScrollStore((s) => s.goToPrevious);
-  const goToView = useScrollStore((s) => s.goToView);
+  const useStore = useScrollStoreApi();
+
+  const setExplicitLock = useStore((s) => s.setViewExplicitLock);
+  const setViewLock = useStore((s) => s.setViewLock);
+  const goToNext = useStore((s) => s.goToNext);
+  const goToPrevious = useStore((s) => s.goToPrevious);
+  const goToView = useStore((s) => s.goToView);
 
   return useMemo(
     () => ({
       unlock: () => setExplicitLock(viewId, "unlocked"),
       lock: () => setExplicitLock(viewId, "locked"),
+      // Bloqueo por dirección (p. ej. solo "forward"); [] libera
+      lockDirections: (directions: LockDirection[]) => setViewLock(viewId, directions),
       
       // Navegación Programática (Forzada)
       goNext: () => goToNext(),
       goPrev: () => goToPrevious(),
       goTo: (to: number | string) => goToView(to),
     }),
-    [viewId, setExplicitLock, goToNext, goToPrevious, goToView]
+    [viewId, setExplicitLock, setViewLock, goToNext, goToPrevious, goToView]
   );
 }
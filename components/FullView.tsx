@@ -7,6 +7,7 @@
 
 import React, { useMemo } from "react";
 import { useViewRegistration } from "../hooks/useViewRegistration";
+import { useViewTransition } from "../hooks/useViewTransition";
 import type { FullViewProps, FullViewConfig } from "../types";
 
 /**
@@ -31,6 +32,11 @@ export function FullView({
   onEnterEnd,
   onExitStart,
   onExitEnd,
+  beforeLeave,
+  beforeEnter,
+  skipGuardsFor,
+  transition,
+  order,
 }: FullViewProps) {
   // Configuración de la vista
   const config = useMemo<FullViewConfig>(
@@ -38,12 +44,14 @@ export function FullView({
       id,
       type: "full",
       meta,
+      transition,
     }),
-    [id, meta]
+    [id, meta, transition]
   );
 
   // Registro en el sistema
   const { isActive, index } = useViewRegistration({
+    order,
     config,
     onActivate,
     onDeactivate,
@@ -51,8 +59,14 @@ export function FullView({
     onEnterEnd,
     onExitStart,
     onExitEnd,
+    beforeLeave,
+    beforeEnter,
+    skipGuardsFor,
   });
 
+  // Per-view transition styles (undefined in classic slide mode)
+  const transitionStyle = useViewTransition(index, transition);
+
   return (
     <section
       id={id}
@@ -62,6 +76,7 @@ export function FullView({
         width: "100%",
         height: "100vh",
         overflow: "hidden",
+        ...transitionStyle,
       }}
       data-view-type="full"
       data-view-index={index}
@@ -0,0 +1,141 @@
+/**
+ * Scroll System - Grid Row
+ * ================================
+ * Fila de un grid 2D: una vista vertical con sub-vistas horizontales.
+ * El store conoce la columna activa (y la recuerda al salir de la fila).
+ */
+
+import React, { Children, useContext, useEffect, useMemo, useRef } from "react";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
+import { useViewRegistration } from "../hooks/useViewRegistration";
+import { TransitionContext, useViewTransition } from "../hooks/useViewTransition";
+import type { GridRowProps, FullViewConfig } from "../types";
+
+/**
+ * Vista con columnas: cada hijo es una columna a pantalla completa.
+ * Arriba/abajo cambian de fila, izquierda/derecha de columna.
+ *
+ * @example
+ * ```tsx
+ * <GridRow id="chapter-1">
+ *   <Slide title="Intro" />
+ *   <Slide title="Details" />
+ *   <Slide title="Summary" />
+ * </GridRow>
+ * ```
+ */
+export function GridRow({
+  id,
+  children,
+  className = "",
+  meta,
+  transitionDuration,
+  transitionEasing,
+  onColumnChange,
+  onActivate,
+  onDeactivate,
+  onEnterStart,
+  onEnterEnd,
+  onExitStart,
+  onExitEnd,
+  beforeLeave,
+  beforeEnter,
+  skipGuardsFor,
+  transition,
+  order,
+}: GridRowProps) {
+  const cells = Children.toArray(children);
+  const columns = cells.length;
+
+  // Configuración de la vista (las columnas viajan en el config)
+  const config = useMemo<FullViewConfig>(
+    () => ({
+      id,
+      type: "full",
+      meta,
+      transition,
+      columns,
+    }),
+    [id, meta, transition, columns]
+  );
+
+  const { isActive, index } = useViewRegistration({
+    order,
+    config,
+    onActivate,
+    onDeactivate,
+    onEnterStart,
+    onEnterEnd,
+    onExitStart,
+    onExitEnd,
+    beforeLeave,
+    beforeEnter,
+    skipGuardsFor,
+  });
+
+  const useStore = useScrollStoreApi();
+  const activeColumn = useStore((s) => s.views.find((v) => v.id === id)?.activeColumn ?? 0);
+  const layoutDirection = useStore((s) => s.layoutDirection);
+
+  // Per-view transition styles (undefined in classic slide mode)
+  const transitionStyle = useViewTransition(index, transition);
+
+  // Column change callback (not on mount)
+  const prevColumnRef = useRef(activeColumn);
+  useEffect(() => {
+    if (prevColumnRef.current === activeColumn) return;
+    prevColumnRef.current = activeColumn;
+    onColumnChange?.(activeColumn);
+  }, [activeColumn, onColumnChange]);
+
+  // RTL: la fila empieza a la derecha, el track avanza hacia la derecha
+  const sign = layoutDirection === "rtl" ? 1 : -1;
+  // Duración/curva y reduced motion del contenedor (reduced motion se lee en un efecto:
+  // el render no toca matchMedia y la hidratación coincide)
+  const container = useContext(TransitionContext);
+  const duration = container.reducedMotion ? 0 : transitionDuration ?? container.transitionDuration;
+  const easing = transitionEasing ?? container.transitionEasing;
+
+  return (
+    <section
+      id={id}
+      className={`grid-row ${isActive ? "is-active" : ""} ${className}`}
+      style={{
+        position: "relative",
+        width: "100%",
+        height: "100vh",
+        overflow: "hidden",
+        ...transitionStyle,
+      }}
+      data-view-type="full"
+      data-view-index={index}
+      data-view-active={isActive}
+      data-active-column={activeColumn}
+      aria-hidden={!isActive}
+    >
+      <div
+        className="grid-row-track"
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          width: "100%",
+          height: "100%",
+          transform: `translateX(${sign * activeColumn * 100}%)`,
+          transition: `transform ${duration}ms ${easing}`,
+        }}
+      >
+        {cells.map((cell, column) => (
+          <div
+            key={column}
+            className="grid-cell"
+            data-column={column}
+            aria-hidden={column !== activeColumn}
+            style={{ flex: "0 0 100%", width: "100%", height: "100%", position: "relative" }}
+          >
+            {cell}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
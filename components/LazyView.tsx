@@ -6,7 +6,7 @@
  */
 
 import React, { useMemo } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
 
 export interface LazyViewProps {
   /** The view ID to track */
@@ -38,8 +38,10 @@ export function LazyView({
   children,
   placeholder = null,
 }: LazyViewProps) {
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const views = useScrollStore((s) => s.views);
+  const useStore = useScrollStoreApi();
+
+  const activeIndex = useStore((s) => s.activeIndex);
+  const views = useStore((s) => s.views);
   
   const shouldRender = useMemo(() => {
     const viewIndex = views.findIndex((v) => v.id === viewId);
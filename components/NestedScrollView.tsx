@@ -3,11 +3,20 @@
  * ========================================
  * Enables nested scroll areas within views.
  * Handles scroll direction isolation to prevent interference with main navigation.
+ * The active item lives in the store (ViewState.activeNestedIndex), so
+ * useNestedScroll, the keyboard and pagination UIs can read and drive it.
+ * Gestures are shared with the main axis through the gesture arbiter: a swipe
+ * along the carousel axis belongs to the carousel, any other to the container.
  */
 
 import React, { useRef, useEffect, useCallback, useState } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
 import { useViewRegistration } from "../hooks/useViewRegistration";
+import { useViewTransition } from "../hooks/useViewTransition";
+import { useGestureConfig } from "../hooks/useGestureConfig";
+import { createGestureArbiter } from "../utils/gestureArbiter";
+import { isPointerEnabled } from "../utils/pointer";
+import { NAV_THRESHOLDS, NESTED_SCROLL_IDLE } from "../constants";
 import type { NestedScrollViewProps } from "../types";
 
 /**
@@ -22,11 +31,9 @@ import type { NestedScrollViewProps } from "../types";
  *   enableSnap={true}
  *   onItemChange={(index) => console.log('Active item:', index)}
  * >
- *   <div className="flex">
- *     <div className="w-screen flex-shrink-0">Item 1</div>
- *     <div className="w-screen flex-shrink-0">Item 2</div>
- *     <div className="w-screen flex-shrink-0">Item 3</div>
- *   </div>
+ *   <NestedScrollItem>Item 1</NestedScrollItem>
+ *   <NestedScrollItem>Item 2</NestedScrollItem>
+ *   <NestedScrollItem>Item 3</NestedScrollItem>
  * </NestedScrollView>
  * ```
  */
@@ -37,27 +44,39 @@ export function NestedScrollView({
   nestedDirection = "horizontal",
   enableSnap = true,
   onItemChange,
+  itemCount: itemCountProp,
+  activeItem,
   onActivate,
   onDeactivate,
   onEnterStart,
   onEnterEnd,
   onExitStart,
   onExitEnd,
+  beforeLeave,
+  beforeEnter,
+  skipGuardsFor,
+  transition,
+  order,
 }: NestedScrollViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const nestedContainerRef = useRef<HTMLDivElement>(null);
-  const [activeNestedIndex, setActiveNestedIndex] = useState(0);
   const [isNestedScrolling, setIsNestedScrolling] = useState(false);
+  // Items counted from the DOM when itemCount isn't given
+  const [measuredCount, setMeasuredCount] = useState<number | undefined>(undefined);
+  const itemCount = itemCountProp ?? measuredCount;
   
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const views = useScrollStore((s) => s.views);
-  const setGlobalLock = useScrollStore((s) => s.setGlobalLock);
+  const useStore = useScrollStoreApi();
+
+  const views = useStore((s) => s.views);
+  const setNestedIndex = useStore((s) => s.setNestedIndex);
   
   const view = views.find((v) => v.id === id);
   const isActive = view?.isActive ?? false;
+  const activeNestedIndex = view?.activeNestedIndex ?? 0;
   
   // Register this view
-  useViewRegistration({
+  const { index } = useViewRegistration({
+    order,
     config: {
       id,
       type: "nested",
@@ -65,7 +84,10 @@ export function NestedScrollView({
         direction: nestedDirection,
         enableSnap,
         onItemChange,
+        itemCount,
+        activeItem,
       },
+      transition,
     },
     onActivate,
     onDeactivate,
@@ -73,7 +95,13 @@ export function NestedScrollView({
     onEnterEnd,
     onExitStart,
     onExitEnd,
+    beforeLeave,
+    beforeEnter,
+    skipGuardsFor,
   });
+
+  // Per-view transition styles (undefined in classic slide mode)
+  const transitionStyle = useViewTransition(index, transition);
   
   // Handle lifecycle callbacks
   useEffect(() => {
@@ -84,41 +112,141 @@ export function NestedScrollView({
     }
   }, [isActive, onActivate, onDeactivate]);
   
-  // Handle nested scroll
-  const handleNestedScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
-    if (!nestedContainerRef.current) return;
-    
+  // Count NestedScrollItem children when itemCount isn't given
+  useEffect(() => {
+    if (itemCountProp !== undefined || !nestedContainerRef.current) return;
+    const count = nestedContainerRef.current.querySelectorAll(".nested-scroll-item").length;
+    setMeasuredCount(count > 0 ? count : undefined);
+  }, [itemCountProp, children]);
+
+  // Controlled mode: activeItem drives the store
+  useEffect(() => {
+    if (activeItem !== undefined) setNestedIndex(id, activeItem);
+  }, [id, activeItem, itemCount, setNestedIndex]);
+
+  // Item currently shown by the native scroll position (null if unmeasurable)
+  const getScrolledIndex = useCallback((): number | null => {
     const container = nestedContainerRef.current;
-    const scrollPos = nestedDirection === "horizontal" 
-      ? container.scrollLeft 
+    if (!container) return null;
+
+    const scrollPos = nestedDirection === "horizontal"
+      ? Math.abs(container.scrollLeft) // RTL scrollLeft is negative
       : container.scrollTop;
     const itemSize = nestedDirection === "horizontal"
       ? container.clientWidth
       : container.clientHeight;
-    
-    if (itemSize > 0) {
-      const newIndex = Math.round(scrollPos / itemSize);
-      if (newIndex !== activeNestedIndex) {
-        setActiveNestedIndex(newIndex);
-        onItemChange?.(newIndex);
-      }
-    }
-  }, [nestedDirection, activeNestedIndex, onItemChange]);
+
+    return itemSize > 0 ? Math.round(scrollPos / itemSize) : null;
+  }, [nestedDirection]);
   
-  // Touch handling - prevent main scroll when user is scrolling nested content
-  const handleTouchStart = useCallback((e: React.TouchEvent) => {
-    // Lock main navigation when starting touch on nested scroll
-    setIsNestedScrolling(true);
-    setGlobalLock(true);
-  }, [setGlobalLock]);
+  // Item chosen by the user (swipe, native scroll). Controlled: only proposed through
+  // onItemChange; the store keeps following activeItem
+  const proposedIndexRef = useRef<number | null>(null);
+  const selectItem = useCallback((index: number) => {
+    if (activeItem === undefined) {
+      setNestedIndex(id, index);
+      return;
+    }
+    const clamped = Math.max(0, itemCount !== undefined ? Math.min(index, itemCount - 1) : index);
+    if (clamped === activeNestedIndex || clamped === proposedIndexRef.current) return;
+    proposedIndexRef.current = clamped;
+    onItemChange?.(clamped);
+  }, [activeItem, itemCount, activeNestedIndex, setNestedIndex, id, onItemChange]);
+
+  // Smooth scroll started by scrollToItem: its intermediate positions aren't user input
+  const isProgrammaticScrollRef = useRef(false);
+  const scrollIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Scroll finished (scrollend, or no scroll events for NESTED_SCROLL_IDLE ms)
+  const handleScrollEnd = useCallback(() => {
+    if (scrollIdleTimerRef.current) clearTimeout(scrollIdleTimerRef.current);
+    scrollIdleTimerRef.current = null;
+    if (isProgrammaticScrollRef.current) {
+      isProgrammaticScrollRef.current = false;
+      return;
+    }
+
+    // Controlled and the parent kept activeItem: back to the store's item
+    proposedIndexRef.current = null;
+    const current = useStore.getState().views.find((v) => v.id === id)?.activeNestedIndex ?? 0;
+    const scrolled = getScrolledIndex();
+    if (activeItem !== undefined && scrolled !== null && scrolled !== current) {
+      scrollToItemRef.current(current);
+    }
+  }, [useStore, id, activeItem, getScrolledIndex]);
+
+  const handleScrollEndRef = useRef(handleScrollEnd);
+  handleScrollEndRef.current = handleScrollEnd;
+
+  const restartScrollIdle = useCallback(() => {
+    if (scrollIdleTimerRef.current) clearTimeout(scrollIdleTimerRef.current);
+    scrollIdleTimerRef.current = setTimeout(() => handleScrollEndRef.current(), NESTED_SCROLL_IDLE);
+  }, []);
+
+  useEffect(() => {
+    const container = nestedContainerRef.current;
+    if (!container) return;
+    const onScrollEnd = () => handleScrollEndRef.current();
+    container.addEventListener("scrollend", onScrollEnd);
+    return () => {
+      container.removeEventListener("scrollend", onScrollEnd);
+      if (scrollIdleTimerRef.current) clearTimeout(scrollIdleTimerRef.current);
+    };
+  }, []);
+
+  // Handle nested scroll: native swipes/scroll update the store
+  const handleNestedScroll = useCallback(() => {
+    restartScrollIdle();
+    if (isProgrammaticScrollRef.current) return;
+
+    const newIndex = getScrolledIndex();
+    if (newIndex !== null && newIndex !== activeNestedIndex) {
+      selectItem(newIndex);
+    }
+  }, [restartScrollIdle, getScrolledIndex, activeNestedIndex, selectItem]);
   
-  const handleTouchEnd = useCallback(() => {
-    // Unlock after a short delay to allow snap to complete
-    setTimeout(() => {
-      setIsNestedScrolling(false);
-      setGlobalLock(false);
-    }, 100);
-  }, [setGlobalLock]);
+  // Gesture arbitration - the carousel only takes gestures along its own axis.
+  // Touch and pen pan natively (touch-action); the mouse is dragged by hand.
+  const gestureConfig = useGestureConfig();
+  const arbiterRef = useRef(createGestureArbiter());
+  const pointerStartRef = useRef<{ id: number; x: number; y: number } | null>(null);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (!isPointerEnabled(e.nativeEvent, gestureConfig)) return;
+    pointerStartRef.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+    arbiterRef.current.start(e.clientX, e.clientY, e.target);
+  }, [gestureConfig]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (pointerStartRef.current?.id !== e.pointerId) return;
+    if (arbiterRef.current.update(e.clientX, e.clientY) === "nested") {
+      setIsNestedScrolling(true);
+    }
+  }, []);
+
+  const endGesture = useCallback(() => {
+    pointerStartRef.current = null;
+    arbiterRef.current.reset();
+    setIsNestedScrolling(false);
+  }, []);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    const start = pointerStartRef.current;
+    if (start?.id !== e.pointerId) return;
+
+    const owner = arbiterRef.current.resolve(e.clientX, e.clientY);
+    if (owner === "nested" && e.pointerType === "mouse") {
+      const isHorizontal = nestedDirection === "horizontal";
+      const delta = isHorizontal ? start.x - e.clientX : start.y - e.clientY;
+      if (Math.abs(delta) > NAV_THRESHOLDS.TOUCH) {
+        const container = nestedContainerRef.current;
+        const isRtl = isHorizontal && !!container && window.getComputedStyle(container).direction === "rtl";
+        const step = (delta > 0) !== isRtl ? 1 : -1;
+        selectItem(activeNestedIndex + step);
+      }
+    }
+    endGesture();
+  }, [nestedDirection, selectItem, activeNestedIndex, endGesture]);
   
   // Snap to item
   const scrollToItem = useCallback((index: number) => {
@@ -130,12 +258,40 @@ export function NestedScrollView({
       : container.clientHeight;
     
     const scrollPos = index * itemSize;
+    const current = nestedDirection === "horizontal" ? Math.abs(container.scrollLeft) : container.scrollTop;
+    // Already there: no scroll events will come to end it
+    if (Math.abs(current - scrollPos) < 1) return;
+
+    const isRtl = nestedDirection === "horizontal" &&
+      window.getComputedStyle(container).direction === "rtl";
     
-    container.scrollTo({
-      [nestedDirection === "horizontal" ? "left" : "top"]: scrollPos,
+    isProgrammaticScrollRef.current = true;
+    restartScrollIdle();
+    container.scrollTo?.({
+      [nestedDirection === "horizontal" ? "left" : "top"]: isRtl ? -scrollPos : scrollPos,
       behavior: "smooth",
     });
-  }, [nestedDirection]);
+  }, [nestedDirection, restartScrollIdle]);
+
+  const scrollToItemRef = useRef(scrollToItem);
+  scrollToItemRef.current = scrollToItem;
+
+  // Store → DOM: keyboard, useNestedScroll and activeItem move the carousel.
+  // Only on index changes: a new onItemChange must not rescroll to a stale index
+  useEffect(() => {
+    if (getScrolledIndex() !== activeNestedIndex) {
+      scrollToItem(activeNestedIndex);
+    }
+  }, [activeNestedIndex, getScrolledIndex, scrollToItem]);
+
+  const prevNestedIndexRef = useRef(activeNestedIndex);
+  useEffect(() => {
+    if (prevNestedIndexRef.current === activeNestedIndex) return;
+    prevNestedIndexRef.current = activeNestedIndex;
+    // A proposal the parent accepted was already reported
+    if (proposedIndexRef.current === activeNestedIndex) proposedIndexRef.current = null;
+    else onItemChange?.(activeNestedIndex);
+  }, [activeNestedIndex, onItemChange]);
   
   // Scroll container styles for nested scroll
   const nestedScrollStyle: React.CSSProperties = {
@@ -147,6 +303,8 @@ export function NestedScrollView({
       : "none",
     scrollBehavior: "smooth",
     WebkitOverflowScrolling: "touch",
+    // The browser pans only the carousel axis; the other axis reaches the container
+    touchAction: nestedDirection === "horizontal" ? "pan-x" : "pan-y",
     width: "100%",
     height: "100%",
   };
@@ -158,17 +316,22 @@ export function NestedScrollView({
       data-view-id={id}
       data-view-type="nested"
       data-nested-direction={nestedDirection}
+      data-nested-index={activeNestedIndex}
+      data-nested-scrolling={isNestedScrolling}
       role="region"
       aria-label={`Nested scroll view ${id}`}
       tabIndex={0}
+      style={transitionStyle}
     >
       <div
         ref={nestedContainerRef}
         className="nested-scroll-container"
         style={nestedScrollStyle}
         onScroll={handleNestedScroll}
-        onTouchStart={handleTouchStart}
-        onTouchEnd={handleTouchEnd}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={endGesture}
       >
         {children}
       </div>
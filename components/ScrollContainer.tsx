@@ -5,26 +5,32 @@
  * Maneja la disposición de vistas y eventos de navegación.
  */
 
-import React, { useEffect, useRef, useMemo, useState } from "react";
-import { useScrollStore } from "../store";
+import React, { Children, isValidElement, useCallback, useEffect, useRef, useMemo, useState } from "react";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
 import { useWheelHandler } from "../hooks/useWheelHandler";
 import { useTouchHandler } from "../hooks/useTouchHandler";
 import { useKeyboardHandler } from "../hooks/useKeyboardHandler";
 import { useHashSync } from "../hooks/useHashSync";
-import { useDragHandler } from "../hooks/useDragHandler";
+import { useUrlSync } from "../hooks/useUrlSync";
+import { useDragHandler, type DragRelease } from "../hooks/useDragHandler";
 import { useFocusManagement } from "../hooks/useFocusManagement";
 import { useScrollSystem } from "../hooks/useScrollSystem";
 import { useGlobalProgress } from "../hooks/useGlobalProgress";
 import { useAutoScroll } from "../hooks/useAutoScroll";
 import { useInfiniteScroll } from "../hooks/useInfiniteScroll";
 import { usePreload } from "../hooks/usePreload";
+import { useNavigationBlocked } from "../hooks/useNavigationBlocked";
+import { usePersistence } from "../hooks/usePersistence";
 import { GestureConfigContext, mergeGestureConfig } from "../hooks/useGestureConfig";
-import { prefersReducedMotion } from "../utils";
+import { TransitionContext, usePerViewTransition } from "../hooks/useViewTransition";
+import { useTransitionController } from "../hooks/useTransitionController";
+import { detectLayoutDirection, isDevelopment, placeByOrder, prefersReducedMotion } from "../utils";
+import { resolveTransition } from "../utils/transitions";
 import {
   DEFAULT_TRANSITION_DURATION,
   DEFAULT_TRANSITION_EASING,
 } from "../constants";
-import type { ScrollContainerProps, AutoScrollConfig, PreloadConfig } from "../types";
+import type { ScrollContainerProps, AutoScrollConfig, PreloadConfig, LayoutDirection } from "../types";
 
 export function ScrollContainer({
   children,
@@ -37,6 +43,10 @@ export function ScrollContainer({
   enableHashSync = false,
   hashPushHistory = false,
   hashPrefix = "",
+  hashHistoryStack = false,
+  urlSync = false,
+  // Persistence
+  persist = false,
   // Accessibility
   respectReducedMotion = true,
   enableFocusManagement = true,
@@ -44,15 +54,24 @@ export function ScrollContainer({
   enableDragPhysics = false,
   // Layout
   orientation = "vertical",
+  dir = "auto",
   // NEW: v1.1.0 Features
   skipInitialAnimation = false,
+  initialIndex,
+  initialViewId,
   onProgress,
   gestureConfig,
   autoScroll,
   infiniteScroll = false,
   preload = true,
+  transition = "slide",
+  interruptible = true,
+  flickSkip = false,
+  onNavigationBlocked,
+  nudgeOnBlocked = false,
 }: ScrollContainerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
   const isFirstRender = useRef(true);
 
   // SSR Guard: Check if running in browser
@@ -77,31 +96,110 @@ export function ScrollContainer({
   const effectiveDuration = reducedMotion ? 0 : transitionDuration;
 
   // Store & API
-  const { initialize, endTransition } = useScrollStore();
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const totalViews = useScrollStore((s) => s.totalViews);
-  const isInitialized = useScrollStore((s) => s.isInitialized);
+  const useStore = useScrollStoreApi();
+  // Actions one by one: the whole state changes every animation frame
+  const initialize = useStore((s) => s.initialize);
+  const setInterruptible = useStore((s) => s.setInterruptible);
+  const setFlickSkip = useStore((s) => s.setFlickSkip);
+  const setLayoutDirection = useStore((s) => s.setLayoutDirection);
+  const activeIndex = useStore((s) => s.activeIndex);
   
+  // Initial view, known at render time (also on the server): the first paint is already in place.
+  // Views that haven't registered yet take their position from the children
+  const [{ initialPosition, childPositions }] = useState(() => {
+    const childPositions = getChildPositions(children);
+    const childIndex = initialViewId !== undefined ? childPositions.get(initialViewId) : undefined;
+    return { childPositions, initialPosition: childIndex ?? Math.max(0, initialIndex ?? 0) };
+  });
+
+  // initialViewId only resolves against direct children (not VirtualScrollContainer items):
+  // the first paint would start elsewhere and jump after initialize()
+  useEffect(() => {
+    if (initialViewId === undefined || childPositions.has(initialViewId) || !isDevelopment()) return;
+    console.warn(
+      `[scroll-system] initialViewId "${initialViewId}" is not a direct child view, so the first paint ` +
+      `starts on index ${initialPosition}. Use initialIndex (required inside VirtualScrollContainer).`
+    );
+  }, [initialViewId, childPositions, initialPosition]);
+
   const prevIndexRef = useRef(activeIndex);
 
   // Initialize Input Handlers (all use Intention Model)
-  useWheelHandler();
+  useWheelHandler({ orientation });
   
-  // Only use discrete touch handler if drag physics is DISABLED
-  useTouchHandler({ enabled: !enableDragPhysics });
-  
-  useKeyboardHandler();
+  // Merged gesture config
+  const mergedGestureConfig = mergeGestureConfig(gestureConfig);
+
+  // Discrete swipes; with drag physics they only move between grid columns
+  useTouchHandler({
+    gestureConfig: mergedGestureConfig,
+    orientation,
+    columnsOnly: enableDragPhysics,
+  });
   
+  useKeyboardHandler({ orientation });
+
   // Touch Physics - 1:1 Drag (only if enabled and reduced motion is off)
+  const releaseRef = useRef<(release: DragRelease) => void>(() => {});
+  const handleRelease = useCallback((release: DragRelease) => releaseRef.current(release), []);
   const dragState = useDragHandler({ 
     enabled: enableDragPhysics && !reducedMotion,
+    gestureConfig: mergedGestureConfig,
+    orientation,
+    // Release carries its velocity into the spring snap
+    onRelease: handleRelease,
+  });
+
+  // RTL: explicit dir prop, or inherited from the page (dir="rtl" / CSS direction)
+  const [detectedDirection, setDetectedDirection] = useState<LayoutDirection>("ltr");
+  const layoutDirection: LayoutDirection = dir === "auto" ? detectedDirection : dir;
+
+  // Transition effect: classic wrapper slide, or per-view styles
+  const perView = usePerViewTransition(transition);
+
+  // Wrapper transform for a visual position (null in per-view mode: views position themselves)
+  const toTransform = useMemo(() => {
+    if (perView) return null;
+    const transformAxis = orientation === "horizontal" ? "X" : "Y";
+    const sizeUnit = orientation === "horizontal" ? "vw" : "vh";
+    // RTL: the row starts on the right, so the wrapper moves right to advance
+    const sign = orientation === "horizontal" && layoutDirection === "rtl" ? 1 : -1;
+    return (position: number) => `translate${transformAxis}(${sign * position * 100}${sizeUnit})`;
+  }, [perView, orientation, layoutDirection]);
+
+  // Transition: animation controller moves the wrapper (no re-render per frame)
+  // and calls endTransition when the animation actually finishes
+  const { release } = useTransitionController({
+    duration: effectiveDuration,
+    easing: transitionEasing,
+    // Skip animation on first render if configured
+    instant: skipInitialAnimation && isFirstRender.current,
+    spring: mergedGestureConfig.spring,
+    initialPosition,
+    elementRef: wrapperRef,
+    toTransform,
+    dragOffset: dragState.isDragging ? dragState.dragOffset : 0,
   });
+  releaseRef.current = release;
   
   // Deep Linking (URL Hash Sync)
-  useHashSync({
+  const { getInitialTarget: getHashTarget } = useHashSync({
     enabled: enableHashSync,
     pushHistory: hashPushHistory,
     hashPrefix: hashPrefix,
+    historyStack: hashHistoryStack,
+  });
+
+  // Router-style URL sync (path / query / custom serializer)
+  const { getInitialTarget: getUrlTarget } = useUrlSync({
+    ...(typeof urlSync === "object" ? urlSync : {}),
+    enabled: urlSync !== false,
+  });
+
+  // Session persistence (restores on initialize, without animation)
+  const { getRestoreTarget } = usePersistence({
+    ...(typeof persist === "object" ? persist : {}),
+    enabled: persist !== false,
   });
 
   // Focus Management (Accessibility)
@@ -123,20 +221,48 @@ export function ScrollContainer({
     ? (preload ? { ahead: 1, behind: 1 } : undefined)
     : preload;
   usePreload(preloadConfig ?? {});
-  
-  // Merged gesture config
-  const mergedGestureConfig = mergeGestureConfig(gestureConfig);
 
-  // Initialization
+  // Initialization (deterministic, no timer): children register in their own effects,
+  // which run before this one in the same commit
+  const initTargets = { getHashTarget, getUrlTarget, getRestoreTarget, initialTarget: initialViewId ?? initialIndex };
+  const initRef = useRef({ onInitialized, ...initTargets });
+  initRef.current = { onInitialized, ...initTargets };
+
   useEffect(() => {
-    const timer = setTimeout(() => {
-      initialize();
+    let cancelled = false;
+
+    const run = () => {
+      if (cancelled) return;
+      const { onInitialized, getHashTarget, getUrlTarget, getRestoreTarget, initialTarget } = initRef.current;
+      // Deep link first (lands without a transition), then the saved position;
+      // unknown targets fall back to the first view
+      initialize(getUrlTarget() ?? getHashTarget() ?? getRestoreTarget() ?? initialTarget);
       onInitialized?.();
       isFirstRender.current = false;
-    }, 50);
+    };
 
-    return () => clearTimeout(timer);
-  }, [initialize, onInitialized]);
+    if (useStore.getState().views.length > 0) {
+      run();
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    // No views yet (Suspense, lazy children): wait until the first batch has registered
+    const unsubscribe = useStore.subscribe(
+      (state) => state.views.length > 0,
+      (hasViews) => {
+        if (!hasViews) return;
+        unsubscribe();
+        queueMicrotask(run);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [initialize, useStore]);
 
   // Apply mobile optimizations (prevent pull-to-refresh)
   useEffect(() => {
@@ -163,79 +289,137 @@ export function ScrollContainer({
     };
   }, [isBrowser]);
 
-  // Handle View Change & Transition
+  // Interruptible transitions: new input retargets instead of being dropped
   useEffect(() => {
-    if (prevIndexRef.current !== activeIndex) {
-      onViewChange?.(prevIndexRef.current, activeIndex);
+    setInterruptible(interruptible);
+    return () => setInterruptible(false);
+  }, [interruptible, setInterruptible]);
+
+  // Flick Skip: primitive deps so an inline config object doesn't resync every render
+  const flickSkipEnabled = flickSkip !== false;
+  const { maxViews, velocityPerView, minStrength } = typeof flickSkip === "object" ? flickSkip : {};
+
+  useEffect(() => {
+    if (!flickSkipEnabled) {
+      setFlickSkip(null);
+      return;
+    }
+    setFlickSkip({
+      ...(maxViews !== undefined && { maxViews }),
+      ...(velocityPerView !== undefined && { velocityPerView }),
+      ...(minStrength !== undefined && { minStrength }),
+    });
+    return () => setFlickSkip(null);
+  }, [flickSkipEnabled, maxViews, velocityPerView, minStrength, setFlickSkip]);
+
+  useEffect(() => {
+    if (dir !== "auto") return;
+    setDetectedDirection(detectLayoutDirection(containerRef.current));
+  }, [dir]);
+
+  useEffect(() => {
+    setLayoutDirection(layoutDirection);
+    return () => setLayoutDirection("ltr");
+  }, [layoutDirection, setLayoutDirection]);
 
-      // Transition handling (use effective duration)
-      const timer = setTimeout(() => {
-        endTransition();
-      }, effectiveDuration);
+  // Blocked navigation feedback (callback + optional rubber-band nudge)
+  useNavigationBlocked({
+    onBlocked: onNavigationBlocked,
+    nudgeRef: nudgeOnBlocked && !reducedMotion ? wrapperRef : undefined,
+    orientation,
+  });
 
+  // Handle View Change
+  useEffect(() => {
+    if (prevIndexRef.current !== activeIndex) {
+      onViewChange?.(prevIndexRef.current, activeIndex);
       prevIndexRef.current = activeIndex;
-      return () => clearTimeout(timer);
     }
-  }, [activeIndex, effectiveDuration, onViewChange, endTransition]);
+  }, [activeIndex, onViewChange]);
+
+  const transitionContext = useMemo(() => ({
+    perView,
+    transition: resolveTransition(transition, orientation, layoutDirection),
+    orientation,
+    direction: layoutDirection,
+    reducedMotion,
+    transitionDuration,
+    transitionEasing,
+    initialPosition,
+    childPositions,
+  }), [
+    perView, transition, orientation, layoutDirection, reducedMotion,
+    transitionDuration, transitionEasing, initialPosition, childPositions,
+  ]);
 
-  // Visual Styles (uses effective duration + drag offset + orientation)
+  // Visual Styles. The transform is only rendered for the initial position (server,
+  // hydration): from then on the transition controller moves the wrapper
   const wrapperStyle = useMemo<React.CSSProperties>(() => {
-    const baseOffset = activeIndex * 100;
-    
-    // Add drag offset during active drag
-    const dragOffset = dragState.isDragging 
-      ? dragState.dragOffset * 100 
-      : 0;
-    
-    // Horizontal vs Vertical
-    const transformAxis = orientation === "horizontal" ? "X" : "Y";
-    const sizeUnit = orientation === "horizontal" ? "vw" : "vh";
-    
-    // Skip animation on first render if configured
-    const shouldAnimate = !skipInitialAnimation || !isFirstRender.current;
-    const transitionValue = dragState.isDragging 
-      ? "none"
-      : (shouldAnimate && effectiveDuration > 0)
-        ? `transform ${effectiveDuration}ms ${transitionEasing}` 
-        : "none";
-    
+    // Per-view mode: views position themselves, the wrapper stays still
+    if (!toTransform) {
+      return { position: "relative", height: "100%", width: "100%" };
+    }
+
     return {
-      transform: `translate${transformAxis}(-${baseOffset + dragOffset}${sizeUnit})`,
-      transition: transitionValue,
+      transform: toTransform(initialPosition),
       height: "100%",
       width: "100%",
       display: orientation === "horizontal" ? "flex" : "block",
       flexDirection: orientation === "horizontal" ? "row" : undefined,
     };
-  }, [activeIndex, effectiveDuration, transitionEasing, dragState, orientation, skipInitialAnimation]);
+  }, [toTransform, initialPosition, orientation]);
 
   return (
     <GestureConfigContext.Provider value={mergedGestureConfig}>
-      <div
-        ref={containerRef}
-        className={`scroll-container ${className}`}
-        role="main"
-        aria-label="Scroll container"
-        data-auto-scrolling={autoScrollState.isPlaying}
-        style={{
-          position: "fixed",
-          top: 0,
-          left: 0,
-          right: 0,
-          bottom: 0,
-          overflow: "hidden",
-          width: "100vw",
-          height: "100vh",
-        }}
-      >
-        <div className="scroll-wrapper" style={wrapperStyle}>
-          {children}
+      <TransitionContext.Provider value={transitionContext}>
+        <div
+          ref={containerRef}
+          dir={dir === "auto" ? undefined : dir}
+          className={`scroll-container ${className}`}
+          role="main"
+          aria-label="Scroll container"
+          data-auto-scrolling={autoScrollState.isPlaying}
+          style={{
+            position: "fixed",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            overflow: "hidden",
+            // Pointer Events: gestures are ours (nested scrollables keep their own pan)
+            touchAction: "none",
+            width: "100vw",
+            height: "100vh",
+          }}
+        >
+          <div ref={wrapperRef} className="scroll-wrapper" style={wrapperStyle}>
+            {children}
+          </div>
         </div>
-      </div>
+      </TransitionContext.Provider>
     </GestureConfigContext.Provider>
   );
 }
 
+/**
+ * Posición de cada vista (por id) entre los hijos directos, con el mismo orden que el
+ * store (prop `order` en su posición, el resto en orden). Sirve en el servidor: no depende del registro.
+ */
+function getChildPositions(children: React.ReactNode): Map<string, number> {
+  const ordered = placeByOrder(
+    Children.toArray(children)
+      .filter(isValidElement)
+      .map((child) => child.props as { id?: unknown; order?: number }),
+    (props) => props.order
+  );
+
+  const positions = new Map<string, number>();
+  ordered.forEach((props, position) => {
+    if (typeof props.id === "string") positions.set(props.id, position);
+  });
+  return positions;
+}
+
 // Indicator Component (Internal)
 function ScrollIndicators({ totalViews, activeIndex }: { totalViews: number; activeIndex: number }) {
   const { goTo } = useScrollSystem();
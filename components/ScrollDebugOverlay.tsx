@@ -8,7 +8,8 @@
  */
 
 import React from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
+import { selectActiveView } from "../store";
 
 interface ScrollDebugOverlayProps {
   /** Position of the overlay (default: "bottom-left") */
@@ -22,14 +23,15 @@ export function ScrollDebugOverlay({
   visible = true,
 }: ScrollDebugOverlayProps) {
   // Subscribe to all relevant state
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const totalViews = useScrollStore((s) => s.totalViews);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
-  const isGlobalLocked = useScrollStore((s) => s.isGlobalLocked);
-  const isInitialized = useScrollStore((s) => s.isInitialized);
-  const views = useScrollStore((s) => s.views);
-  
-  const activeView = views[activeIndex];
+  const useStore = useScrollStoreApi();
+
+  const activeIndex = useStore((s) => s.activeIndex);
+  const totalViews = useStore((s) => s.totalViews);
+  const isTransitioning = useStore((s) => s.isTransitioning);
+  const isGlobalLocked = useStore((s) => s.isGlobalLocked);
+  const lockHolders = useStore((s) => s.lockHolders);
+  const isInitialized = useStore((s) => s.isInitialized);
+  const activeView = useStore(selectActiveView);
 
   if (!visible) return null;
 
@@ -59,6 +61,21 @@ export function ScrollDebugOverlay({
         <Row label="globalLocked" value={isGlobalLocked} />
       </div>
 
+      {/* Lock Holders */}
+      {lockHolders.length > 0 && (
+        <div className="border-t border-green-500/20 pt-2 mt-2">
+          <div className="text-green-300/70 mb-1">Locks</div>
+          {lockHolders.map((holder) => (
+            <Row
+              key={holder.id}
+              label={holder.ownerId}
+              value={`${holder.directions.join("+")}${holder.count > 1 ? ` ×${holder.count}` : ""}${holder.reason ? ` (${holder.reason})` : ""}`}
+              highlight
+            />
+          ))}
+        </div>
+      )}
+
       {/* Active View */}
       {activeView && (
         <div className="border-t border-green-500/20 pt-2 mt-2">
@@ -67,6 +84,12 @@ export function ScrollDebugOverlay({
           <Row label="type" value={activeView.type} />
           <Row label="capability" value={activeView.capability} />
           <Row label="navigation" value={activeView.navigation} />
+          {activeView.locks.forward.length > 0 && (
+            <Row label="forwardLock" value={activeView.locks.forward.join(", ")} highlight />
+          )}
+          {activeView.locks.backward.length > 0 && (
+            <Row label="backwardLock" value={activeView.locks.backward.join(", ")} highlight />
+          )}
           <Row label="progress" value={`${(activeView.progress * 100).toFixed(0)}%`} />
           {activeView.explicitLock && (
             <Row label="explicitLock" value={activeView.explicitLock} highlight />
@@ -0,0 +1,85 @@
+/**
+ * Scroll System - Scroll Hint
+ * ============================
+ * Muestra un mensaje breve cuando se bloquea una navegación:
+ * "Scroll to continue" en una ScrollLockedView sin terminar,
+ * "Complete the form to continue" en una ControlledView sin canProceed...
+ *
+ * Es solo visual (aria-hidden): AriaLiveRegion anuncia el mismo mensaje.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
+import { getScrollHintKind, getScrollHintMessage } from "../utils/scrollHint";
+import type { ScrollHintKind, ScrollHintMessages } from "../utils/scrollHint";
+import type { NavigationBlockedEvent } from "../types";
+
+export interface ScrollHintRenderProps {
+  kind: ScrollHintKind;
+  message: string;
+  event: NavigationBlockedEvent;
+}
+
+export interface ScrollHintProps {
+  /** Override the default message of each hint kind */
+  messages?: Partial<ScrollHintMessages>;
+  /** How long the hint stays visible in ms (default: 2500) */
+  duration?: number;
+  /** Hint kinds to show (default: all) */
+  kinds?: ScrollHintKind[];
+  className?: string;
+  /** Custom rendering */
+  children?: (hint: ScrollHintRenderProps) => React.ReactNode;
+}
+
+/**
+ * Context-aware hint for refused navigations. Place inside ScrollContainer.
+ *
+ * @example
+ * ```tsx
+ * <ScrollHint messages={{ complete: "Accept the terms to continue" }} />
+ * ```
+ */
+export function ScrollHint({
+  messages,
+  duration = 2500,
+  kinds,
+  className = "",
+  children,
+}: ScrollHintProps) {
+  const useStore = useScrollStoreApi();
+  const lastBlocked = useStore((s) => s.lastBlockedNavigation);
+  const viewType = useStore((s) => s.views.find((v) => v.id === s.lastBlockedNavigation?.viewId)?.type);
+  const [visible, setVisible] = useState(false);
+
+  // Each refused navigation shows the hint again for `duration`
+  useEffect(() => {
+    if (!lastBlocked) {
+      setVisible(false);
+      return;
+    }
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), duration);
+    return () => clearTimeout(timer);
+  }, [lastBlocked, duration]);
+
+  if (!lastBlocked || !visible) return null;
+
+  const kind = getScrollHintKind(lastBlocked, viewType);
+  if (kinds && !kinds.includes(kind)) return null;
+
+  const message = getScrollHintMessage(lastBlocked, viewType, messages);
+
+  return (
+    <div
+      className={`scroll-hint fixed bottom-8 left-1/2 -translate-x-1/2 z-50 ${className}`}
+      data-hint={kind}
+      aria-hidden="true"
+      style={{ pointerEvents: "none" }}
+    >
+      {children ? children({ kind, message, event: lastBlocked }) : message}
+    </div>
+  );
+}
+
+export default ScrollHint;
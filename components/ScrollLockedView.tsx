@@ -8,8 +8,11 @@
 
 import React, { useEffect, useRef } from "react";
 import { useViewRegistration } from "../hooks/useViewRegistration";
+import { useViewTransition } from "../hooks/useViewTransition";
 import { useMetricsReporter } from "../hooks/useMetricsReporter";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
+import { useReadCompletion } from "../hooks/useReadCompletion";
+import { DEFAULT_SCROLL_END_THRESHOLD } from "../constants";
 import type { ScrollLockedViewProps, ScrollResetBehavior } from "../types";
 
 export function ScrollLockedView({
@@ -17,10 +20,14 @@ export function ScrollLockedView({
   children,
   className = "",
   scrollDirection = "vertical",
-  scrollEndThreshold = 0.99,
+  scrollEndThreshold = DEFAULT_SCROLL_END_THRESHOLD,
+  scrollEndOffset,
+  scrollEndHysteresis,
   scrollResetBehavior = "direction-aware",
   forceScrollLock = false,
   enableTouchPassthrough = false,
+  minDwellMs,
+  requireSections,
   onScrollProgress,
   onActivate,
   onDeactivate,
@@ -28,17 +35,30 @@ export function ScrollLockedView({
   onEnterEnd,
   onExitStart,
   onExitEnd,
+  beforeLeave,
+  beforeEnter,
+  skipGuardsFor,
+  transition,
+  order,
 }: ScrollLockedViewProps) {
+  const useStore = useScrollStoreApi();
+
   // Registro en el sistema
   const { isActive, index } = useViewRegistration({
+    order,
     config: {
       id,
       type: "scroll-locked",
       scrollDirection,
       scrollEndThreshold,
+      scrollEndOffset,
+      scrollEndHysteresis,
       scrollResetBehavior,
       forceScrollLock,
       enableTouchPassthrough,
+      minDwellMs,
+      requireSections,
+      transition,
     },
     onActivate,
     onDeactivate,
@@ -46,8 +66,14 @@ export function ScrollLockedView({
     onEnterEnd,
     onExitStart,
     onExitEnd,
+    beforeLeave,
+    beforeEnter,
+    skipGuardsFor,
   });
 
+  // Per-view transition styles (undefined in classic slide mode)
+  const transitionStyle = useViewTransition(index, transition);
+
   // ========== TOUCH PASSTHROUGH LOGIC ==========
   const touchStartRef = useRef<{ y: number; scrollTop: number } | null>(null);
 
@@ -81,7 +107,7 @@ export function ScrollLockedView({
       const isAtBottom = scrollTop >= maxScroll - 1;
 
       if (startedAtBottom && isAtBottom) {
-        useScrollStore.getState().processIntention({
+        useStore.getState().processIntention({
           type: "navigate",
           direction: "down",
           strength: 1,
@@ -96,7 +122,7 @@ export function ScrollLockedView({
       const isAtTop = scrollTop <= 1;
 
       if (startedAtTop && isAtTop) {
-        useScrollStore.getState().processIntention({
+        useStore.getState().processIntention({
           type: "navigate",
           direction: "up",
           strength: 1,
@@ -117,9 +143,18 @@ export function ScrollLockedView({
     onScrollProgress,
   });
 
+  // Read rules (minDwellMs / requireSections): reported to the Store as pending requirements
+  useReadCompletion({
+    id,
+    isActive,
+    scrollRef,
+    minDwellMs,
+    requireSections,
+  });
+
   // Track previous active state to detect activation
   const wasActive = useRef(isActive);
-  const lastNavigationDirection = useScrollStore((s) => s.lastNavigationDirection);
+  const lastNavigationDirection = useStore((s) => s.lastNavigationDirection);
 
   // Reset scroll position when view becomes active
   useEffect(() => {
@@ -184,6 +219,7 @@ export function ScrollLockedView({
         width: "100%",
         height: "100vh",
         overflow: "hidden",
+        ...transitionStyle,
       }}
     >
       <div
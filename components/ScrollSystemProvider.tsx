@@ -0,0 +1,43 @@
+/**
+ * Scroll System - Provider
+ * ==================================
+ * Aísla una instancia del store para un subárbol.
+ * Permite varios ScrollContainer independientes en la misma página.
+ */
+
+import React, { useState } from "react";
+import { createScrollStore } from "../store";
+import type { ScrollStore } from "../store";
+import { ScrollStoreContext } from "../hooks/useScrollStoreApi";
+
+export interface ScrollSystemProviderProps {
+  children: React.ReactNode;
+  /** Existing store instance to use (default: a new store created on mount) */
+  store?: ScrollStore;
+}
+
+/**
+ * Provides an isolated scroll store to every hook and view below it.
+ * Without a provider, all components share the global `useScrollStore`.
+ *
+ * @example
+ * ```tsx
+ * <ScrollContainer>{feedViews}</ScrollContainer>
+ *
+ * <ScrollSystemProvider>
+ *   <ScrollContainer>{storyViews}</ScrollContainer>
+ * </ScrollSystemProvider>
+ * ```
+ */
+export function ScrollSystemProvider({ children, store }: ScrollSystemProviderProps) {
+  // Created once per provider so the instance survives re-renders
+  const [ownStore] = useState(() => store ?? createScrollStore());
+
+  return (
+    <ScrollStoreContext.Provider value={store ?? ownStore}>
+      {children}
+    </ScrollStoreContext.Provider>
+  );
+}
+
+export default ScrollSystemProvider;
@@ -0,0 +1,92 @@
+/**
+ * Scroll System - Virtual Scroll Container
+ * ========================================
+ * Variante de ScrollContainer para feeds con miles de ítems.
+ * Solo monta una ventana de vistas alrededor de la activa; los índices
+ * lógicos en el store se mantienen estables (goTo(4200) no monta 4200 nodos).
+ */
+
+import React, { useEffect } from "react";
+import { ScrollContainer } from "./ScrollContainer";
+import { useScrollStoreApi } from "../hooks/useScrollStoreApi";
+import { useIsomorphicLayoutEffect } from "../hooks/useIsomorphicLayoutEffect";
+import { useVirtualWindow, VirtualItemIndexContext } from "../hooks/useVirtualWindow";
+import { usePerViewTransition } from "../hooks/useViewTransition";
+import { DEFAULT_VIRTUAL_OVERSCAN } from "../constants";
+import type { VirtualScrollContainerProps } from "../types";
+
+/**
+ * Contenedor virtualizado: recibe un número de ítems y una función de render.
+ *
+ * @example
+ * ```tsx
+ * <VirtualScrollContainer
+ *   itemCount={posts.length}
+ *   renderItem={(index) => (
+ *     <FullView id={posts[index].id}>
+ *       <Post data={posts[index]} />
+ *     </FullView>
+ *   )}
+ * />
+ * ```
+ */
+export function VirtualScrollContainer({
+  itemCount,
+  renderItem,
+  overscan = DEFAULT_VIRTUAL_OVERSCAN,
+  orientation = "vertical",
+  transition = "slide",
+  ...containerProps
+}: VirtualScrollContainerProps) {
+  const useStore = useScrollStoreApi();
+  const setVirtualCount = useStore((s) => s.setVirtualCount);
+  const layoutDirection = useStore((s) => s.layoutDirection);
+
+  // Sync logical item count (totalViews) with the store. Layout effect: it must run
+  // before the views register and ScrollContainer calls initialize() (passive effects),
+  // or an initial/restored index outside the mounted window falls back to 0
+  useIsomorphicLayoutEffect(() => {
+    setVirtualCount(itemCount);
+  }, [itemCount, setVirtualCount]);
+
+  // Back to dense mode on unmount
+  useEffect(() => () => setVirtualCount(null), [setVirtualCount]);
+
+  const { start, end } = useVirtualWindow({ itemCount, overscan, initialIndex: containerProps.initialIndex });
+
+  // Items are absolutely positioned at their logical offset inside the
+  // translated wrapper, so the wrapper transform stays `activeIndex * 100`.
+  // With per-view transitions the views position themselves: items stay at 0.
+  // RTL decks lay the row out from the right edge.
+  const perView = usePerViewTransition(transition);
+  const offsetProperty = orientation === "horizontal"
+    ? (layoutDirection === "rtl" ? "right" : "left")
+    : "top";
+  const sizeUnit = orientation === "horizontal" ? "vw" : "vh";
+
+  const items: React.ReactNode[] = [];
+  for (let index = start; index <= end; index++) {
+    items.push(
+      <VirtualItemIndexContext.Provider key={index} value={index}>
+        <div
+          className="virtual-item"
+          data-virtual-index={index}
+          style={{
+            position: "absolute",
+            [offsetProperty]: perView ? 0 : `${index * 100}${sizeUnit}`,
+            width: "100%",
+            height: "100%",
+          }}
+        >
+          {renderItem(index)}
+        </div>
+      </VirtualItemIndexContext.Provider>
+    );
+  }
+
+  return (
+    <ScrollContainer {...containerProps} orientation={orientation} transition={transition}>
+      {items}
+    </ScrollContainer>
+  );
+}
@@ -1,8 +1,12 @@
 export * from "./ScrollContainer";
 export * from "./FullView";
+export * from "./GridRow";
 export * from "./ScrollLockedView";
 export * from "./ControlledView";
 export * from "./ScrollDebugOverlay";
 export * from "./AriaLiveRegion";
+export * from "./ScrollHint";
 export * from "./LazyView";
 export * from "./NestedScrollView";
+export * from "./ScrollSystemProvider";
+export * from "./VirtualScrollContainer";
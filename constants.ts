@@ -9,18 +9,59 @@ export const DEFAULT_TRANSITION_EASING = "cubic-bezier(0.645, 0.045, 0.355, 1.00
 
 // Configuración de Scroll
 export const DEFAULT_SCROLL_END_THRESHOLD = 0.99;
+// Píxeles que hay que volver a subir para re-bloquear (evita que el rebote de iOS alterne el lock)
+export const DEFAULT_SCROLL_END_HYSTERESIS = 16;
 export const DEFAULT_PROGRESS_DEBOUNCE = 16; // ~1 frame
 
 // Tiempo de espera entre navegaciones (ms)
 export const NAVIGATION_COOLDOWN = 500;
 
+// Entradas máximas del historial de navegación (back/forward)
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+// Persistencia: clave por defecto y espera (ms) antes de guardar tras un cambio
+export const DEFAULT_PERSIST_KEY = "scroll-system";
+export const PERSIST_DEBOUNCE = 250;
+
+// NestedScrollView: ms sin eventos de scroll para darlo por terminado (si el navegador no emite scrollend)
+export const NESTED_SCROLL_IDLE = 150;
+
 // Umbrales de sensibilidad para inputs
 export const NAV_THRESHOLDS = {
   WHEEL: 60,   // Acumulado de deltaY para disparar navegación
   TOUCH: 50,   // Píxeles de distancia para considerar swipe
 };
 
+// Distancia (px) antes de tratar un puntero como arrastre (y no como click)
+export const POINTER_DRAG_SLOP = 6;
+
+// Arbitraje de gestos: distancia (px) antes de decidir el eje, y ángulo (grados
+// desde la horizontal) por debajo del cual el gesto es horizontal
+export const GESTURE_SLOP = 10;
+export const GESTURE_AXIS_ANGLE = 45;
+
 // Constantes de Swipe
 export const MIN_SWIPE_DISTANCE = 50;
 export const MIN_SWIPE_VELOCITY = 0.3;
 export const SCROLL_INTENT_THRESHOLD = 40;
+
+// Flick skip: saltos de varias vistas por velocidad
+export const DEFAULT_FLICK_SKIP = {
+  maxViews: 3,
+  velocityPerView: 2, // px/ms por vista
+  minStrength: 1,
+};
+
+// Nudge al bloquear una navegación: desplazamiento (px) y duración (ms)
+export const NUDGE_DISTANCE = 24;
+export const NUDGE_DURATION = 300;
+
+// ScrollLockedView requireSections: selector, tiempo visible (ms) y fracción visible
+export const DEFAULT_READ_SECTIONS = {
+  selector: "[data-scroll-section]",
+  minVisibleMs: 1000,
+  threshold: 0.5,
+};
+
+// Virtualización: vistas montadas a cada lado de la activa
+export const DEFAULT_VIRTUAL_OVERSCAN = 2;
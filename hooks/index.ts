@@ -5,12 +5,19 @@ export * from "./useWheelHandler";
 export * from "./useTouchHandler";
 export * from "./useKeyboardHandler";
 export * from "./useHashSync";
+export * from "./useUrlSync";
+export * from "./usePersistence";
 export * from "./useDragHandler";
 export * from "./useFocusManagement";
 export * from "./useScrollAnalytics";
 export * from "./useViewRegistration";
 export * from "./useScrollSystem";
 export * from "./useMetricsReporter";
+export * from "./useScrollStoreApi";
+export * from "./useVirtualWindow";
+export * from "./useViewTransition";
+export * from "./useNavigationBlocked";
+export * from "./useReadCompletion";
 
 // New Feature Hooks (v1.1.0)
 export * from "./useGlobalProgress";
@@ -20,4 +27,6 @@ export * from "./useAutoScroll";
 export * from "./useParallax";
 export * from "./useSnapPoints";
 export * from "./useInfiniteScroll";
+export * from "./useFeed";
+export * from "./useNestedScroll";
 export * from "./useGestureConfig";
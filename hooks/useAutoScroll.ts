@@ -6,7 +6,7 @@
  */
 
 import { useEffect, useCallback, useRef } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 import type { AutoScrollConfig } from "../types";
 
 const DEFAULT_CONFIG: Required<AutoScrollConfig> = {
@@ -65,18 +65,20 @@ export function useAutoScroll(config: AutoScrollConfig): AutoScrollState {
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const resumeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
-  const isAutoScrolling = useScrollStore((s) => s.isAutoScrolling);
-  const isAutoScrollPaused = useScrollStore((s) => s.isAutoScrollPaused);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const totalViews = useScrollStore((s) => s.totalViews);
-  const infiniteScrollEnabled = useScrollStore((s) => s.infiniteScrollEnabled);
-  const isDragging = useScrollStore((s) => s.isDragging);
+  const useStore = useScrollStoreApi();
+
+  const isAutoScrolling = useStore((s) => s.isAutoScrolling);
+  const isAutoScrollPaused = useStore((s) => s.isAutoScrollPaused);
+  const isTransitioning = useStore((s) => s.isTransitioning);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const totalViews = useStore((s) => s.totalViews);
+  const infiniteScrollEnabled = useStore((s) => s.infiniteScrollEnabled);
+  const isDragging = useStore((s) => s.isDragging);
   
-  const setAutoScrolling = useScrollStore((s) => s.setAutoScrolling);
-  const setAutoScrollPaused = useScrollStore((s) => s.setAutoScrollPaused);
-  const goToNext = useScrollStore((s) => s.goToNext);
-  const goToPrevious = useScrollStore((s) => s.goToPrevious);
+  const setAutoScrolling = useStore((s) => s.setAutoScrolling);
+  const setAutoScrollPaused = useStore((s) => s.setAutoScrollPaused);
+  const goToNext = useStore((s) => s.goToNext);
+  const goToPrevious = useStore((s) => s.goToPrevious);
   
   // Pause auto-scroll
   const pause = useCallback(() => {
@@ -1,28 +1,42 @@
 /**
  * Scroll System - Drag Handler (Touch Physics)
  * ==============================================
- * Implements 1:1 direct manipulation for touch devices.
+ * Implements 1:1 direct manipulation with Pointer Events (touch, pen and,
+ * with enableMouseDrag, mouse).
  * 
  * Features:
  * - Real-time tracking of finger position
  * - Outputs dragOffset for visual feedback
  * - Spring-based release detection (snap vs. proceed)
+ * - Rubber-band resistance at the first/last view
+ * - Release offset + velocity for the spring snap (onRelease)
+ * - Pointer capture while dragging, click suppression after a drag
+ * - Gesture arbitration: cross-axis gestures (and carousels' own axis) are let go
  * 
  * This hook works alongside useTouchHandler which handles discrete swipes.
  */
 
 import { useRef, useEffect, useCallback, useState } from "react";
-import { useScrollStore } from "../store";
-
-// Configuration
-const DRAG_THRESHOLD = 50; // Minimum drag to trigger navigation
-const VELOCITY_THRESHOLD = 0.5; // Minimum velocity (px/ms) for quick swipe
-const RESISTANCE_FACTOR = 0.4; // Resistance when dragging past bounds
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { selectActiveView } from "../store";
+import { DEFAULT_GESTURE_CONFIG } from "./useGestureConfig";
+import { rubberBand } from "../utils/spring";
+import { capturePointer, isPointerEnabled, releasePointer, suppressNextClick } from "../utils/pointer";
+import { createGestureArbiter } from "../utils/gestureArbiter";
+import { POINTER_DRAG_SLOP } from "../constants";
+import type { GestureConfig, UserDirection } from "../types";
 
 export interface DragState {
   isDragging: boolean;
   dragOffset: number; // -1 to 1 relative to viewport, or 0 when not dragging
-  dragDirection: "up" | "down" | null;
+  dragDirection: UserDirection | null;
+}
+
+export interface DragRelease {
+  /** Visual drag offset in views at release (positive toward next) */
+  offset: number;
+  /** Release velocity in views per second (positive toward next) */
+  velocity: number;
 }
 
 export interface UseDragHandlerOptions {
@@ -31,11 +45,23 @@ export interface UseDragHandlerOptions {
   /** Callback when drag state changes */
   onDragUpdate?: (state: DragState) => void;
   /** Callback when drag completes with navigation decision */
-  onDragEnd?: (shouldNavigate: boolean, direction: "up" | "down") => void;
+  onDragEnd?: (shouldNavigate: boolean, direction: UserDirection) => void;
+  /** Called on release, before navigating, so the snap can carry the velocity */
+  onRelease?: (release: DragRelease) => void;
+  /** Thresholds and boundary resistance (defaults: DEFAULT_GESTURE_CONFIG) */
+  gestureConfig?: GestureConfig;
+  /** Drag axis: clientY/innerHeight or clientX/innerWidth (default: "vertical") */
+  orientation?: "vertical" | "horizontal";
 }
 
 export function useDragHandler(options: UseDragHandlerOptions = {}) {
-  const { enabled = true, onDragUpdate, onDragEnd } = options;
+  const { enabled = true, onDragUpdate, onDragEnd, onRelease, gestureConfig, orientation = "vertical" } = options;
+  const swipeThreshold = gestureConfig?.swipeThreshold ?? DEFAULT_GESTURE_CONFIG.swipeThreshold;
+  const swipeVelocity = gestureConfig?.swipeVelocity ?? DEFAULT_GESTURE_CONFIG.swipeVelocity;
+  const dragResistance = gestureConfig?.dragResistance ?? DEFAULT_GESTURE_CONFIG.dragResistance;
+  const enableTouch = gestureConfig?.enableTouch ?? DEFAULT_GESTURE_CONFIG.enableTouch;
+  const enableMouseDrag = gestureConfig?.enableMouseDrag ?? DEFAULT_GESTURE_CONFIG.enableMouseDrag;
+  const useStore = useScrollStoreApi();
   
   // State
   const [dragState, setDragState] = useState<DragState>({
@@ -45,8 +71,11 @@ export function useDragHandler(options: UseDragHandlerOptions = {}) {
   });
 
   // Refs for tracking
-  const touchStartRef = useRef<{ y: number; time: number } | null>(null);
-  const lastMoveRef = useRef<{ y: number; time: number } | null>(null);
+  const touchStartRef = useRef<{ position: number; time: number } | null>(null);
+  const pointerIdRef = useRef<number | null>(null);
+  const hasMovedRef = useRef(false); // passed the slop: a drag, not a click
+  const lastMoveRef = useRef<{ position: number; time: number } | null>(null);
+  const velocityRef = useRef(0); // px/ms, positive toward next
   const rafRef = useRef<number | null>(null);
 
   // Update drag state helper
@@ -61,81 +90,129 @@ export function useDragHandler(options: UseDragHandlerOptions = {}) {
   useEffect(() => {
     if (!enabled) return;
 
-    const handleTouchStart = (e: TouchEvent) => {
+    // Eje del arrastre según la orientación
+    const isHorizontal = orientation === "horizontal";
+    // RTL: se invierte X para que el delta siga siendo "hacia la siguiente vista"
+    let isMirrored = false;
+    const getPointerPosition = (e: PointerEvent) =>
+      (isHorizontal ? (isMirrored ? -e.clientX : e.clientX) : e.clientY);
+    const getViewportSize = () => (isHorizontal ? window.innerWidth : window.innerHeight);
+    const getForward = (): UserDirection => (isHorizontal ? (isMirrored ? "left" : "right") : "down");
+    const getBackward = (): UserDirection => (isHorizontal ? (isMirrored ? "right" : "left") : "up");
+
+    // Solo los gestos del eje principal (y no de un carrusel en ese eje) arrastran
+    const arbiter = createGestureArbiter();
+    const mainAxis = isHorizontal ? "horizontal" : "vertical";
+    const isMainGesture = () => arbiter.getAxis() === mainAxis;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!isPointerEnabled(e, { enableTouch, enableMouseDrag })) return;
+
       // Don't interfere with scrollable elements
       const target = e.target as HTMLElement;
       if (target.closest('[data-scrollable="true"]')) return;
 
+      pointerIdRef.current = e.pointerId;
+      hasMovedRef.current = false;
+      isMirrored = isHorizontal && useStore.getState().layoutDirection === "rtl";
       touchStartRef.current = {
-        y: e.touches[0].clientY,
+        position: getPointerPosition(e),
         time: Date.now(),
       };
       lastMoveRef.current = touchStartRef.current;
+      velocityRef.current = 0;
+      arbiter.start(e.clientX, e.clientY, e.target);
       
       // Set global dragging flag to prevent wheel conflicts
-      useScrollStore.getState().setDragging(true);
+      useStore.getState().setDragging(true);
       updateDragState({ isDragging: true, dragOffset: 0, dragDirection: null });
     };
 
-    const handleTouchMove = (e: TouchEvent) => {
-      if (!touchStartRef.current) return;
+    // Offset in views (-1 to 1), rubber-banded past the first/last view
+    const getDragOffset = (delta: number) => {
+      const offset = delta / getViewportSize();
+      const store = useStore.getState();
+      const atStart = store.activeIndex === 0 && delta < 0;
+      const atEnd = store.activeIndex === store.totalViews - 1 && delta > 0;
 
-      const currentY = e.touches[0].clientY;
-      const deltaY = touchStartRef.current.y - currentY;
-      const viewportHeight = window.innerHeight;
-      
-      // Calculate offset as percentage of viewport (-1 to 1)
-      let offset = deltaY / viewportHeight;
-      
-      // Apply resistance at bounds
-      const store = useScrollStore.getState();
-      const atStart = store.activeIndex === 0 && deltaY < 0;
-      const atEnd = store.activeIndex === store.totalViews - 1 && deltaY > 0;
-      
-      if (atStart || atEnd) {
-        offset = offset * RESISTANCE_FACTOR;
+      if (atStart || atEnd) return rubberBand(offset, dragResistance);
+      return Math.max(-1, Math.min(1, offset));
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!touchStartRef.current || !lastMoveRef.current) return;
+      if (e.pointerId !== pointerIdRef.current) return;
+
+      // Once the axis is decided, a gesture that isn't ours is let go
+      const owner = arbiter.update(e.clientX, e.clientY);
+      if (owner && (owner === "nested" || !isMainGesture())) {
+        resetDrag();
+        return;
       }
+
+      const current = getPointerPosition(e);
+      const delta = touchStartRef.current.position - current;
+      const offset = getDragOffset(delta);
+
+      // Past the slop: keep receiving events outside the window/element
+      if (!hasMovedRef.current && Math.abs(delta) > POINTER_DRAG_SLOP) {
+        hasMovedRef.current = true;
+        capturePointer(e);
+      }
+
+      // Mouse drags would otherwise select text along the way
+      if (e.pointerType === "mouse") window.getSelection?.()?.removeAllRanges();
       
-      // Clamp offset
-      offset = Math.max(-1, Math.min(1, offset));
-      
-      // Track for velocity calculation
-      lastMoveRef.current = { y: currentY, time: Date.now() };
+      // Track for velocity calculation (instantaneous, px/ms)
+      const now = Date.now();
+      const timeDelta = now - lastMoveRef.current.time;
+      if (timeDelta > 0) {
+        velocityRef.current = (lastMoveRef.current.position - current) / timeDelta;
+      }
+      lastMoveRef.current = { position: current, time: now };
       
       // Update state (using rAF for performance)
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
       rafRef.current = requestAnimationFrame(() => {
         updateDragState({
           dragOffset: offset,
-          dragDirection: deltaY > 0 ? "down" : deltaY < 0 ? "up" : null,
+          dragDirection: delta > 0 ? getForward() : delta < 0 ? getBackward() : null,
         });
       });
     };
 
-    const handleTouchEnd = (e: TouchEvent) => {
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId !== pointerIdRef.current) return;
       if (!touchStartRef.current || !lastMoveRef.current) {
-        updateDragState({ isDragging: false, dragOffset: 0, dragDirection: null });
+        resetDrag();
         return;
       }
 
-      const endY = e.changedTouches[0].clientY;
-      const deltaY = touchStartRef.current.y - endY;
-      const timeDelta = Date.now() - lastMoveRef.current.time;
-      const velocity = timeDelta > 0 ? Math.abs(deltaY) / timeDelta : 0;
+      releasePointer(e);
+      // Dragging across a link or button must not activate it
+      if (hasMovedRef.current) suppressNextClick();
+
+      const delta = touchStartRef.current.position - getPointerPosition(e);
+      const isOwnGesture = arbiter.resolve(e.clientX, e.clientY) === "main" && isMainGesture();
+      // A finger that stopped before lifting has no release velocity
+      const isStale = Date.now() - lastMoveRef.current.time > 100;
+      const signedVelocity = isStale ? 0 : velocityRef.current;
+      const velocity = Math.abs(signedVelocity);
       
-      const store = useScrollStore.getState();
+      const store = useStore.getState();
       const atStart = store.activeIndex === 0;
       const atEnd = store.activeIndex === store.totalViews - 1;
-      const activeView = store.views[store.activeIndex];
+      const activeView = selectActiveView(store);
       
       // Determine if we should navigate
-      const exceedsThreshold = Math.abs(deltaY) > DRAG_THRESHOLD;
-      const hasVelocity = velocity > VELOCITY_THRESHOLD;
-      const direction = deltaY > 0 ? "down" : "up";
+      const exceedsThreshold = Math.abs(delta) > swipeThreshold;
+      const hasVelocity = velocity > swipeVelocity;
+      const isForward = delta > 0;
+      const direction = isForward ? getForward() : getBackward();
       
-      // Check if active view has internal scroll
+      // Check if active view has internal (vertical) scroll
       let canNavigateInternal = true;
-      if (activeView?.capability === "internal") {
+      if (!isHorizontal && activeView?.capability === "internal") {
         const scrollContainer = document.querySelector(
           `[data-view-type="scroll-locked"][data-active="true"] > div`
         ) as HTMLElement | null;
@@ -159,52 +236,79 @@ export function useDragHandler(options: UseDragHandlerOptions = {}) {
       // Check bounds
       const canNavigate = 
         canNavigateInternal &&
-        ((direction === "down" && !atEnd) || 
-        (direction === "up" && !atStart));
+        ((isForward && !atEnd) || 
+        (!isForward && !atStart));
       
-      const shouldNavigate = canNavigate && (exceedsThreshold || hasVelocity);
+      const shouldNavigate = isOwnGesture && canNavigate && (exceedsThreshold || hasVelocity);
       
       // Notify callback
       onDragEnd?.(shouldNavigate, direction);
+
+      // Hand the release over to the snap animation (px/ms → views/s).
+      // A click never dragged: navigations it starts keep the configured duration/easing
+      if (hasMovedRef.current) {
+        onRelease?.({
+          offset: getDragOffset(delta),
+          velocity: (signedVelocity / getViewportSize()) * 1000,
+        });
+      }
       
       // If navigating, processIntention will handle it
       if (shouldNavigate) {
         store.processIntention({
           type: "navigate",
           direction,
-          strength: Math.min(1, velocity / VELOCITY_THRESHOLD),
+          strength: Math.min(1, velocity / swipeVelocity),
           origin: "touch",
+          velocity,
         });
       }
       
-      // Reset state
-      touchStartRef.current = null;
-      lastMoveRef.current = null;
-      useScrollStore.getState().setDragging(false);
-      updateDragState({ isDragging: false, dragOffset: 0, dragDirection: null });
+      resetDrag();
     };
 
-    const handleTouchCancel = () => {
+    const handlePointerCancel = (e: PointerEvent) => {
+      if (e.pointerId !== pointerIdRef.current) return;
+      resetDrag();
+    };
+
+    const resetDrag = () => {
+      // A move frame queued before the release would write a stale offset back
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+      arbiter.reset();
+      pointerIdRef.current = null;
       touchStartRef.current = null;
       lastMoveRef.current = null;
-      useScrollStore.getState().setDragging(false);
+      useStore.getState().setDragging(false);
       updateDragState({ isDragging: false, dragOffset: 0, dragDirection: null });
     };
 
-    // Use capture for touch events to get them before internal scroll
-    window.addEventListener("touchstart", handleTouchStart, { passive: true });
-    window.addEventListener("touchmove", handleTouchMove, { passive: true });
-    window.addEventListener("touchend", handleTouchEnd, { passive: true });
-    window.addEventListener("touchcancel", handleTouchCancel, { passive: true });
+    window.addEventListener("pointerdown", handlePointerDown, { passive: true });
+    window.addEventListener("pointermove", handlePointerMove, { passive: true });
+    window.addEventListener("pointerup", handlePointerUp, { passive: true });
+    window.addEventListener("pointercancel", handlePointerCancel, { passive: true });
 
     return () => {
-      window.removeEventListener("touchstart", handleTouchStart);
-      window.removeEventListener("touchmove", handleTouchMove);
-      window.removeEventListener("touchend", handleTouchEnd);
-      window.removeEventListener("touchcancel", handleTouchCancel);
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerCancel);
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
     };
-  }, [enabled, updateDragState, onDragEnd]);
+  }, [
+    enabled,
+    updateDragState,
+    onDragEnd,
+    onRelease,
+    swipeThreshold,
+    swipeVelocity,
+    dragResistance,
+    enableTouch,
+    enableMouseDrag,
+    orientation,
+    useStore,
+  ]);
 
   return dragState;
 }
@@ -0,0 +1,158 @@
+/**
+ * useFeed Hook
+ * ========================================
+ * Paginated data source for feeds ("load more" at the end).
+ * Fetches the next page when the active view gets close to the last one
+ * and blocks forward navigation at the end while the page is loading.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import type { FeedConfig } from "../types";
+
+const DEFAULT_PAGE_SIZE = 10;
+const DEFAULT_PREFETCH_THRESHOLD = 3;
+
+export interface FeedState<T> {
+  /** Items loaded so far (render one view per item) */
+  items: T[];
+  /** Whether a page is currently being fetched */
+  isLoading: boolean;
+  /** Error from the last failed fetch (null if none) */
+  error: Error | null;
+  /** Whether more pages are available */
+  hasMore: boolean;
+  /** Retry the last failed fetch */
+  retry: () => void;
+  /** Clear items and load the first page again */
+  reset: () => void;
+}
+
+/**
+ * Hook to load feed items page by page.
+ *
+ * @example
+ * ```tsx
+ * const { items, isLoading, error, retry } = useFeed({
+ *   fetchPage: async (cursor, pageSize) => {
+ *     const res = await api.posts({ after: cursor, limit: pageSize });
+ *     return { items: res.posts, nextCursor: res.nextCursor };
+ *   },
+ *   pageSize: 10,
+ *   prefetchThreshold: 3,
+ * });
+ *
+ * return (
+ *   <ScrollContainer>
+ *     {items.map((post) => (
+ *       <FullView key={post.id} id={post.id}><Post data={post} /></FullView>
+ *     ))}
+ *   </ScrollContainer>
+ * );
+ * ```
+ */
+export function useFeed<T, TCursor = unknown>(config: FeedConfig<T, TCursor>): FeedState<T> {
+  const {
+    fetchPage,
+    pageSize = DEFAULT_PAGE_SIZE,
+    prefetchThreshold = DEFAULT_PREFETCH_THRESHOLD,
+    enabled = true,
+  } = config;
+
+  const useStore = useScrollStoreApi();
+
+  const setLoadingMore = useStore((s) => s.setLoadingMore);
+
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+
+  // Refs: latest fetcher, cursor and in-flight request (ignored when stale)
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const cursorRef = useRef<TCursor | null>(null);
+  const requestIdRef = useRef(0);
+  const isLoadingRef = useRef(false);
+
+  const loadNextPage = useCallback(() => {
+    if (isLoadingRef.current) return;
+
+    const requestId = ++requestIdRef.current;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    setError(null);
+    setLoadingMore(true);
+
+    fetchPageRef.current(cursorRef.current, pageSize).then(
+      (page) => {
+        if (requestId !== requestIdRef.current) return;
+        cursorRef.current = page.nextCursor;
+        setItems((prev) => [...prev, ...page.items]);
+        setHasMore(page.nextCursor !== null);
+        isLoadingRef.current = false;
+        setIsLoading(false);
+        setLoadingMore(false);
+      },
+      (err: unknown) => {
+        if (requestId !== requestIdRef.current) return;
+        setError(err instanceof Error ? err : new Error(String(err)));
+        isLoadingRef.current = false;
+        setIsLoading(false);
+        setLoadingMore(false);
+      }
+    );
+  }, [pageSize, setLoadingMore]);
+
+  // Load when the active view gets within `prefetchThreshold` of the end.
+  // Re-checked after each page renders: reads live store state because the
+  // new views register in child effects, before this one runs.
+  useEffect(() => {
+    if (!enabled || !hasMore || error) return;
+
+    const checkNearEnd = (state: { activeIndex: number; totalViews: number }) => {
+      if (state.totalViews === 0 || state.activeIndex >= state.totalViews - prefetchThreshold) {
+        loadNextPage();
+      }
+    };
+
+    checkNearEnd(useStore.getState());
+    return useStore.subscribe((state, prevState) => {
+      if (state.activeIndex !== prevState.activeIndex) checkNearEnd(state);
+    });
+  }, [enabled, hasMore, error, prefetchThreshold, items.length, loadNextPage, useStore]);
+
+  // Release the store flag (and drop in-flight responses) on unmount
+  useEffect(() => {
+    return () => {
+      requestIdRef.current++;
+      isLoadingRef.current = false;
+      setLoadingMore(false);
+    };
+  }, [setLoadingMore]);
+
+  const retry = useCallback(() => {
+    setError(null);
+    loadNextPage();
+  }, [loadNextPage]);
+
+  const reset = useCallback(() => {
+    requestIdRef.current++;
+    isLoadingRef.current = false;
+    cursorRef.current = null;
+    setItems([]);
+    setError(null);
+    setHasMore(true);
+    setIsLoading(false);
+    setLoadingMore(false);
+  }, [setLoadingMore]);
+
+  return {
+    items,
+    isLoading,
+    error,
+    hasMore,
+    retry,
+    reset,
+  };
+}
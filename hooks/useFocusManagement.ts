@@ -6,7 +6,7 @@
  */
 
 import { useEffect, useRef } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 
 export interface UseFocusManagementOptions {
   /** Enable/disable focus management (default: true) */
@@ -22,9 +22,11 @@ export interface UseFocusManagementOptions {
 export function useFocusManagement(options: UseFocusManagementOptions = {}) {
   const { enabled = true, focusDelay = 100 } = options;
   
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const activeId = useScrollStore((s) => s.activeId);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
+  const useStore = useScrollStoreApi();
+
+  const activeIndex = useStore((s) => s.activeIndex);
+  const activeId = useStore((s) => s.activeId);
+  const isTransitioning = useStore((s) => s.isTransitioning);
   const prevIndexRef = useRef(activeIndex);
 
   useEffect(() => {
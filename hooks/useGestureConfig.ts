@@ -15,6 +15,8 @@ const DEFAULT_GESTURE_CONFIG: Required<GestureConfig> = {
   enableWheel: true,
   enableTouch: true,
   enableKeyboard: true,
+  enableMouseDrag: false,
+  spring: {},
 };
 
 // Context for gesture config
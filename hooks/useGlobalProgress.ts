@@ -6,7 +6,8 @@
  */
 
 import { useEffect } from "react";
-import { useScrollStore, selectGlobalProgress } from "../store";
+import { selectGlobalProgress } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 
 export interface UseGlobalProgressOptions {
   /** Callback when progress changes */
@@ -43,9 +44,11 @@ export function useGlobalProgress(
 ): GlobalProgressState {
   const { onProgress, throttle = 16 } = options;
   
-  const progress = useScrollStore(selectGlobalProgress);
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const totalViews = useScrollStore((s) => s.totalViews);
+  const useStore = useScrollStoreApi();
+
+  const progress = useStore(selectGlobalProgress);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const totalViews = useStore((s) => s.totalViews);
   
   // Call onProgress callback when progress changes
   useEffect(() => {
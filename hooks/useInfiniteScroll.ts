@@ -6,7 +6,7 @@
  */
 
 import { useEffect } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 import type { InfiniteScrollConfig } from "../types";
 
 const DEFAULT_CONFIG: Required<InfiniteScrollConfig> = {
@@ -57,10 +57,12 @@ export function useInfiniteScroll(
   
   const { enabled, loopDirection } = normalizedConfig;
   
-  const infiniteScrollEnabled = useScrollStore((s) => s.infiniteScrollEnabled);
-  const setInfiniteScrollEnabled = useScrollStore((s) => s.setInfiniteScrollEnabled);
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const totalViews = useScrollStore((s) => s.totalViews);
+  const useStore = useScrollStoreApi();
+
+  const infiniteScrollEnabled = useStore((s) => s.infiniteScrollEnabled);
+  const setInfiniteScrollEnabled = useStore((s) => s.setInfiniteScrollEnabled);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const totalViews = useStore((s) => s.totalViews);
   
   // Sync config with store
   useEffect(() => {
@@ -0,0 +1,10 @@
+/**
+ * Scroll System - Isomorphic Layout Effect
+ * =========================================
+ * useLayoutEffect en el cliente (antes del paint) y useEffect en el servidor,
+ * donde no corre ninguno (evita el warning de React 18 en SSR).
+ */
+
+import { useEffect, useLayoutEffect } from "react";
+
+export const useIsomorphicLayoutEffect = typeof window !== "undefined" ? useLayoutEffect : useEffect;
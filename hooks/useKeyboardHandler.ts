@@ -4,25 +4,59 @@
  * Captures keyboard input and translates it to navigation intentions.
  * 
  * Supported Keys:
- * - ArrowUp / ArrowDown: Navigate between views
+ * - ArrowUp / ArrowDown: Navigate between views (vertical)
+ * - ArrowLeft / ArrowRight: Navigate between views (horizontal, mirrored in RTL)
+ *   or between the columns of a grid row (vertical)
+ * - Arrows along a NestedScrollView's axis drive its carousel while it is active
  * - PageUp / PageDown: Navigate between views
  * - Space: Navigate to next view (Shift+Space for previous)
  * - Home / End: Go to first / last view
  */
 
 import { useEffect } from "react";
-import { useScrollStore } from "../store";
-import type { UserIntention } from "../types";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { selectActiveColumnCount, selectActiveView } from "../store";
+import type { ScrollSystemStore, UserIntention } from "../types";
 
 export interface UseKeyboardHandlerOptions {
   /** Enable/disable keyboard navigation (default: true) */
   enabled?: boolean;
   /** Prevent default behavior for handled keys (default: true) */
   preventDefault?: boolean;
+  /** Which arrow keys navigate (default: "vertical") */
+  orientation?: "vertical" | "horizontal";
+}
+
+/**
+ * Paso del carrusel anidado activo para esta tecla (null si no le corresponde).
+ * Solo las flechas del eje del carrusel, perpendicular al del contenedor.
+ */
+function getNestedStep(
+  state: ScrollSystemStore,
+  key: string,
+  orientation: "vertical" | "horizontal"
+): 1 | -1 | null {
+  const view = selectActiveView(state);
+  if (view?.config.type !== "nested") return null;
+
+  const nestedDirection = view.config.nestedConfig.direction;
+  if (nestedDirection === orientation) return null;
+
+  if (nestedDirection === "horizontal") {
+    if (key !== "ArrowLeft" && key !== "ArrowRight") return null;
+    const isRight = key === "ArrowRight";
+    // RTL: el carrusel avanza hacia la izquierda
+    return isRight === (state.layoutDirection === "ltr") ? 1 : -1;
+  }
+
+  if (key === "ArrowDown") return 1;
+  if (key === "ArrowUp") return -1;
+  return null;
 }
 
 export function useKeyboardHandler(options: UseKeyboardHandlerOptions = {}) {
-  const { enabled = true, preventDefault = true } = options;
+  const { enabled = true, preventDefault = true, orientation = "vertical" } = options;
+  const useStore = useScrollStoreApi();
 
   useEffect(() => {
     if (!enabled) return;
@@ -39,8 +73,33 @@ export function useKeyboardHandler(options: UseKeyboardHandlerOptions = {}) {
       }
 
       let intention: UserIntention | null = null;
+      const isHorizontal = orientation === "horizontal";
+
+      const key = e.key;
+
+      // Nested carousel: its own arrows move between its items
+      const state = useStore.getState();
+      const activeView = selectActiveView(state);
+      const nestedStep = getNestedStep(state, key, orientation);
+      if (activeView && nestedStep !== null) {
+        state.setNestedIndex(activeView.id, activeView.activeNestedIndex + nestedStep);
+        if (preventDefault) e.preventDefault();
+        return;
+      }
+
+      // Arrow keys only along the container axis
+      if (isHorizontal && (key === "ArrowUp" || key === "ArrowDown")) return;
+      // Vertical: left/right only move between the columns of a grid row
+      if (
+        !isHorizontal &&
+        (key === "ArrowLeft" || key === "ArrowRight") &&
+        selectActiveColumnCount(state) <= 1
+      ) {
+        return;
+      }
 
-      switch (e.key) {
+      switch (key) {
+        // PageUp/PageDown/Space are logical (next/previous) in any orientation
         case "ArrowDown":
         case "PageDown":
           intention = {
@@ -61,6 +120,25 @@ export function useKeyboardHandler(options: UseKeyboardHandlerOptions = {}) {
           };
           break;
 
+        // Physical directions: the store maps them to next/previous (RTL aware)
+        case "ArrowRight":
+          intention = {
+            type: "navigate",
+            direction: "right",
+            strength: 1,
+            origin: "keyboard",
+          };
+          break;
+
+        case "ArrowLeft":
+          intention = {
+            type: "navigate",
+            direction: "left",
+            strength: 1,
+            origin: "keyboard",
+          };
+          break;
+
         case " ": // Space
           intention = {
             type: "navigate",
@@ -72,14 +150,14 @@ export function useKeyboardHandler(options: UseKeyboardHandlerOptions = {}) {
 
         case "Home":
           // Go to first view
-          useScrollStore.getState().goToView(0);
+          useStore.getState().goToView(0, "keyboard");
           if (preventDefault) e.preventDefault();
           return;
 
         case "End":
           // Go to last view
-          const totalViews = useScrollStore.getState().totalViews;
-          useScrollStore.getState().goToView(totalViews - 1);
+          const totalViews = useStore.getState().totalViews;
+          useStore.getState().goToView(totalViews - 1, "keyboard");
           if (preventDefault) e.preventDefault();
           return;
 
@@ -89,7 +167,7 @@ export function useKeyboardHandler(options: UseKeyboardHandlerOptions = {}) {
 
       if (intention) {
         if (preventDefault) e.preventDefault();
-        useScrollStore.getState().processIntention(intention);
+        useStore.getState().processIntention(intention);
       }
     };
 
@@ -98,7 +176,7 @@ export function useKeyboardHandler(options: UseKeyboardHandlerOptions = {}) {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [enabled, preventDefault]);
+  }, [enabled, preventDefault, orientation, useStore]);
 }
 
 export default useKeyboardHandler;
@@ -8,7 +8,7 @@
  */
 
 import { useRef, useCallback, useEffect, useMemo } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 import { throttle } from "../utils";
 import type { ViewMetrics, ScrollDirection } from "../types";
 
@@ -32,7 +32,9 @@ export function useMetricsReporter({
   throttleMs = SCROLL_THROTTLE_MS,
 }: UseMetricsReporterOptions) {
   const scrollRef = useRef<HTMLDivElement>(null);
-  const updateMetrics = useScrollStore((s) => s.updateViewMetrics);
+  const useStore = useScrollStoreApi();
+
+  const updateMetrics = useStore((s) => s.updateViewMetrics);
 
   // Core measurement function (unthrottled)
   const measureAndReport = useCallback(() => {
@@ -7,10 +7,10 @@
 
 import { useCallback, useMemo } from "react";
 import {
-  useScrollStore,
   selectCanNavigateNext,
   selectCanNavigatePrevious,
 } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 
 /**
  * Hook para acceder a la API de navegación del sistema de scroll
@@ -33,25 +33,27 @@ import {
 export function useNavigation() {
   // Acciones del store (funciones son estables)
   // Acciones del store (funciones son estables)
-  const goToView = useScrollStore((s) => s.goToView);
-  const goToNextAction = useScrollStore((s) => s.goToNext);
-  const goToPreviousAction = useScrollStore((s) => s.goToPrevious);
+  const useStore = useScrollStoreApi();
+
+  const goToView = useStore((s) => s.goToView);
+  const goToNextAction = useStore((s) => s.goToNext);
+  const goToPreviousAction = useStore((s) => s.goToPrevious);
   
   // Legacy mapping
-  const setGlobalLock = useScrollStore((s) => s.setGlobalLock);
+  const setGlobalLock = useStore((s) => s.setGlobalLock);
   const lockScroll = useCallback(() => setGlobalLock(true), [setGlobalLock]);
   const unlockScroll = useCallback(() => setGlobalLock(false), [setGlobalLock]);
 
   // Estado primitivo (selectores estables que retornan primitivos)
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const activeId = useScrollStore((s) => s.activeId);
-  const totalViews = useScrollStore((s) => s.totalViews);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
-  const isScrollLocked = useScrollStore((s) => s.isGlobalLocked);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const activeId = useStore((s) => s.activeId);
+  const totalViews = useStore((s) => s.totalViews);
+  const isTransitioning = useStore((s) => s.isTransitioning);
+  const isScrollLocked = useStore((s) => s.isGlobalLocked);
 
   // Selectores optimizados que retornan booleanos (primitivos)
-  const canNavigateNext = useScrollStore(selectCanNavigateNext);
-  const canNavigatePrevious = useScrollStore(selectCanNavigatePrevious);
+  const canNavigateNext = useStore(selectCanNavigateNext);
+  const canNavigatePrevious = useStore(selectCanNavigatePrevious);
 
   // Navegación con callbacks estables
   const goToNext = useCallback(() => {
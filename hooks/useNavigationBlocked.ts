@@ -0,0 +1,77 @@
+/**
+ * useNavigationBlocked Hook
+ * ========================================
+ * Feedback cuando el store rechaza una navegación del usuario
+ * (vista sin terminar, ControlledView sin canProceed, límites, guards).
+ * Llama a onBlocked y, opcionalmente, hace un "nudge" elástico del elemento.
+ */
+
+import { useEffect, useRef } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { NUDGE_DISTANCE, NUDGE_DURATION } from "../constants";
+import type { LayoutDirection, NavigationBlockedEvent } from "../types";
+
+export interface UseNavigationBlockedOptions {
+  /** Called once per refused navigation */
+  onBlocked?: (event: NavigationBlockedEvent) => void;
+  /** Element nudged towards the refused direction (omit to skip the nudge) */
+  nudgeRef?: React.RefObject<HTMLElement | null>;
+  /** Axis of the nudge (default: "vertical") */
+  orientation?: "vertical" | "horizontal";
+}
+
+/**
+ * Desplaza el elemento unos píxeles hacia la dirección rechazada y lo devuelve.
+ * Usa la propiedad `translate`, que se compone con el transform del wrapper.
+ */
+export function nudgeElement(
+  element: HTMLElement,
+  event: NavigationBlockedEvent,
+  orientation: "vertical" | "horizontal",
+  layoutDirection: LayoutDirection = "ltr"
+) {
+  // Forward moves content up (vertical) or towards the start edge (horizontal)
+  const isMirrored = orientation === "horizontal" && layoutDirection === "rtl";
+  const sign = (event.lockDirection === "forward" ? -1 : 1) * (isMirrored ? -1 : 1);
+  const offset = `${sign * NUDGE_DISTANCE}px`;
+  const translate = orientation === "horizontal" ? `${offset} 0px` : `0px ${offset}`;
+
+  element.animate?.(
+    [{ translate: "0px 0px" }, { translate }, { translate: "0px 0px" }],
+    { duration: NUDGE_DURATION, easing: "ease-out" }
+  );
+}
+
+/**
+ * Hook that reports refused navigations.
+ *
+ * @example
+ * ```tsx
+ * const blocked = useNavigationBlocked({
+ *   onBlocked: (e) => analytics.track("blocked", e.reason),
+ * });
+ * ```
+ */
+export function useNavigationBlocked(
+  options: UseNavigationBlockedOptions = {}
+): NavigationBlockedEvent | null {
+  const { onBlocked, nudgeRef, orientation = "vertical" } = options;
+  const useStore = useScrollStoreApi();
+  const lastBlocked = useStore((s) => s.lastBlockedNavigation);
+
+  // Callback en ref: un onBlocked inline no debe re-disparar el efecto
+  const onBlockedRef = useRef(onBlocked);
+  onBlockedRef.current = onBlocked;
+
+  useEffect(() => {
+    if (!lastBlocked) return;
+    onBlockedRef.current?.(lastBlocked);
+
+    const element = nudgeRef?.current;
+    if (element) {
+      nudgeElement(element, lastBlocked, orientation, useStore.getState().layoutDirection);
+    }
+  }, [lastBlocked, nudgeRef, orientation, useStore]);
+
+  return lastBlocked;
+}
@@ -0,0 +1,67 @@
+/**
+ * useNestedScroll Hook
+ * ========================================
+ * Controla el carrusel de un NestedScrollView desde fuera
+ * (paginación, botones, analytics). El ítem activo vive en el store.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+
+export interface NestedScrollState {
+  /** Index of the active nested item */
+  activeItem: number;
+  /** Number of items (undefined until the view reports it) */
+  itemCount: number | undefined;
+  /** Go to the next item */
+  next: () => void;
+  /** Go to the previous item */
+  prev: () => void;
+  /** Go to a specific item (clamped to the available items) */
+  goTo: (index: number) => void;
+  canNext: boolean;
+  canPrev: boolean;
+}
+
+/**
+ * Hook to read and drive the carousel of a NestedScrollView.
+ *
+ * @example
+ * ```tsx
+ * function GalleryDots() {
+ *   const { activeItem, itemCount = 0, goTo } = useNestedScroll("gallery");
+ *   return (
+ *     <nav>
+ *       {Array.from({ length: itemCount }, (_, i) => (
+ *         <button key={i} aria-current={i === activeItem} onClick={() => goTo(i)} />
+ *       ))}
+ *     </nav>
+ *   );
+ * }
+ * ```
+ */
+export function useNestedScroll(viewId: string): NestedScrollState {
+  const useStore = useScrollStoreApi();
+  const setNestedIndex = useStore((s) => s.setNestedIndex);
+
+  // Primitive selectors: no re-render when other views change
+  const activeItem = useStore((s) => s.views.find((v) => v.id === viewId)?.activeNestedIndex ?? 0);
+  const itemCount = useStore((s) => {
+    const config = s.views.find((v) => v.id === viewId)?.config;
+    return config?.type === "nested" ? config.nestedConfig.itemCount : undefined;
+  });
+
+  const goTo = useCallback((index: number) => setNestedIndex(viewId, index), [viewId, setNestedIndex]);
+  const next = useCallback(() => goTo(activeItem + 1), [goTo, activeItem]);
+  const prev = useCallback(() => goTo(activeItem - 1), [goTo, activeItem]);
+
+  return useMemo(() => ({
+    activeItem,
+    itemCount,
+    next,
+    prev,
+    goTo,
+    canNext: itemCount === undefined || activeItem < itemCount - 1,
+    canPrev: activeItem > 0,
+  }), [activeItem, itemCount, next, prev, goTo]);
+}
@@ -6,7 +6,8 @@
  */
 
 import { useMemo } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { getViewAtIndex } from "../store";
 import type { ParallaxConfig, ParallaxState } from "../types";
 
 const DEFAULT_CONFIG: Required<ParallaxConfig> = {
@@ -51,9 +52,11 @@ export function useParallax(
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
   const { speed, direction, offset, easing } = mergedConfig;
   
-  const views = useScrollStore((s) => s.views);
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const globalProgress = useScrollStore((s) => s.globalProgress);
+  const useStore = useScrollStoreApi();
+
+  const views = useStore((s) => s.views);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const globalProgress = useStore((s) => s.globalProgress);
   
   const result = useMemo(() => {
     const view = views.find((v) => v.id === viewId);
@@ -111,12 +114,14 @@ export function useActiveParallax(config: ParallaxConfig = {}): ParallaxState {
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
   const { speed, direction, offset, easing } = mergedConfig;
   
-  const globalProgress = useScrollStore((s) => s.globalProgress);
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const views = useScrollStore((s) => s.views);
+  const useStore = useScrollStoreApi();
+
+  const globalProgress = useStore((s) => s.globalProgress);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const views = useStore((s) => s.views);
   
   return useMemo(() => {
-    const activeView = views[activeIndex];
+    const activeView = getViewAtIndex(views, activeIndex);
     const viewProgress = activeView?.progress ?? 0;
     
     const easingFn = easingFunctions[easing];
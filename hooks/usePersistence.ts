@@ -0,0 +1,186 @@
+/**
+ * Scroll System - Persistence Hook
+ * ==========================================
+ * Guarda la posición (vista activa, columna) y el estado interno de cada vista
+ * (scrollTop, snap point, ítem anidado) en sessionStorage, localStorage o un
+ * storage propio, y lo restaura en el siguiente initialize() sin transición.
+ *
+ * Usage:
+ *   const { getRestoreTarget } = usePersistence({ storage: "local" });
+ *   initialize(getRestoreTarget());
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { getViewScrollElement } from "../utils";
+import { DEFAULT_PERSIST_KEY, PERSIST_DEBOUNCE } from "../constants";
+import type {
+  GridPosition,
+  PersistConfig,
+  PersistedScrollState,
+  PersistStorage,
+  ScrollSystemState,
+} from "../types";
+
+export interface UsePersistenceOptions extends PersistConfig {
+  /** Enable/disable persistence (default: true) */
+  enabled?: boolean;
+}
+
+export interface UsePersistenceResult {
+  /** Saved position to pass to initialize() (undefined if nothing valid was saved) */
+  getRestoreTarget: () => GridPosition | undefined;
+}
+
+/**
+ * Storage del navegador (null en SSR o si está bloqueado, p.ej. modo privado).
+ */
+function resolveStorage(storage: PersistConfig["storage"]): PersistStorage | null {
+  if (storage && typeof storage === "object") return storage;
+  if (typeof window === "undefined") return null;
+  try {
+    return storage === "local" ? window.localStorage : window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+function readSnapshot(storage: PersistStorage | null, key: string): PersistedScrollState | null {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return null;
+    const data = JSON.parse(raw) as PersistedScrollState;
+    if (typeof data?.activeIndex !== "number" || typeof data.views !== "object" || data.views === null) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+function createSnapshot(state: ScrollSystemState): PersistedScrollState {
+  const views: PersistedScrollState["views"] = {};
+  state.views.forEach((view) => {
+    views[view.id] = {
+      scrollTop: view.metrics.scrollTop,
+      snapPointId: view.activeSnapPointId,
+      nestedIndex: view.activeNestedIndex,
+    };
+  });
+
+  return {
+    activeIndex: state.activeIndex,
+    activeId: state.activeId,
+    activeColumn: state.activeColumn,
+    views,
+  };
+}
+
+export function usePersistence(options: UsePersistenceOptions = {}): UsePersistenceResult {
+  const { enabled = true, key = DEFAULT_PERSIST_KEY } = options;
+  const useStore = useScrollStoreApi();
+
+  // Latest storage: an inline adapter object must not resubscribe every render
+  const storageRef = useRef(options.storage);
+  storageRef.current = options.storage;
+
+  // Snapshot read once per key, before initialize()
+  const snapshotRef = useRef<{ key: string; value: PersistedScrollState | null } | null>(null);
+  const getSnapshot = useCallback(() => {
+    if (!enabled) return null;
+    if (snapshotRef.current?.key !== key) {
+      snapshotRef.current = { key, value: readSnapshot(resolveStorage(storageRef.current), key) };
+    }
+    return snapshotRef.current.value;
+  }, [enabled, key]);
+
+  const getRestoreTarget = useCallback((): GridPosition | undefined => {
+    const snapshot = getSnapshot();
+    if (!snapshot) return undefined;
+
+    // By id first: the view may have moved since it was saved
+    const views = useStore.getState().views;
+    const row = views.some((v) => v.id === snapshot.activeId) ? snapshot.activeId! : snapshot.activeIndex;
+    return { row, col: snapshot.activeColumn ?? 0 };
+  }, [getSnapshot, useStore]);
+
+  // Restore internal state once initialized (after views reset their scroll on activation)
+  const isInitialized = useStore((s) => s.isInitialized);
+  const hasRestored = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !isInitialized || hasRestored.current) return;
+    hasRestored.current = true;
+
+    const snapshot = getSnapshot();
+    if (!snapshot) return;
+
+    const state = useStore.getState();
+    state.views.forEach((view) => {
+      const saved = snapshot.views[view.id];
+      if (!saved) return;
+
+      if (view.type === "nested" && saved.nestedIndex > 0) {
+        state.setNestedIndex(view.id, saved.nestedIndex);
+      }
+      if (saved.snapPointId) {
+        state.setActiveSnapPoint(view.id, saved.snapPointId);
+      }
+
+      const element = view.type === "scroll-locked" && saved.scrollTop > 0 ? getViewScrollElement(view.id) : null;
+      if (element) {
+        if (view.config.type === "scroll-locked" && view.config.scrollDirection === "horizontal") {
+          element.scrollLeft = saved.scrollTop;
+        } else {
+          element.scrollTop = saved.scrollTop;
+        }
+        // Report the restored offset right away (locks depend on it)
+        element.dispatchEvent(new Event("scroll"));
+      }
+    });
+  }, [enabled, isInitialized, getSnapshot, useStore]);
+
+  // Save (debounced) on every change after initialization, and flush on pagehide
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      const state = useStore.getState();
+      if (!state.isInitialized) return;
+      try {
+        resolveStorage(storageRef.current)?.setItem(key, JSON.stringify(createSnapshot(state)));
+      } catch {
+        // Quota exceeded / storage blocked: persistence is best effort
+      }
+    };
+
+    const unsubscribe = useStore.subscribe((state, prev) => {
+      if (!state.isInitialized) return;
+      if (
+        state.views === prev.views &&
+        state.activeIndex === prev.activeIndex &&
+        state.activeColumn === prev.activeColumn
+      ) {
+        return;
+      }
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(save, PERSIST_DEBOUNCE);
+    });
+
+    window.addEventListener("pagehide", save);
+
+    return () => {
+      if (timer) save();
+      unsubscribe();
+      window.removeEventListener("pagehide", save);
+    };
+  }, [enabled, key, useStore]);
+
+  return { getRestoreTarget };
+}
+
+export default usePersistence;
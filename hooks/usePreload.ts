@@ -6,7 +6,8 @@
  */
 
 import { useEffect, useMemo } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { getViewAtIndex } from "../store";
 import type { PreloadConfig } from "../types";
 
 const DEFAULT_CONFIG: Required<PreloadConfig> = {
@@ -42,11 +43,13 @@ export function usePreload(config: PreloadConfig = {}): PreloadState {
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
   const { ahead, behind, delay } = mergedConfig;
   
-  const views = useScrollStore((s) => s.views);
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const totalViews = useScrollStore((s) => s.totalViews);
-  const infiniteScrollEnabled = useScrollStore((s) => s.infiniteScrollEnabled);
-  const setViewPreloaded = useScrollStore((s) => s.setViewPreloaded);
+  const useStore = useScrollStoreApi();
+
+  const views = useStore((s) => s.views);
+  const activeIndex = useStore((s) => s.activeIndex);
+  const totalViews = useStore((s) => s.totalViews);
+  const infiniteScrollEnabled = useStore((s) => s.infiniteScrollEnabled);
+  const setViewPreloaded = useStore((s) => s.setViewPreloaded);
   
   // Calculate which views should be preloaded
   const preloadedViewIds = useMemo(() => {
@@ -62,7 +65,7 @@ export function usePreload(config: PreloadConfig = {}): PreloadState {
       }
       
       if (targetIndex >= 0 && targetIndex < totalViews) {
-        const view = views[targetIndex];
+        const view = getViewAtIndex(views, targetIndex);
         if (view) {
           ids.push(view.id);
         }
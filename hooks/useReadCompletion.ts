@@ -0,0 +1,144 @@
+/**
+ * Scroll System - Read Completion Hook
+ * =============================================
+ * Reglas de lectura para ScrollLockedView (términos, compliance...):
+ * - minDwellMs: tiempo mínimo con la vista activa.
+ * - requireSections: cada sección marcada debe verse durante minVisibleMs
+ *   (IntersectionObserver sobre el contenedor de scroll).
+ *
+ * Reporta al Store los requisitos pendientes; el Store decide el bloqueo.
+ * Una vez cumplido, un requisito no vuelve a bloquear.
+ */
+
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { DEFAULT_READ_SECTIONS } from "../constants";
+import type { ReadRequirement, ReadSectionsConfig } from "../types";
+
+export interface UseReadCompletionOptions {
+  id: string;
+  isActive: boolean;
+  /** Scroll container holding the sections (IntersectionObserver root) */
+  scrollRef: RefObject<HTMLElement | null>;
+  /** Minimum active time in ms */
+  minDwellMs?: number;
+  /** Require every marked section to be seen */
+  requireSections?: boolean | ReadSectionsConfig;
+}
+
+export interface UseReadCompletionResult {
+  /** Requirements still pending (besides scrolling to the end) */
+  pending: Exclude<ReadRequirement, "scroll">[];
+}
+
+export function useReadCompletion({
+  id,
+  isActive,
+  scrollRef,
+  minDwellMs = 0,
+  requireSections = false,
+}: UseReadCompletionOptions): UseReadCompletionResult {
+  const useStore = useScrollStoreApi();
+  const setViewReadRequirements = useStore((s) => s.setViewReadRequirements);
+
+  const [dwellDone, setDwellDone] = useState(false);
+  const [sectionsDone, setSectionsDone] = useState(false);
+
+  // Primitive deps so an inline config object doesn't restart the tracking
+  const sectionsEnabled = requireSections !== false;
+  const sectionsConfig = typeof requireSections === "object" ? requireSections : {};
+  const selector = sectionsConfig.selector ?? DEFAULT_READ_SECTIONS.selector;
+  const minVisibleMs = sectionsConfig.minVisibleMs ?? DEFAULT_READ_SECTIONS.minVisibleMs;
+  const threshold = sectionsConfig.threshold ?? DEFAULT_READ_SECTIONS.threshold;
+
+  // ========== DWELL ==========
+  const dwellElapsedRef = useRef(0);
+
+  useEffect(() => {
+    if (minDwellMs <= 0 || dwellDone || !isActive) return;
+
+    // Accumulates across activations: leaving and coming back keeps the time already spent
+    const start = Date.now();
+    const timer = setTimeout(() => setDwellDone(true), minDwellMs - dwellElapsedRef.current);
+
+    return () => {
+      clearTimeout(timer);
+      dwellElapsedRef.current += Date.now() - start;
+    };
+  }, [minDwellMs, dwellDone, isActive]);
+
+  // ========== SECTIONS ==========
+  // Sections already read stay read across activations
+  const readSectionsRef = useRef(new WeakSet<Element>());
+
+  useEffect(() => {
+    if (!sectionsEnabled || sectionsDone || !isActive) return;
+
+    const root = scrollRef.current;
+    if (!root) return;
+
+    const sections = Array.from(root.querySelectorAll<HTMLElement>(selector));
+    // Nothing to observe (no sections / no IntersectionObserver): never trap the user
+    if (sections.length === 0 || typeof IntersectionObserver === "undefined") {
+      setSectionsDone(true);
+      return;
+    }
+
+    const readSections = readSectionsRef.current;
+    const unread = new Set(sections.filter((section) => !readSections.has(section)));
+    if (unread.size === 0) {
+      setSectionsDone(true);
+      return;
+    }
+    const timers = new Map<Element, ReturnType<typeof setTimeout>>();
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const section = entry.target;
+          if (!unread.has(section as HTMLElement)) return;
+
+          if (entry.isIntersecting && entry.intersectionRatio >= threshold) {
+            if (timers.has(section)) return;
+            timers.set(section, setTimeout(() => {
+              timers.delete(section);
+              unread.delete(section as HTMLElement);
+              readSections.add(section);
+              observer.unobserve(section);
+              if (unread.size === 0) setSectionsDone(true);
+            }, minVisibleMs));
+          } else {
+            // Scrolled away before the time was up: start over next time
+            clearTimeout(timers.get(section));
+            timers.delete(section);
+          }
+        });
+      },
+      { root, threshold }
+    );
+
+    unread.forEach((section) => observer.observe(section));
+
+    return () => {
+      observer.disconnect();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [sectionsEnabled, sectionsDone, isActive, selector, minVisibleMs, threshold, scrollRef]);
+
+  // ========== REPORT ==========
+  const dwellPending = minDwellMs > 0 && !dwellDone;
+  const sectionsPending = sectionsEnabled && !sectionsDone;
+
+  const pending: Exclude<ReadRequirement, "scroll">[] = [];
+  if (dwellPending) pending.push("dwell");
+  if (sectionsPending) pending.push("sections");
+
+  useEffect(() => {
+    setViewReadRequirements(id, [
+      ...(dwellPending ? ["dwell" as const] : []),
+      ...(sectionsPending ? ["sections" as const] : []),
+    ]);
+  }, [id, dwellPending, sectionsPending, setViewReadRequirements]);
+
+  return { pending };
+}
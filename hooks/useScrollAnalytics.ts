@@ -5,7 +5,7 @@
  */
 
 import { useEffect, useRef, useCallback } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 
 export interface ViewAnalytics {
   viewId: string;
@@ -39,9 +39,11 @@ export interface UseScrollAnalyticsOptions {
 export function useScrollAnalytics(options: UseScrollAnalyticsOptions = {}) {
   const { onViewEnter, onViewExit, enabled = true } = options;
   
-  const activeIndex = useScrollStore((s) => s.activeIndex);
-  const activeId = useScrollStore((s) => s.activeId);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
+  const useStore = useScrollStoreApi();
+
+  const activeIndex = useStore((s) => s.activeIndex);
+  const activeId = useStore((s) => s.activeId);
+  const isTransitioning = useStore((s) => s.isTransitioning);
   
   const enterTimeRef = useRef<number>(Date.now());
   const prevIndexRef = useRef<number>(activeIndex);
@@ -3,22 +3,36 @@
  * ========================================
  * Programmatic control for locking/unlocking scroll navigation.
  * Useful for modals, forms, or any scenario requiring temporary navigation prevention.
+ * Each hook instance holds its own lock: navigation stays locked until every
+ * holder (modal, bottom sheet...) has unlocked.
  */
 
-import { useCallback } from "react";
-import { useScrollStore } from "../store";
+import { useCallback, useEffect, useId, useRef } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import type { LockDirection } from "../types";
+
+export interface UseScrollLockOptions {
+  /** Owner of the lock (default: unique per hook instance) */
+  ownerId?: string;
+  /** Directions lock() blocks (default: both) */
+  directions?: LockDirection[];
+  /** Shown by ScrollDebugOverlay */
+  reason?: string;
+}
 
 export interface ScrollLockState {
-  /** Whether global navigation is currently locked */
+  /** Whether global navigation is currently locked (by any holder) */
   isLocked: boolean;
+  /** Whether this hook's owner currently holds a lock */
+  isHeld: boolean;
   /** Lock global navigation */
   lock: () => void;
-  /** Unlock global navigation */
+  /** Release this hook's lock (other holders keep theirs) */
   unlock: () => void;
-  /** Toggle lock state */
+  /** Toggle this hook's lock */
   toggle: () => void;
-  /** Lock a specific view by ID */
-  lockView: (viewId: string) => void;
+  /** Lock a specific view by ID (both directions, or only `directions`) */
+  lockView: (viewId: string, directions?: LockDirection[]) => void;
   /** Unlock a specific view by ID */
   unlockView: (viewId: string) => void;
 }
@@ -39,35 +53,68 @@ export interface ScrollLockState {
  *   unlock();
  *   setModalOpen(false);
  * };
+ *
+ * // Block only going forward until the form is valid
+ * const { lock: lockForward } = useScrollLock({ directions: ["forward"], reason: "form" });
  * ```
  */
-export function useScrollLock(): ScrollLockState {
-  const isLocked = useScrollStore((s) => s.isGlobalLocked);
-  const setGlobalLock = useScrollStore((s) => s.setGlobalLock);
-  const setViewExplicitLock = useScrollStore((s) => s.setViewExplicitLock);
-  
+export function useScrollLock(options: UseScrollLockOptions = {}): ScrollLockState {
+  const { directions, reason } = options;
+  const useStore = useScrollStoreApi();
+  const generatedId = useId();
+  const ownerId = options.ownerId ?? `scroll-lock${generatedId}`;
+
+  const isLocked = useStore((s) => s.isGlobalLocked);
+  const isHeld = useStore((s) => s.lockHolders.some((h) => h.ownerId === ownerId));
+  const acquireLock = useStore((s) => s.acquireLock);
+  const releaseLock = useStore((s) => s.releaseLock);
+  const setViewExplicitLock = useStore((s) => s.setViewExplicitLock);
+  const setViewLock = useStore((s) => s.setViewLock);
+
+  // Release handle of this instance's acquisition (a hook holds at most one)
+  const releaseRef = useRef<(() => void) | null>(null);
+
+  // Primitive dep: an inline directions array must not rebuild lock/toggle every render
+  const directionsKey = directions?.join(",");
+
   const lock = useCallback(() => {
-    setGlobalLock(true);
-  }, [setGlobalLock]);
-  
+    // lock() repetido no apila; sí vuelve a adquirir si alguien liberó al owner con releaseLock
+    const held = useStore.getState().lockHolders.some((h) => h.ownerId === ownerId);
+    if (releaseRef.current && held) return;
+    const lockDirections = directionsKey?.split(",").filter(Boolean) as LockDirection[] | undefined;
+    releaseRef.current = acquireLock(ownerId, { directions: lockDirections, reason });
+  }, [useStore, acquireLock, ownerId, directionsKey, reason]);
+
   const unlock = useCallback(() => {
-    setGlobalLock(false);
-  }, [setGlobalLock]);
-  
+    if (releaseRef.current) releaseRef.current();
+    else releaseLock(ownerId);
+    releaseRef.current = null;
+  }, [releaseLock, ownerId]);
+
   const toggle = useCallback(() => {
-    setGlobalLock(!isLocked);
-  }, [setGlobalLock, isLocked]);
+    if (isHeld) unlock();
+    else lock();
+  }, [isHeld, lock, unlock]);
+
+  // Un componente desmontado no deja la navegación bloqueada
+  useEffect(() => () => {
+    releaseRef.current?.();
+    releaseRef.current = null;
+  }, [ownerId]);
   
-  const lockView = useCallback((viewId: string) => {
-    setViewExplicitLock(viewId, "locked");
-  }, [setViewExplicitLock]);
+  const lockView = useCallback((viewId: string, viewDirections?: LockDirection[]) => {
+    if (viewDirections) setViewLock(viewId, viewDirections);
+    else setViewExplicitLock(viewId, "locked");
+  }, [setViewExplicitLock, setViewLock]);
   
   const unlockView = useCallback((viewId: string) => {
     setViewExplicitLock(viewId, "unlocked");
-  }, [setViewExplicitLock]);
+    setViewLock(viewId, []);
+  }, [setViewExplicitLock, setViewLock]);
   
   return {
     isLocked,
+    isHeld,
     lock,
     unlock,
     toggle,
@@ -0,0 +1,30 @@
+/**
+ * useScrollStoreApi Hook
+ * ========================================
+ * Resolves the store instance the current subtree should talk to.
+ * Falls back to the global `useScrollStore` when no ScrollSystemProvider is present.
+ */
+
+import { createContext, useContext } from "react";
+import { useScrollStore } from "../store";
+import type { ScrollStore } from "../store";
+
+// Context for the active store instance (defaults to the global store)
+export const ScrollStoreContext = createContext<ScrollStore>(useScrollStore);
+
+/**
+ * Hook to access the scroll store of the nearest ScrollSystemProvider.
+ * The returned value is a regular Zustand hook, so it can be used both
+ * reactively (`useStore(selector)`) and imperatively (`useStore.getState()`).
+ *
+ * @example
+ * ```tsx
+ * const useStore = useScrollStoreApi();
+ * const activeIndex = useStore((s) => s.activeIndex);
+ *
+ * const handleClick = () => useStore.getState().goToNext();
+ * ```
+ */
+export function useScrollStoreApi(): ScrollStore {
+  return useContext(ScrollStoreContext);
+}
@@ -6,11 +6,13 @@
  */
 
 import { useCallback, useMemo } from "react";
-import { 
-    useScrollStore, 
+import {
     selectCanNavigateNext, 
-    selectCanNavigatePrevious 
+    selectCanNavigatePrevious,
+    selectActiveView,
+    selectActiveViewProgress,
 } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 import type { ScrollSystemAPI } from "../types";
 
 /**
@@ -18,31 +20,35 @@ import type { ScrollSystemAPI } from "../types";
  * Retorna la API pública del sistema.
  */
 export function useScrollSystem(): ScrollSystemAPI & { isDragging: boolean; isTransitioning: boolean } {
+    const useStore = useScrollStoreApi();
+
     // Selectors
-    const activeIndex = useScrollStore((s) => s.activeIndex);
-    const globalProgress = useScrollStore((s) => s.globalProgress);
-    const isGlobalLocked = useScrollStore((s) => s.isGlobalLocked);
-    const isTransitioning = useScrollStore((s) => s.isTransitioning);
-    const isDragging = useScrollStore((s) => s.isDragging);
-    const activeId = useScrollStore((s) => s.activeId);
-    const totalViews = useScrollStore((s) => s.totalViews);
-    const views = useScrollStore((s) => s.views);
+    const activeIndex = useStore((s) => s.activeIndex);
+    const globalProgress = useStore((s) => s.globalProgress);
+    const isGlobalLocked = useStore((s) => s.isGlobalLocked);
+    const isTransitioning = useStore((s) => s.isTransitioning);
+    const isDragging = useStore((s) => s.isDragging);
+    const activeId = useStore((s) => s.activeId);
+    const totalViews = useStore((s) => s.totalViews);
+    const activeColumn = useStore((s) => s.activeColumn);
+    const history = useStore((s) => s.history);
+    const historyIndex = useStore((s) => s.historyIndex);
     
     // Actions
-    const { 
-        goToNext: storeNext, 
-        goToPrevious: storePrev, 
-        goToView: storeGoTo,
-    } = useScrollStore();
+    const storeNext = useStore((s) => s.goToNext);
+    const storePrev = useStore((s) => s.goToPrevious);
+    const storeGoTo = useStore((s) => s.navigateTo);
+    const back = useStore((s) => s.back);
+    const forward = useStore((s) => s.forward);
 
     // Active View Data (for external consumers like Nav)
-    const activeView = views[activeIndex];
-    const activeViewType = activeView?.type ?? null;
-    const activeViewProgress = activeView?.progress ?? 0;
+    // Primitive selectors: no re-render when unrelated views change
+    const activeViewType = useStore((s) => selectActiveView(s)?.type ?? null);
+    const activeViewProgress = useStore(selectActiveViewProgress);
 
     // Computed Capabilities
-    const canNavigateNext = useScrollStore(selectCanNavigateNext);
-    const canNavigatePrevious = useScrollStore(selectCanNavigatePrevious);
+    const canNavigateNext = useStore(selectCanNavigateNext);
+    const canNavigatePrevious = useStore(selectCanNavigatePrevious);
 
     // API Implementation
     const goToNext = useCallback(() => {
@@ -66,6 +72,10 @@ export function useScrollSystem(): ScrollSystemAPI & { isDragging: boolean; isTr
     const getActiveViewProgress = useCallback(() => activeViewProgress, [activeViewProgress]);
     const isLocked = useCallback(() => isGlobalLocked || isTransitioning || !canNavigateNext, [isGlobalLocked, isTransitioning, canNavigateNext]);
 
+    // History: where the user came from (not the previous view in order)
+    const canGoBack = historyIndex > 0;
+    const canGoForward = historyIndex < history.length - 1;
+
     // Stable Object Return (Extended API for Nav components)
     return useMemo(() => ({
         goToNext,
@@ -82,6 +92,13 @@ export function useScrollSystem(): ScrollSystemAPI & { isDragging: boolean; isTr
         activeId,
         activeViewType,
         totalViews,
+        activeColumn,
+        // History
+        back,
+        forward,
+        canGoBack,
+        canGoForward,
+        history,
         // State Flags (for advanced use)
         isDragging,
         isTransitioning,
@@ -99,6 +116,12 @@ export function useScrollSystem(): ScrollSystemAPI & { isDragging: boolean; isTr
         activeId,
         activeViewType,
         totalViews,
+        activeColumn,
+        back,
+        forward,
+        canGoBack,
+        canGoForward,
+        history,
         isDragging,
         isTransitioning,
     ]);
@@ -6,7 +6,7 @@
  */
 
 import { useEffect, useCallback, useRef, useMemo } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
 import type { SnapPoint, SnapPointState } from "../types";
 
 export interface UseSnapPointsOptions {
@@ -76,8 +76,10 @@ export function useSnapPoints(options: UseSnapPointsOptions): SnapPointsState {
   const scrollContainerRef = useRef<HTMLElement | null>(null);
   const lastActivePointRef = useRef<string | null>(null);
   
-  const views = useScrollStore((s) => s.views);
-  const setActiveSnapPoint = useScrollStore((s) => s.setActiveSnapPoint);
+  const useStore = useScrollStoreApi();
+
+  const views = useStore((s) => s.views);
+  const setActiveSnapPoint = useStore((s) => s.setActiveSnapPoint);
   
   const view = useMemo(() => views.find((v) => v.id === viewId), [views, viewId]);
   const viewProgress = view?.progress ?? 0;
@@ -1,27 +1,44 @@
 /**
  * Scroll System - Touch Handler
  * =====================================
- * Determina la INTENCIÓN del usuario basada en Gestos Táctiles (Swipe).
- * Traduce Touch Events -> Intention -> Store.processIntention()
+ * Determina la INTENCIÓN del usuario basada en Gestos (Swipe).
+ * Traduce Pointer Events (touch, pen, mouse) -> Intention -> Store.processIntention()
+ * El eje lo decide el gesture arbiter: un swipe sobre un carrusel en su eje es del carrusel.
  */
 
 import { useRef, useEffect } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { selectActiveColumnCount, selectActiveView } from "../store";
 import { NAV_THRESHOLDS } from "../constants";
-import type { UserIntention } from "../types";
+import { isPointerEnabled, suppressNextClick } from "../utils/pointer";
+import { createGestureArbiter } from "../utils/gestureArbiter";
+import type { GestureConfig, ScrollSystemStore, UserDirection, UserIntention } from "../types";
 
 export interface UseTouchHandlerOptions {
   /** Enable/disable the touch handler (default: true) */
   enabled?: boolean;
+  /** Pointer types to accept: enableTouch (touch + pen), enableMouseDrag (mouse) */
+  gestureConfig?: GestureConfig;
+  /** Swipe axis (default: "vertical") */
+  orientation?: "vertical" | "horizontal";
+  /** Only swipes between the columns of a grid row (drag physics own the main axis) */
+  columnsOnly?: boolean;
 }
 
 /**
  * Check if active view allows navigation based on scroll position.
  * Returns true if navigation should be allowed.
  */
-function canNavigateFromScrollPosition(direction: "up" | "down"): boolean {
-  const state = useScrollStore.getState();
-  const activeView = state.views[state.activeIndex];
+function canNavigateFromScrollPosition(
+  state: ScrollSystemStore,
+  direction: UserDirection
+): boolean {
+  // Internal scroll is vertical: horizontal swipes don't compete with it
+  if (direction === "left" || direction === "right") {
+    return true;
+  }
+
+  const activeView = selectActiveView(state);
   
   // If no internal scroll capability, allow navigation
   if (activeView?.capability !== "internal") {
@@ -51,45 +68,84 @@ function canNavigateFromScrollPosition(direction: "up" | "down"): boolean {
 }
 
 export function useTouchHandler(options: UseTouchHandlerOptions = {}) {
-  const { enabled = true } = options;
+  const { enabled = true, gestureConfig, orientation = "vertical", columnsOnly = false } = options;
+  const enableTouch = gestureConfig?.enableTouch ?? true;
+  const enableMouseDrag = gestureConfig?.enableMouseDrag ?? false;
+  const useStore = useScrollStoreApi();
   
   const touchStart = useRef<{ x: number; y: number } | null>(null);
   const touchStartTime = useRef<number>(0);
+  const pointerIdRef = useRef<number | null>(null);
 
   useEffect(() => {
     if (!enabled) return;
 
-    const handleTouchStart = (e: TouchEvent) => {
+    const arbiter = createGestureArbiter();
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!isPointerEnabled(e, { enableTouch, enableMouseDrag })) return;
+
+      pointerIdRef.current = e.pointerId;
       touchStart.current = {
-        x: e.touches[0].clientX,
-        y: e.touches[0].clientY,
+        x: e.clientX,
+        y: e.clientY,
       };
       touchStartTime.current = Date.now();
+      arbiter.start(e.clientX, e.clientY, e.target);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!touchStart.current || e.pointerId !== pointerIdRef.current) return;
+      arbiter.update(e.clientX, e.clientY);
     };
 
-    const handleTouchEnd = (e: TouchEvent) => {
-      if (!touchStart.current) return;
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!touchStart.current || e.pointerId !== pointerIdRef.current) return;
+      pointerIdRef.current = null;
 
       const touchEnd = {
-        x: e.changedTouches[0].clientX,
-        y: e.changedTouches[0].clientY,
+        x: e.clientX,
+        y: e.clientY,
       };
 
       const deltaY = touchStart.current.y - touchEnd.y;
       const deltaX = touchStart.current.x - touchEnd.x;
       const timeElapsed = Date.now() - touchStartTime.current;
 
-      // 1. Detectar si es un Swipe Vertical válido
-      // Debe ser mayormente vertical y rápido o largo
+      // 0. Arbitraje: el eje del movimiento inicial; si es el del carrusel bajo el dedo, es suyo
+      const owner = arbiter.resolve(touchEnd.x, touchEnd.y);
+      const axis = arbiter.getAxis();
+      arbiter.reset();
+      if (owner !== "main" || !axis) {
+        touchStart.current = null;
+        return;
+      }
+
+      // 1. Detectar si es un Swipe válido en el eje de la orientación
+      // (o horizontal entre las columnas de una fila del grid)
+      // Debe ser en ese eje y rápido o largo
+      const isColumnSwipe = orientation === "vertical" &&
+        axis === "horizontal" &&
+        selectActiveColumnCount(useStore.getState()) > 1;
+      if (columnsOnly && !isColumnSwipe) {
+        touchStart.current = null;
+        return;
+      }
+
+      const isHorizontal = orientation === "horizontal" || isColumnSwipe;
+      const delta = isHorizontal ? deltaX : deltaY;
+
       if (
-        Math.abs(deltaY) > Math.abs(deltaX) && // Vertical
-        Math.abs(deltaY) > NAV_THRESHOLDS.TOUCH && // Threshold distancia
+        axis === (isHorizontal ? "horizontal" : "vertical") && // Eje principal
+        Math.abs(delta) > NAV_THRESHOLDS.TOUCH && // Threshold distancia
         timeElapsed < 800 // Tiempo máximo para considerar swipe rápido
       ) {
-        const direction = deltaY > 0 ? "down" : "up";
+        const direction: UserDirection = isHorizontal
+          ? (delta > 0 ? "right" : "left")
+          : (delta > 0 ? "down" : "up");
 
         // 2. Check if we can navigate based on internal scroll position
-        if (!canNavigateFromScrollPosition(direction)) {
+        if (!canNavigateFromScrollPosition(useStore.getState(), direction)) {
           // Don't navigate, let internal scroll continue
           touchStart.current = null;
           return;
@@ -100,22 +156,37 @@ export function useTouchHandler(options: UseTouchHandlerOptions = {}) {
           type: "navigate",
           direction: direction,
           strength: 1, // Swipes son intenciones fuertes
-          origin: "touch"
+          origin: "touch",
+          velocity: Math.abs(delta) / Math.max(1, timeElapsed),
         };
         
         // 4. Enviar al Store
-        useScrollStore.getState().processIntention(intention);
+        useStore.getState().processIntention(intention);
+
+        // Un swipe no es un click sobre lo que haya debajo
+        suppressNextClick();
       }
 
       touchStart.current = null;
     };
 
-    window.addEventListener("touchstart", handleTouchStart, { passive: true });
-    window.addEventListener("touchend", handleTouchEnd, { passive: true });
+    const handlePointerCancel = (e: PointerEvent) => {
+      if (e.pointerId !== pointerIdRef.current) return;
+      pointerIdRef.current = null;
+      touchStart.current = null;
+      arbiter.reset();
+    };
+
+    window.addEventListener("pointerdown", handlePointerDown, { passive: true });
+    window.addEventListener("pointermove", handlePointerMove, { passive: true });
+    window.addEventListener("pointerup", handlePointerUp, { passive: true });
+    window.addEventListener("pointercancel", handlePointerCancel, { passive: true });
 
     return () => {
-      window.removeEventListener("touchstart", handleTouchStart);
-      window.removeEventListener("touchend", handleTouchEnd);
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerCancel);
     };
-  }, [enabled]);
+  }, [enabled, enableTouch, enableMouseDrag, orientation, columnsOnly, useStore]);
 }
@@ -0,0 +1,193 @@
+/**
+ * Scroll System - Transition Controller Hook
+ * ===========================================
+ * Conecta el controlador de animación con el store.
+ * Anima la posición visual hacia activeIndex moviendo el elemento directamente
+ * (sin estado de React por frame), reporta transitionProgress y visualPosition
+ * y llama a endTransition cuando la animación termina de verdad.
+ * Al soltar un arrastre, el muelle arranca desde la posición del dedo
+ * con su velocidad.
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import type React from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+import { createAnimationController, type AnimationController } from "../utils/animationController";
+import type { DragRelease } from "./useDragHandler";
+import type { SpringConfig } from "../types";
+
+interface UseTransitionControllerOptions {
+  /** Animation duration in ms (0 = jump) */
+  duration: number;
+  /** CSS easing string */
+  easing: string;
+  /** Jump instead of animating (e.g. skipInitialAnimation) */
+  instant?: boolean;
+  /** Spring for drag releases, or false to use the eased tween */
+  spring?: SpringConfig | false;
+  /** Position held until the store initializes (initial view, also on the server) */
+  initialPosition?: number;
+  /** Element moved by the animation (e.g. the wrapper) */
+  elementRef?: React.RefObject<HTMLElement | null>;
+  /** CSS transform for a visual position, or null to leave the element alone (per-view transitions) */
+  toTransform?: ((position: number) => string) | null;
+  /** Live drag offset in views, painted on top of the position */
+  dragOffset?: number;
+}
+
+export interface TransitionControllerState {
+  /** Continue from a released drag (offset + velocity) */
+  release: (release: DragRelease) => void;
+}
+
+/**
+ * Hook que anima el elemento hacia activeIndex. La posición visual (índice
+ * flotante) se publica en el store como `visualPosition`, no como estado de React.
+ * Si activeIndex cambia a mitad de una animación, retoma desde la posición actual.
+ *
+ * @example
+ * ```tsx
+ * const { release } = useTransitionController({
+ *   duration: 700,
+ *   easing: "ease-out",
+ *   elementRef: wrapperRef,
+ *   toTransform: (position) => `translateY(${-position * 100}vh)`,
+ * });
+ * useDragHandler({ onRelease: release });
+ * ```
+ */
+export function useTransitionController({
+  duration,
+  easing,
+  instant = false,
+  spring = false,
+  initialPosition,
+  elementRef,
+  toTransform = null,
+  dragOffset = 0,
+}: UseTransitionControllerOptions): TransitionControllerState {
+  const useStore = useScrollStoreApi();
+  const activeIndex = useStore((s) => s.activeIndex);
+  const isInitialized = useStore((s) => s.isInitialized);
+
+  // Antes de initialize() activeIndex vale 0: se parte de la vista inicial
+  const startPosition = isInitialized ? activeIndex : initialPosition ?? activeIndex;
+
+  // Store may change (provider swap): callbacks read the latest one
+  const storeRef = useRef(useStore);
+  storeRef.current = useStore;
+
+  // Latest paint target, read by the controller on every frame
+  const paintRef = useRef({ elementRef, toTransform });
+  paintRef.current = { elementRef, toTransform };
+
+  // Drag offset the controller is painting (released drags drop it before React re-renders)
+  const offsetRef = useRef(0);
+
+  // true from a drag release until the snap settles: retargets keep springing
+  const isReleasingRef = useRef(false);
+
+  const controllerRef = useRef<AnimationController | null>(null);
+  if (!controllerRef.current) {
+    controllerRef.current = createAnimationController(
+      {
+        onFrame: (frame) => {
+          const state = storeRef.current.getState();
+          state.setVisualPosition(frame.position + offsetRef.current);
+          // A snap back without navigation is not a transition
+          if (state.isTransitioning) state.setTransitionProgress(frame.progress);
+        },
+        onFinish: () => {
+          isReleasingRef.current = false;
+          const state = storeRef.current.getState();
+          if (state.isTransitioning) state.endTransition();
+        },
+        getElement: () => (paintRef.current.toTransform ? paintRef.current.elementRef?.current ?? null : null),
+        toTransform: (position) => paintRef.current.toTransform?.(position) ?? "",
+      },
+      startPosition
+    );
+  }
+
+  // Latest timing options without restarting the effect
+  const timingRef = useRef({ duration, easing, instant, spring });
+  timingRef.current = { duration, easing, instant, spring };
+
+  // Anima hacia `target` con muelle (tras soltar) o con la curva CSS
+  const animate = useCallback((target: number) => {
+    const controller = controllerRef.current!;
+    const timing = timingRef.current;
+
+    if (isReleasingRef.current && timing.spring !== false && timing.duration > 0) {
+      controller.springTo(target, timing.spring);
+    } else {
+      controller.animateTo(target, timing.instant ? 0 : timing.duration, timing.easing);
+    }
+  }, []);
+
+  // Layout effect: the animation starts from the current position before the next paint
+  useIsomorphicLayoutEffect(() => {
+    const controller = controllerRef.current!;
+    const { isTransitioning } = storeRef.current.getState();
+
+    // Hold the initial position: initialize() lands on it (or jumps elsewhere)
+    if (!isInitialized && !isTransitioning) return;
+    if (controller.getPosition() === activeIndex && !controller.isAnimating()) return;
+
+    // activeIndex changed without a navigation (restored initialize, removed views): jump
+    if (!isTransitioning) {
+      isReleasingRef.current = false;
+      controller.jumpTo(activeIndex);
+      return;
+    }
+    animate(activeIndex);
+  }, [activeIndex, isInitialized, animate]);
+
+  const release = useCallback(({ offset, velocity }: DragRelease) => {
+    const controller = controllerRef.current!;
+    const timing = timingRef.current;
+
+    // Continue from where the finger left the views
+    offsetRef.current = 0;
+    controller.setOffset(0);
+    controller.jumpTo(controller.getPosition() + offset);
+    isReleasingRef.current = true;
+
+    // Snap back to the current view; if the release navigates,
+    // the activeIndex effect retargets keeping the spring velocity
+    const target = storeRef.current.getState().activeIndex;
+    if (timing.spring !== false && timing.duration > 0) {
+      controller.springTo(target, timing.spring, velocity);
+    } else {
+      animate(target);
+    }
+  }, [animate]);
+
+  // Drag: painted on top of the (possibly animating) position
+  useIsomorphicLayoutEffect(() => {
+    if (dragOffset === offsetRef.current) return;
+    const controller = controllerRef.current!;
+    offsetRef.current = dragOffset;
+    controller.setOffset(dragOffset);
+    storeRef.current.getState().setVisualPosition(controller.getPosition() + dragOffset);
+  }, [dragOffset]);
+
+  // New transform format (orientation, direction, per-view mode): paint again
+  const isFirstPaintRef = useRef(true);
+  useIsomorphicLayoutEffect(() => {
+    if (isFirstPaintRef.current) {
+      isFirstPaintRef.current = false;
+      return;
+    }
+    controllerRef.current!.repaint();
+  }, [toTransform]);
+
+  // Stop frames/timers on unmount; nothing will finish the transition now, so `await goTo()` settles
+  useEffect(() => () => {
+    controllerRef.current?.stop();
+    storeRef.current.getState().abortTransition();
+  }, []);
+
+  return { release };
+}
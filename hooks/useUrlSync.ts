@@ -0,0 +1,293 @@
+/**
+ * Scroll System - URL Sync
+ * ==========================================
+ * Sincroniza la posición con la URL, estilo router.
+ *
+ * Features:
+ * - Serializer intercambiable: hash ("#pricing/plan-b"), path ("/story/:id"),
+ *   query ("?v=3") o uno propio (UrlSerializer)
+ * - Detalle tras la vista: columna (GridRow), ítem (NestedScrollView) o snap point
+ * - Adapter para enlazarlo al history del router de la app (UrlSyncAdapter)
+ * - Espera a la inicialización del store suscribiéndose (sin polling)
+ *
+ * Usage:
+ *   useUrlSync({ serializer: createPathSerializer({ pattern: "/story/:id" }) })
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import { shallow } from "zustand/shallow";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { getColumnCount, getViewAtIndex } from "../store";
+import { createBrowserUrlAdapter, createHashSerializer } from "../utils/urlSync";
+import { getViewScrollElement } from "../utils";
+import type {
+  GridPosition,
+  ScrollSystemState,
+  ScrollSystemStore,
+  UrlLocation,
+  UrlSyncConfig,
+  UrlSyncDetail,
+  UrlTarget,
+  ViewState,
+} from "../types";
+
+export interface UseUrlSyncOptions extends UrlSyncConfig {
+  /** Enable/disable URL syncing (default: true) */
+  enabled?: boolean;
+}
+
+export interface UseUrlSyncResult {
+  /** Position in the URL to pass to initialize() (undefined if disabled or it points nowhere) */
+  getInitialTarget: () => GridPosition | undefined;
+}
+
+const ALL_DETAILS: UrlSyncDetail[] = ["column", "nested", "snap"];
+
+function isIndex(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+function toUrl(location: UrlLocation): string {
+  return `${location.pathname}${location.search}${location.hash}`;
+}
+
+/**
+ * Detalle de la vista activa que va tras ella en la URL (null si no hay).
+ */
+function getDetail(view: ViewState | undefined, column: number, details: UrlSyncDetail[]): string | null {
+  if (!view) return null;
+  if (getColumnCount(view) > 1) {
+    return details.includes("column") && column > 0 ? String(column) : null;
+  }
+  if (view.type === "nested") {
+    return details.includes("nested") && view.activeNestedIndex > 0 ? String(view.activeNestedIndex) : null;
+  }
+  return details.includes("snap") ? view.activeSnapPointId : null;
+}
+
+/**
+ * Vista a la que apunta la URL. Un id que contiene "/" gana sobre la lectura "id/detalle".
+ */
+function resolveTarget(
+  views: ViewState[],
+  target: UrlTarget
+): { row: number; view: ViewState | undefined; detail: string | null } | null {
+  if (typeof target.view === "number") {
+    return { row: target.view, view: getViewAtIndex(views, target.view), detail: target.detail };
+  }
+
+  if (target.detail !== null) {
+    const exact = views.find((v) => v.id === `${target.view}/${target.detail}`);
+    if (exact) return { row: exact.index, view: exact, detail: null };
+  }
+
+  const view = views.find((v) => v.id === target.view);
+  if (view) return { row: view.index, view, detail: target.detail };
+
+  // Virtualizado: una vista desmontada se escribe por índice
+  if (isIndex(target.view)) {
+    const row = Number(target.view);
+    return { row, view: getViewAtIndex(views, row), detail: target.detail };
+  }
+  return null;
+}
+
+/**
+ * Posición (fila, columna de GridRow) y detalle restante a los que apunta la URL.
+ */
+function locate(
+  views: ViewState[],
+  target: UrlTarget
+): { position: GridPosition; view: ViewState | undefined; detail: string | null } | null {
+  const resolved = resolveTarget(views, target);
+  if (!resolved) return null;
+
+  const { row, view, detail } = resolved;
+  const isGrid = view !== undefined && getColumnCount(view) > 1;
+  if (isGrid) {
+    return { position: { row, col: detail && isIndex(detail) ? Number(detail) : 0 }, view, detail: null };
+  }
+  return { position: { row, col: 0 }, view, detail };
+}
+
+/**
+ * Aplica el detalle tras la vista: ítem de NestedScrollView o snap point.
+ */
+function applyDetail(state: ScrollSystemStore, view: ViewState | undefined, detail: string | null) {
+  if (!view || !detail) return;
+  if (view.type === "nested") {
+    if (isIndex(detail)) state.setNestedIndex(view.id, Number(detail));
+  } else {
+    scrollToSnapPoint(view, detail);
+    state.setActiveSnapPoint(view.id, detail);
+  }
+}
+
+/**
+ * Paso del historial del store (-1 back, 1 forward) que lleva a `target`, o null.
+ */
+function getHistoryStep(state: ScrollSystemState, target: GridPosition): -1 | 1 | null {
+  for (const step of [-1, 1] as const) {
+    const entry = state.history[state.historyIndex + step];
+    if (!entry) continue;
+    const row = state.views.find((v) => v.id === entry.viewId)?.index ?? entry.index;
+    if (row === target.row && entry.column === target.col) return step;
+  }
+  return null;
+}
+
+/**
+ * Lleva el scroll interno de la vista hasta el snap point:
+ * por su posición en config.snapPoints, o al elemento [data-snap-point="id"].
+ */
+function scrollToSnapPoint(view: ViewState, snapPointId: string) {
+  const root = document.getElementById(view.id);
+  if (!root) return;
+
+  const point = view.config.snapPoints?.find((p) => p.id === snapPointId);
+  const scrollable = getViewScrollElement(view.id);
+  if (point && scrollable) {
+    scrollable.scrollTop = point.position * (scrollable.scrollHeight - scrollable.clientHeight);
+    return;
+  }
+
+  const marker = Array.from(root.querySelectorAll<HTMLElement>("[data-snap-point]")).find(
+    (el) => el.dataset.snapPoint === snapPointId
+  );
+  marker?.scrollIntoView?.({ block: "start" });
+}
+
+/**
+ * Hook de sincronización URL <-> store.
+ * La URL de carga se pasa a initialize() con `getInitialTarget` (sin transición);
+ * después, back/forward y los cambios del router navegan con goToView.
+ */
+export function useUrlSync(options: UseUrlSyncOptions = {}): UseUrlSyncResult {
+  const { enabled = true, pushHistory = false, historyStack = false, details = ALL_DETAILS } = options;
+  const useStore = useScrollStoreApi();
+  const hasInitialized = useRef(false);
+
+  // Latest serializer/adapter: inline objects must not resubscribe every render
+  const serializerRef = useRef(options.serializer ?? createHashSerializer());
+  const adapterRef = useRef(options.adapter ?? null);
+  serializerRef.current = options.serializer ?? serializerRef.current;
+  adapterRef.current = options.adapter ?? adapterRef.current;
+
+  const getAdapter = () => {
+    if (!adapterRef.current) adapterRef.current = createBrowserUrlAdapter();
+    return adapterRef.current;
+  };
+
+  // Primitive dep for the details list
+  const detailsKey = details.join();
+
+  // Store -> URL
+  useEffect(() => {
+    if (!enabled) return;
+    const detailList = detailsKey.split(",") as UrlSyncDetail[];
+
+    const unsubscribe = useStore.subscribe(
+      (state) => {
+        const view = getViewAtIndex(state.views, state.activeIndex);
+        return [state.activeIndex, state.activeColumn, getDetail(view, state.activeColumn, detailList)] as const;
+      },
+      ([activeIndex, activeColumn, detail], [prevIndex, prevColumn]) => {
+        if (!hasInitialized.current) return; // Skip during initialization
+
+        const activeView = getViewAtIndex(useStore.getState().views, activeIndex);
+        if (!activeView) return;
+
+        const adapter = getAdapter();
+        const location = adapter.getLocation();
+        const url = serializerRef.current.format({ viewId: activeView.id, index: activeIndex, detail }, location);
+        // Already there (back/forward navigation): a new entry would break browser forward
+        if (url === toUrl(location)) return;
+
+        // Snap points and carousel items only replace: scrolling must not flood the history
+        const moved = activeIndex !== prevIndex || activeColumn !== prevColumn;
+        if (pushHistory && moved) {
+          adapter.push(url);
+        } else {
+          adapter.replace(url);
+        }
+      },
+      { equalityFn: shallow }
+    );
+
+    return () => unsubscribe();
+    // serializer/adapter are read through refs
+  }, [enabled, pushHistory, detailsKey, useStore]);
+
+  // Initial load: read before initialize(), resolved against the registered views
+  const getInitialTarget = useCallback((): GridPosition | undefined => {
+    if (!enabled) return undefined;
+    const target = serializerRef.current.parse(getAdapter().getLocation());
+    return target ? locate(useStore.getState().views, target)?.position : undefined;
+    // serializer/adapter are read through refs
+  }, [enabled, useStore]);
+
+  // URL -> Store (back/forward, router changes)
+  useEffect(() => {
+    if (!enabled) return;
+    const adapter = getAdapter();
+
+    const applyLocation = (useHistory: boolean) => {
+      const target = serializerRef.current.parse(adapter.getLocation());
+      if (!target) return;
+
+      const state = useStore.getState();
+      const located = locate(state.views, target);
+      if (!located) return;
+
+      const { position, view, detail } = located;
+
+      // Same move as the store's history: keep both stacks in step
+      const step = useHistory && historyStack ? getHistoryStep(state, position) : null;
+      if (step === -1) state.back();
+      else if (step === 1) state.forward();
+      else if (position.row !== state.activeIndex || position.col !== state.activeColumn) state.goToView(position);
+
+      applyDetail(state, view, detail);
+    };
+
+    // Initial load: initialize() already landed on the URL's view (getInitialTarget),
+    // only its detail is left (nested item, snap point)
+    const applyInitialDetail = () => {
+      const target = serializerRef.current.parse(adapter.getLocation());
+      const state = useStore.getState();
+      const located = target ? locate(state.views, target) : null;
+      if (located && located.view?.index === state.activeIndex) {
+        applyDetail(state, located.view, located.detail);
+      }
+      hasInitialized.current = true;
+    };
+
+    let unsubscribeInit: (() => void) | null = null;
+    if (useStore.getState().isInitialized) {
+      // Enabled after initialization: nothing passed the URL to initialize()
+      applyLocation(false);
+      hasInitialized.current = true;
+    } else {
+      unsubscribeInit = useStore.subscribe(
+        (state) => state.isInitialized,
+        (isInitialized) => {
+          if (!isInitialized) return;
+          unsubscribeInit?.();
+          unsubscribeInit = null;
+          applyInitialDetail();
+        }
+      );
+    }
+
+    const unlisten = adapter.listen(() => applyLocation(true));
+
+    return () => {
+      unsubscribeInit?.();
+      unlisten();
+    };
+  }, [enabled, historyStack, useStore]);
+
+  return { getInitialTarget };
+}
+
+export default useUrlSync;
@@ -6,40 +6,65 @@
  * Las actualizaciones ocurren vía useMetricsReporter.
  */
 
-import { useScrollStore, selectActiveViewProgress } from "../store";
-import type { NavigationState } from "../types";
+import { selectActiveView, selectActiveViewProgress, getViewLockReason } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import type { NavigationState, ReadRequirement, ViewLockReason } from "../types";
+
+const NO_REQUIREMENTS: Exclude<ReadRequirement, "scroll">[] = [];
 
 interface UseViewProgressResult {
   progress: number;
   isAtStart: boolean;
   isAtEnd: boolean;
   navigation: NavigationState;
+  /** NEW: Why the view is still locked forward (null when it can advance) */
+  lockReason: ViewLockReason | null;
+  /** NEW: Read requirements still pending (minDwellMs / requireSections) */
+  pendingRequirements: Exclude<ReadRequirement, "scroll">[];
 }
 
 export function useViewProgress(viewId: string): UseViewProgressResult {
-  const progress = useScrollStore(
+  const useStore = useScrollStoreApi();
+
+  const progress = useStore(
     (s) => s.views.find((v) => v.id === viewId)?.progress ?? 0
   );
   
   // Use correct property 'navigation' from ViewState
-  const navigation = useScrollStore(
+  const navigation = useStore(
     (s) => s.views.find((v) => v.id === viewId)?.navigation ?? "unlocked"
   );
 
+  const lockReason = useStore((s) => {
+    const view = s.views.find((v) => v.id === viewId);
+    return view ? getViewLockReason(view) : null;
+  });
+
+  const pendingRequirements = useStore(
+    (s) => s.views.find((v) => v.id === viewId)?.readRequirements ?? NO_REQUIREMENTS
+  );
+
   const isAtStart = progress <= 0.02;
-  const isAtEnd = progress >= 0.99;
+  // Same end the state machine uses (per-view threshold + hysteresis)
+  const isAtEnd = useStore(
+    (s) => s.views.find((v) => v.id === viewId)?.scrollEndReached ?? false
+  );
 
   return {
     progress,
     isAtStart,
     isAtEnd,
     navigation,
+    lockReason,
+    pendingRequirements,
   };
 }
 
 export function useActiveViewProgress() {
-  const progress = useScrollStore(selectActiveViewProgress);
-  const activeView = useScrollStore((s) => s.views[s.activeIndex]);
+  const useStore = useScrollStoreApi();
+
+  const progress = useStore(selectActiveViewProgress);
+  const activeView = useStore(selectActiveView);
   
   const hasInternalScroll = activeView?.capability === "internal";
 
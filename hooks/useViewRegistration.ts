@@ -5,12 +5,16 @@
  * Maneja el ciclo de vida de registro/des-registro.
  */
 
-import { useEffect, useRef } from "react";
-import { useScrollStore } from "../store";
-import type { ViewConfig } from "../types";
+import { useContext, useEffect, useMemo, useRef } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { useVirtualItemIndex } from "./useVirtualWindow";
+import { TransitionContext } from "./useViewTransition";
+import type { ViewConfig, BeforeLeaveGuard, BeforeEnterGuard, NavigationOrigin } from "../types";
 
 interface UseViewRegistrationOptions {
   config: ViewConfig;
+  /** Explicit position among the views (becomes config.index) */
+  order?: number;
   onActivate?: () => void;
   onDeactivate?: () => void;
   // Transition callbacks
@@ -18,23 +22,43 @@ interface UseViewRegistrationOptions {
   onEnterEnd?: () => void;
   onExitStart?: () => void;
   onExitEnd?: () => void;
+  // Navigation guards
+  beforeLeave?: BeforeLeaveGuard;
+  beforeEnter?: BeforeEnterGuard;
+  skipGuardsFor?: NavigationOrigin[];
 }
 
 export function useViewRegistration({
-  config,
+  config: viewConfig,
+  order,
   onActivate,
   onDeactivate,
   onEnterStart,
   onEnterEnd,
   onExitStart,
   onExitEnd,
+  beforeLeave,
+  beforeEnter,
+  skipGuardsFor,
 }: UseViewRegistrationOptions) {
   // Use stable selectors
-  const registerView = useScrollStore((s) => s.registerView);
-  const unregisterView = useScrollStore((s) => s.unregisterView);
-  const updateViewConfig = useScrollStore((s) => s.updateViewConfig);
-  const activeId = useScrollStore((s) => s.activeId);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
+  const useStore = useScrollStoreApi();
+
+  const registerView = useStore((s) => s.registerView);
+  const unregisterView = useStore((s) => s.unregisterView);
+  const updateViewConfig = useStore((s) => s.updateViewConfig);
+  const registerGuards = useStore((s) => s.registerGuards);
+
+  // Inside VirtualScrollContainer the logical index comes from the item wrapper;
+  // otherwise an explicit `order` sets the position
+  const virtualIndex = useVirtualItemIndex();
+  const config = useMemo<ViewConfig>(() => {
+    const index = virtualIndex ?? order;
+    return index === undefined ? viewConfig : { ...viewConfig, index };
+  }, [viewConfig, virtualIndex, order]);
+  const activeId = useStore((s) => s.activeId);
+  const isInitialized = useStore((s) => s.isInitialized);
+  const isTransitioning = useStore((s) => s.isTransitioning);
 
   // Callbacks ref (to avoid re-renders on callback changes)
   const callbacksRef = useRef({ 
@@ -68,10 +92,21 @@ export function useViewRegistration({
     }
   }, [config, updateViewConfig]);
 
+  // 3. Navigation Guards (re-registered when the guard functions change)
+  useEffect(() => {
+    if (!beforeLeave && !beforeEnter) return;
+    return registerGuards(config.id, { beforeLeave, beforeEnter, skipGuardsFor });
+  }, [config.id, beforeLeave, beforeEnter, skipGuardsFor, registerGuards]);
 
   // Get current state
-  const viewState = useScrollStore(s => s.views.find(v => v.id === config.id));
-  const isActive = activeId === config.id;
+  const viewState = useStore(s => s.views.find(v => v.id === config.id));
+
+  // Before initialize() (server, hydration) nothing is registered: the container gives
+  // the child position and the initial view, so the first paint is already in place
+  const { initialPosition, childPositions } = useContext(TransitionContext);
+  const index = viewState?.index
+    ?? (isInitialized ? -1 : virtualIndex ?? childPositions.get(config.id) ?? -1);
+  const isActive = isInitialized ? activeId === config.id : index >= 0 && index === initialPosition;
 
   // Activation/Deactivation callbacks
   useEffect(() => {
@@ -117,7 +152,7 @@ export function useViewRegistration({
   return {
     isActive,
     viewState,
-    index: viewState?.index ?? -1,
+    index,
     scrollProgress: viewState?.progress ?? 0,
     navigation: viewState?.navigation ?? "unlocked",
   };
@@ -0,0 +1,95 @@
+/**
+ * Scroll System - View Transition Hook
+ * =====================================
+ * Aplica el efecto de transición a cada vista (modo "per-view").
+ * El modo clásico (slide sobre un único wrapper) no necesita estilos por vista.
+ */
+
+import { createContext, useContext } from "react";
+import type React from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { resolveTransition } from "../utils/transitions";
+import { DEFAULT_TRANSITION_DURATION, DEFAULT_TRANSITION_EASING } from "../constants";
+import type { LayoutDirection, TransitionFunction, ViewTransition } from "../types";
+
+interface TransitionContextValue {
+  /** true cuando las vistas se animan individualmente */
+  perView: boolean;
+  /** Container-level effect */
+  transition: TransitionFunction;
+  orientation: "vertical" | "horizontal";
+  direction: LayoutDirection;
+  /** Reduced motion requested (known after mount: false on the server and during hydration) */
+  reducedMotion: boolean;
+  /** NEW: Container transition duration in ms (default for GridRow column slides) */
+  transitionDuration: number;
+  /** NEW: Container transition easing (default for GridRow column slides) */
+  transitionEasing: string;
+  /** NEW: Index of the initial view, the active one until initialize() (server, hydration) */
+  initialPosition: number;
+  /** NEW: Position of each direct child view by id, used by views that haven't registered yet */
+  childPositions: ReadonlyMap<string, number>;
+}
+
+// Context for the container transition (defaults to wrapper mode)
+export const TransitionContext = createContext<TransitionContextValue>({
+  perView: false,
+  transition: resolveTransition("slide"),
+  orientation: "vertical",
+  direction: "ltr",
+  reducedMotion: false,
+  transitionDuration: DEFAULT_TRANSITION_DURATION,
+  transitionEasing: DEFAULT_TRANSITION_EASING,
+  initialPosition: 0,
+  childPositions: new Map(),
+});
+
+/**
+ * ¿Debe el contenedor animar cada vista por separado?
+ * Sí si el efecto no es el slide clásico o si alguna vista lo sobreescribe.
+ */
+export function usePerViewTransition(transition: ViewTransition = "slide"): boolean {
+  const useStore = useScrollStoreApi();
+  const hasViewOverrides = useStore((s) => s.views.some((v) => v.config.transition !== undefined));
+  return transition !== "slide" || hasViewOverrides;
+}
+
+/**
+ * Estilos de transición para la vista con índice `index`.
+ * Retorna undefined en modo wrapper (el contenedor se encarga del slide).
+ *
+ * @example
+ * ```tsx
+ * const transitionStyle = useViewTransition(index, "fade");
+ * return <section style={{ height: "100vh", ...transitionStyle }} />;
+ * ```
+ */
+export function useViewTransition(
+  index: number,
+  override?: ViewTransition
+): React.CSSProperties | undefined {
+  const context = useContext(TransitionContext);
+  const useStore = useScrollStoreApi();
+  // Before initialize() (server, hydration) the initial view is the active one
+  const activeIndex = useStore((s) => (s.isInitialized ? s.activeIndex : context.initialPosition));
+  // Visual offset from the active view (animation + drag), read per frame only in per-view
+  // mode (wrapper-mode views don't re-render while animating); views wait for initialize()
+  const offset = useStore((s) =>
+    context.perView && s.isInitialized ? s.visualPosition - s.activeIndex : 0
+  );
+
+  if (!context.perView || index < 0) return undefined;
+
+  const transition = override
+    ? resolveTransition(override, context.orientation, context.direction)
+    : context.transition;
+
+  return {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    width: "100%",
+    height: "100%",
+    ...transition(index, activeIndex, offset),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Scroll System - Virtual Window Hook
+ * ====================================
+ * Calcula qué índices lógicos deben estar montados alrededor de la vista activa.
+ * Usado por VirtualScrollContainer para feeds con miles de ítems.
+ */
+
+import { createContext, useContext } from "react";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { DEFAULT_VIRTUAL_OVERSCAN } from "../constants";
+
+// Índice lógico del ítem virtualizado que envuelve a una vista (null = sin virtualizar)
+export const VirtualItemIndexContext = createContext<number | null>(null);
+
+/**
+ * Índice lógico de la vista actual dentro de un VirtualScrollContainer.
+ * Retorna null fuera de un contenedor virtualizado.
+ */
+export function useVirtualItemIndex(): number | null {
+  return useContext(VirtualItemIndexContext);
+}
+
+interface UseVirtualWindowOptions {
+  itemCount: number;
+  /** Views mounted on each side of the active one (default: 2) */
+  overscan?: number;
+  /** Logical index to center on before initialize() (default: 0) */
+  initialIndex?: number;
+}
+
+interface VirtualWindow {
+  /** First mounted logical index (inclusive) */
+  start: number;
+  /** Last mounted logical index (inclusive, -1 when empty) */
+  end: number;
+}
+
+/**
+ * Hook que retorna el rango [start, end] de ítems a montar.
+ *
+ * @example
+ * ```tsx
+ * const { start, end } = useVirtualWindow({ itemCount: 5000, overscan: 2 });
+ * ```
+ */
+export function useVirtualWindow({
+  itemCount,
+  overscan = DEFAULT_VIRTUAL_OVERSCAN,
+  initialIndex = 0,
+}: UseVirtualWindowOptions): VirtualWindow {
+  const useStore = useScrollStoreApi();
+  const activeIndex = useStore((s) => s.activeIndex);
+  const isInitialized = useStore((s) => s.isInitialized);
+
+  if (itemCount <= 0) return { start: 0, end: -1 };
+
+  // Antes de initialize() la ventana ya se monta alrededor de la vista inicial
+  const center = Math.max(0, Math.min(isInitialized ? activeIndex : initialIndex, itemCount - 1));
+  return {
+    start: Math.max(0, center - overscan),
+    end: Math.min(itemCount - 1, center + overscan),
+  };
+}
@@ -2,26 +2,34 @@
  * PABRIX Scroll System - Wheel Handler
  * =====================================
  * Determina la INTENCIÓN del usuario basada en eventos de Wheel.
- * Traduce deltaY -> Intention -> Store.processIntention()
+ * Traduce deltaY (o deltaX en horizontal / filas del grid) -> Intention -> Store.processIntention()
  */
 
 import { useEffect, useRef } from "react";
-import { useScrollStore } from "../store";
+import { useScrollStoreApi } from "./useScrollStoreApi";
+import { selectActiveColumnCount, selectActiveView } from "../store";
 import { normalizeWheel } from "../utils/normalizeWheel";
 import { NAV_THRESHOLDS } from "../constants";
-import type { UserIntention } from "../types";
+import type { UserDirection, UserIntention } from "../types";
 
-export function useWheelHandler() {
+export interface UseWheelHandlerOptions {
+  /** Horizontal also accepts deltaX (trackpad swipes, shift+wheel) (default: "vertical") */
+  orientation?: "vertical" | "horizontal";
+}
+
+export function useWheelHandler(options: UseWheelHandlerOptions = {}) {
+  const { orientation = "vertical" } = options;
   const scrollAccumulator = useRef(0);
   const lastScrollTime = useRef(0);
-  const isTransitioning = useScrollStore((s) => s.isTransitioning);
+  const useStore = useScrollStoreApi();
+  const isTransitioning = useStore((s) => s.isTransitioning);
 
   useEffect(() => {
     const handleWheel = (event: WheelEvent) => {
-      const state = useScrollStore.getState();
+      const state = useStore.getState();
       
-      // 1. Ignorar si hay transición activa o drag en progreso
-      if (state.isTransitioning || state.isDragging) {
+      // 1. Ignorar si hay transición activa (no interrumpible) o drag en progreso
+      if ((state.isTransitioning && !state.isInterruptible) || state.isDragging) {
         event.preventDefault();
         return;
       }
@@ -29,9 +37,15 @@ export function useWheelHandler() {
       // 2. Normalizar evento (cross-browser)
       const normalized = normalizeWheel(event);
 
-      // 3. Check if active view has internal scroll capability
-      const activeView = state.views[state.activeIndex];
-      if (activeView?.capability === "internal") {
+      // En horizontal (o en una fila del grid) manda el eje dominante:
+      // deltaX del trackpad, o la rueda vertical
+      const acceptsHorizontal = orientation === "horizontal" || selectActiveColumnCount(state) > 1;
+      const useHorizontalAxis = acceptsHorizontal &&
+        Math.abs(normalized.pixelX) > Math.abs(normalized.pixelY);
+
+      // 3. Check if active view has internal (vertical) scroll capability
+      const activeView = selectActiveView(state);
+      if (!useHorizontalAxis && activeView?.capability === "internal") {
         const scrollContainer = document.querySelector(
           `[data-view-type="scroll-locked"][data-active="true"] [data-scrollable="true"]`
         ) as HTMLElement | null;
@@ -54,12 +68,15 @@ export function useWheelHandler() {
           }
         }
       }
-      const delta = normalized.pixelY;
+      const delta = useHorizontalAxis ? normalized.pixelX : normalized.pixelY;
 
       // 3. Acumular delta para thresholds
       scrollAccumulator.current += delta;
       const now = Date.now();
 
+      // Velocidad del gesto (px/ms): un flick de trackpad emite deltas grandes muy seguidos
+      const velocity = Math.abs(delta) / Math.max(16, now - lastScrollTime.current);
+
       // Reset acumulador si pasó mucho tiempo (gesto interrumpido)
       if (now - lastScrollTime.current > 200) {
         scrollAccumulator.current = delta;
@@ -68,19 +85,23 @@ export function useWheelHandler() {
 
       // 4. Verificar Threshold
       if (Math.abs(scrollAccumulator.current) >= NAV_THRESHOLDS.WHEEL) {
-        const direction = scrollAccumulator.current > 0 ? "down" : "up";
+        const isForward = scrollAccumulator.current > 0;
+        const direction: UserDirection = useHorizontalAxis
+          ? (isForward ? "right" : "left")
+          : (isForward ? "down" : "up");
         
         // 5. Construir Intención
         const intention: UserIntention = {
           type: "navigate",
           direction: direction,
           strength: Math.min(Math.abs(scrollAccumulator.current) / NAV_THRESHOLDS.WHEEL, 1),
-          origin: "wheel"
+          origin: "wheel",
+          velocity,
         };
 
         // 6. Enviar al Store (Brain)
         // El store decide si bloquea, navega o ignora.
-        const handled = useScrollStore.getState().processIntention(intention);
+        const handled = useStore.getState().processIntention(intention);
 
         if (handled) {
           // Si el store actuó (navegó), reseteamos y prevenimos scroll nativo visual
@@ -101,5 +122,5 @@ export function useWheelHandler() {
 
     window.addEventListener("wheel", handleWheel, { passive: false });
     return () => window.removeEventListener("wheel", handleWheel);
-  }, []);
+  }, [orientation, useStore]);
 }
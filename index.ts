@@ -11,14 +11,18 @@
 export {
   ScrollContainer,
   FullView,
+  GridRow,
   ScrollLockedView,
   ControlledView,
   useViewControl,
   ScrollDebugOverlay,
   AriaLiveRegion,
+  ScrollHint,
   LazyView,
   NestedScrollView,
   NestedScrollItem,
+  ScrollSystemProvider,
+  VirtualScrollContainer,
 } from "./components";
 
 // Core Hooks
@@ -30,12 +34,20 @@ export {
   useTouchHandler,
   useKeyboardHandler,
   useHashSync,
+  useUrlSync,
+  usePersistence,
   useDragHandler,
   useFocusManagement,
   useScrollAnalytics,
   useViewRegistration,
   useScrollSystem, // Main Public API
   useMetricsReporter,
+  useScrollStoreApi,
+  useVirtualWindow,
+  useVirtualItemIndex,
+  useViewTransition,
+  useNavigationBlocked,
+  useReadCompletion,
 } from "./hooks";
 
 // Feature Hooks (v1.1.0)
@@ -49,25 +61,40 @@ export {
   useSnapPoints,
   createSnapPoints,
   useInfiniteScroll,
+  useFeed,
+  useNestedScroll,
   useGestureConfig,
 } from "./hooks";
 
 // Store (Advanced access)
 export {
   useScrollStore,
+  createScrollStore,
+  getViewAtIndex,
+  getViewLockReason,
   selectActiveView,
   selectActiveViewProgress,
   selectCanNavigateNext,
   selectCanNavigatePrevious,
   selectGlobalProgress,
   selectIsAutoScrolling,
+  selectActiveColumnCount,
 } from "./store";
+export type { ScrollStore } from "./store";
 
 // Types
 export type {
   ViewType,
   ScrollDirection,
   NavigationState,
+  LockDirection,
+  ViewLockSource,
+  ViewDirectionLocks,
+  ReadRequirement,
+  ViewLockReason,
+  ReadSectionsConfig,
+  ScrollLockOptions,
+  ScrollLockHolder,
   ScrollCapability,
   UserIntention,
   BaseViewConfig,
@@ -82,14 +109,41 @@ export type {
   ScrollSystemActions,
   ScrollSystemStore,
   ScrollSystemAPI,
+  NavigationResult,
+  NavigationRejectionReason,
+  NavigationOrigin,
+  NavigationBlockedEvent,
+  NavigationHistoryEntry,
+  UrlLocation,
+  UrlTarget,
+  UrlPosition,
+  UrlSerializer,
+  UrlSyncAdapter,
+  UrlSyncDetail,
+  UrlSyncConfig,
+  PersistStorage,
+  PersistConfig,
+  PersistedViewState,
+  PersistedScrollState,
+  NavigationGuards,
+  BeforeLeaveGuard,
+  BeforeEnterGuard,
   BaseViewProps,
   FullViewProps,
   ScrollLockedViewProps,
   ControlledViewProps,
   NestedScrollViewProps,
+  GridRowProps,
+  GridPosition,
   ScrollContainerProps,
+  VirtualScrollContainerProps,
+  TransitionPreset,
+  TransitionFunction,
+  ViewTransition,
+  LayoutDirection,
   // NEW: v1.1.0 Types
   GestureConfig,
+  SpringConfig,
   AutoScrollConfig,
   SnapPoint,
   SnapPointState,
@@ -97,6 +151,9 @@ export type {
   ParallaxState,
   PreloadConfig,
   InfiniteScrollConfig,
+  FlickSkipConfig,
+  FeedConfig,
+  FeedPage,
   NestedScrollConfig,
 } from "./types";
 
@@ -105,6 +162,56 @@ export {
   DEFAULT_TRANSITION_DURATION,
   DEFAULT_TRANSITION_EASING,
   DEFAULT_PROGRESS_DEBOUNCE,
+  DEFAULT_SCROLL_END_THRESHOLD,
+  DEFAULT_SCROLL_END_HYSTERESIS,
   NAVIGATION_COOLDOWN,
-  NAV_THRESHOLDS
+  DEFAULT_HISTORY_LIMIT,
+  DEFAULT_PERSIST_KEY,
+  NAV_THRESHOLDS,
+  DEFAULT_FLICK_SKIP,
 } from "./constants";
+
+// Transitions
+export {
+  createTransitionPreset,
+  resolveTransition,
+} from "./utils/transitions";
+
+// Scroll hints (blocked navigation messages)
+export {
+  DEFAULT_HINT_MESSAGES,
+  getScrollHintKind,
+  getScrollHintMessage,
+} from "./utils/scrollHint";
+export type { ScrollHintKind, ScrollHintMessages } from "./utils/scrollHint";
+
+// URL sync (serializers + router adapter)
+export {
+  createHashSerializer,
+  createPathSerializer,
+  createQuerySerializer,
+  createBrowserUrlAdapter,
+} from "./utils/urlSync";
+export type {
+  HashSerializerOptions,
+  PathSerializerOptions,
+  QuerySerializerOptions,
+} from "./utils/urlSync";
+
+// Animation controller
+export { createAnimationController } from "./utils/animationController";
+
+// Spring physics
+export {
+  DEFAULT_SPRING,
+  resolveSpring,
+  stepSpring,
+  isSpringSettled,
+  rubberBand,
+} from "./utils/spring";
+export type { SpringState } from "./utils/spring";
+export type {
+  AnimationController,
+  AnimationControllerOptions,
+  AnimationFrame,
+} from "./utils/animationController";
@@ -16,38 +16,155 @@ import type {
   ScrollCapability,
   NavigationState,
   UserIntention,
+  UserDirection,
+  LayoutDirection,
+  NavigationResult,
+  NavigationRejectionReason,
+  NavigationGuards,
+  NavigationOrigin,
+  FlickSkipConfig,
+  GridPosition,
+  LockDirection,
+  ScrollLockHolder,
+  ViewLockSource,
+  ViewDirectionLocks,
+  ViewLockReason,
+  ReadRequirement,
+  NavigationHistoryEntry,
 } from "../types";
-import { NAVIGATION_COOLDOWN } from "../constants";
+import {
+  DEFAULT_FLICK_SKIP,
+  DEFAULT_HISTORY_LIMIT,
+  DEFAULT_SCROLL_END_HYSTERESIS,
+  DEFAULT_SCROLL_END_THRESHOLD,
+  NAVIGATION_COOLDOWN,
+} from "../constants";
+import { getViewDocumentOrder, placeByOrder } from "../utils";
 
 // ============================================
 // State Machine (Formalized)
 // ============================================
 
-function evaluateStateMachine(
-  capability: ScrollCapability,
-  progress: number,
-  viewType: ViewConfig["type"],
-  explicitLock: NavigationState | null,
-  forceScrollLock?: boolean
-): NavigationState {
-  
-  if (explicitLock) return explicitLock;
-  
+type StateMachineInput = Pick<
+  ViewState,
+  | "type"
+  | "config"
+  | "capability"
+  | "progress"
+  | "metrics"
+  | "scrollEndReached"
+  | "explicitLock"
+  | "sourceLocks"
+  | "readRequirements"
+>;
+
+/**
+ * ¿El scroll interno llegó al final?
+ * Umbral en ratio (scrollEndThreshold) o en px desde el final (scrollEndOffset).
+ * Con histéresis: una vez alcanzado, solo se pierde al volver más de
+ * scrollEndHysteresis px, así el rebote de iOS no alterna el lock.
+ */
+function isScrollEndReached(
+  view: Pick<ViewState, "config" | "scrollEndReached">,
+  metrics: ViewMetrics
+): boolean {
+  const maxScroll = metrics.scrollHeight - metrics.clientHeight;
+  if (maxScroll <= 1) return true;
+
+  const config = view.config.type === "scroll-locked" ? view.config : undefined;
+  const threshold = config?.scrollEndThreshold ?? DEFAULT_SCROLL_END_THRESHOLD;
+  const hysteresis = config?.scrollEndHysteresis ?? DEFAULT_SCROLL_END_HYSTERESIS;
+  const scrollTop = metrics.scrollTop + (view.scrollEndReached ? hysteresis : 0);
+
+  if (config?.scrollEndOffset !== undefined) {
+    return maxScroll - scrollTop <= config.scrollEndOffset;
+  }
+  return scrollTop / maxScroll >= threshold;
+}
+
+/**
+ * ¿Falta llegar al final del scroll interno?
+ */
+function isScrollPending(view: StateMachineInput): boolean {
   // If forceScrollLock is true, ALWAYS lock. The user must manually handle unlocking (e.g. by setting prop to false)
-  if (forceScrollLock && viewType === "scroll-locked") {
-    return "locked";
+  if (view.config.type === "scroll-locked" && view.config.forceScrollLock) return true;
+
+  if (view.capability === "none") return false;
+  if (view.type === "full") return false;
+  if (view.type === "nested") return false; // Nested views handle scroll internally
+
+  // Threshold (0.99 by default) ensures user feels the "end" before unlocking
+  return !view.scrollEndReached;
+}
+
+/**
+ * Requisitos de lectura pendientes: scroll (métricas) + los que reporta la vista.
+ */
+function getContentRequirements(view: StateMachineInput): ReadRequirement[] {
+  return isScrollPending(view) ? ["scroll", ...view.readRequirements] : [...view.readRequirements];
+}
+
+/**
+ * ¿El contenido retiene la navegación hacia delante?
+ */
+function isContentLocked(view: StateMachineInput): boolean {
+  return getContentRequirements(view).length > 0;
+}
+
+/**
+ * Por qué la vista sigue bloqueada hacia delante (null si puede avanzar).
+ * Los locks explícitos y guards van primero: el usuario no los resuelve leyendo.
+ */
+export function getViewLockReason(view: ViewState): ViewLockReason | null {
+  const { forward } = view.locks;
+  if (forward.includes("explicit")) return "explicit";
+  if (forward.includes("guard")) return "guard";
+  if (forward.includes("content")) return getContentRequirements(view)[0] ?? "scroll";
+  return null;
+}
+
+/**
+ * Qué bloquea cada dirección de la vista y desde qué fuente.
+ * - content: scroll interno sin llegar al final (forward) o arriba (backward)
+ * - explicit: explicitLock y setViewLock; explicitLock "unlocked" anula el content forward
+ * - guard: allowGoBack={false} de las vistas controladas y setViewLock(..., "guard")
+ */
+function evaluateStateMachine(view: StateMachineInput): ViewDirectionLocks {
+  const forward: ViewLockSource[] = [];
+  const backward: ViewLockSource[] = [];
+
+  if (view.explicitLock === "locked") {
+    forward.push("explicit");
+    // Controlled: explicitLock es canProceed; volver depende de allowGoBack
+    if (view.type !== "controlled") backward.push("explicit");
+  } else if (view.explicitLock !== "unlocked" && isContentLocked(view)) {
+    forward.push("content");
   }
-  
-  if (capability === "none") return "unlocked";
-  if (viewType === "full") return "unlocked";
-  if (viewType === "nested") return "unlocked"; // Nested views handle scroll internally
-  
-  // Tolerance 0.99 ensures user feels the "end" before unlocking
-  if (progress >= 0.99) return "unlocked";
-  
-  return "locked";
+
+  if (view.capability === "internal" && view.metrics.scrollTop > 1) backward.push("content");
+  if (view.config.type === "controlled" && view.config.allowGoBack === false) backward.push("guard");
+
+  for (const source of ["explicit", "guard"] as const) {
+    for (const direction of view.sourceLocks[source] ?? []) {
+      const locks = direction === "forward" ? forward : backward;
+      if (!locks.includes(source)) locks.push(source);
+    }
+  }
+
+  return { forward, backward };
+}
+
+/**
+ * Re-evalúa los locks de la vista (y `navigation`, que refleja forward).
+ */
+function withLocks<T extends StateMachineInput>(view: T): T & Pick<ViewState, "locks" | "navigation"> {
+  const locks = evaluateStateMachine(view);
+  return { ...view, locks, navigation: locks.forward.length > 0 ? "locked" : "unlocked" };
 }
 
+function isSameLocks(a: ViewDirectionLocks, b: ViewDirectionLocks): boolean {
+  return a.forward.join() === b.forward.join() && a.backward.join() === b.backward.join();
+}
 
 function calculateCapability(metrics: ViewMetrics): ScrollCapability {
   if (metrics.scrollHeight - metrics.clientHeight <= 1) {
@@ -62,6 +179,268 @@ function calculateProgress(metrics: ViewMetrics): number {
   return Math.max(0, Math.min(1, metrics.scrollTop / maxScroll));
 }
 
+/**
+ * Vista registrada con el índice lógico `index`.
+ * En modo denso coincide con la posición en `views`; con virtualización
+ * solo están registradas las vistas montadas, así que se busca por índice.
+ */
+export function getViewAtIndex(views: ViewState[], index: number): ViewState | undefined {
+  const view = views[index];
+  if (view?.index === index) return view;
+  return views.find((v) => v.index === index);
+}
+
+/**
+ * Ordena las vistas: las que tienen `config.index` ocupan esa posición y el resto
+ * rellena los huecos por posición en el DOM; sin DOM se respeta el orden previo (sort estable).
+ */
+function sortViews(views: ViewState[]): ViewState[] {
+  const ranks = getViewDocumentOrder(views.map((v) => v.id));
+  const byDocument = [...views].sort((a, b) => {
+    const rankA = ranks.get(a.id) ?? Infinity;
+    const rankB = ranks.get(b.id) ?? Infinity;
+    return rankA === rankB ? 0 : rankA < rankB ? -1 : 1;
+  });
+  return placeByOrder(byDocument, (v) => v.config.index);
+}
+
+/**
+ * Recalcula los índices tras insertar/quitar/mover vistas.
+ * La vista activa se sigue por id (su índice puede cambiar); si ya no está, se acota el índice.
+ */
+function reindexViews(
+  state: ScrollSystemState,
+  ordered: ViewState[]
+): Pick<ScrollSystemState, "views" | "totalViews" | "activeIndex" | "activeId" | "activeColumn"> {
+  const tracked = state.isInitialized && state.activeId !== null
+    ? ordered.findIndex((v) => v.id === state.activeId)
+    : -1;
+  const activeIndex = tracked !== -1 ? tracked : Math.max(0, Math.min(state.activeIndex, ordered.length - 1));
+
+  const views = ordered.map((v, idx) =>
+    v.index === idx && v.isActive === (idx === activeIndex) ? v : { ...v, index: idx, isActive: idx === activeIndex }
+  );
+
+  return {
+    views,
+    totalViews: views.length,
+    activeIndex,
+    activeId: views[activeIndex]?.id ?? null,
+    activeColumn: views[activeIndex]?.activeColumn ?? 0,
+  };
+}
+
+// ============================================
+// Navigation Rules
+// ============================================
+
+interface NavigationDecision {
+  targetIndex: number;
+  /** Columna destino cuando la intención se mueve dentro de una fila del grid */
+  targetColumn?: number;
+  reason: NavigationRejectionReason | null;
+  /** Qué retuvo la vista (solo view-lock) */
+  lockSource?: ViewLockSource;
+}
+
+/**
+ * Número de columnas de una vista (1 = vista normal, >1 = fila del grid).
+ */
+export function getColumnCount(view: ViewState | undefined): number {
+  return Math.max(1, view?.config.columns ?? 1);
+}
+
+/**
+ * ¿La dirección avanza hacia la siguiente vista?
+ * down siempre; en horizontal right (LTR) o left (RTL).
+ */
+function isForwardDirection(direction: UserDirection, layoutDirection: LayoutDirection): boolean {
+  if (direction === "left" || direction === "right") {
+    return (direction === "right") === (layoutDirection === "ltr");
+  }
+  return direction === "down";
+}
+
+/**
+ * ¿Está bloqueada la navegación en esa dirección (lock global o de algún holder)?
+ */
+function isDirectionLocked(state: ScrollSystemState, direction: LockDirection): boolean {
+  return state.isGlobalLocked || state.lockHolders.some((h) => h.directions.includes(direction));
+}
+
+/** Identifica el holder de un owner para unas direcciones (el orden no importa) */
+function getLockKey(ownerId: string, directions: LockDirection[]): string {
+  return `${ownerId}|${[...new Set(directions)].sort().join("+")}`;
+}
+
+/** Deshace una adquisición del holder `id` (lo quita al llegar a 0) */
+function decrementHolder(lockHolders: ScrollLockHolder[], id: number): ScrollLockHolder[] {
+  return lockHolders.flatMap((h) => {
+    if (h.id !== id) return [h];
+    return h.count > 1 ? [{ ...h, count: h.count - 1 }] : [];
+  });
+}
+
+/**
+ * Estado de lock derivado de los holders activos.
+ * isGlobalLocked solo cuando ambas direcciones quedan bloqueadas.
+ */
+function deriveLockState(lockHolders: ScrollLockHolder[]) {
+  const forward = lockHolders.some((h) => h.directions.includes("forward"));
+  const backward = lockHolders.some((h) => h.directions.includes("backward"));
+  return { lockHolders, isGlobalLocked: forward && backward };
+}
+
+/**
+ * ¿Detiene esta vista un salto de varias vistas?
+ * Las vistas controladas o bloqueadas no se pueden saltar.
+ */
+function stopsFlick(view: ViewState): boolean {
+  return (
+    view.type === "controlled" ||
+    view.locks.forward.length > 0 ||
+    view.locks.backward.some((source) => source !== "content")
+  );
+}
+
+/**
+ * Cuántas vistas avanza una intención según su velocidad (1 sin flickSkip).
+ */
+function getFlickDistance(state: ScrollSystemState, intention: UserIntention): number {
+  const config = state.flickSkip;
+  if (!config || intention.velocity === undefined || intention.strength < config.minStrength) return 1;
+
+  const distance = Math.ceil(Math.abs(intention.velocity) / config.velocityPerView);
+  return Math.max(1, Math.min(config.maxViews, distance));
+}
+
+/**
+ * Extiende el salto de una vista hasta `distance` vistas.
+ * Se detiene en la primera vista bloqueada/controlada y en los extremos (sin wrap).
+ */
+function extendFlick(state: ScrollSystemState, step: 1 | -1, distance: number): number {
+  let target = state.activeIndex + step;
+
+  for (let i = 1; i < distance; i++) {
+    const view = getViewAtIndex(state.views, target);
+    if (view && stopsFlick(view)) break;
+
+    const next = target + step;
+    if (next < 0 || next >= state.totalViews) break;
+    target = next;
+  }
+  return target;
+}
+
+/**
+ * Traduce una intención en un índice destino o en un motivo de rechazo.
+ */
+function evaluateIntention(state: ScrollSystemState, intention: UserIntention): NavigationDecision {
+  const reject = (reason: NavigationRejectionReason, lockSource?: ViewLockSource): NavigationDecision =>
+    ({ targetIndex: -1, reason, lockSource });
+
+  if (state.isGuardPending) return reject("transitioning");
+  if (state.isTransitioning && !state.isInterruptible) return reject("transitioning");
+  if (state.isGlobalLocked) return reject("global-lock");
+
+  const activeView = getViewAtIndex(state.views, state.activeIndex);
+  if (!activeView) return reject("not-found");
+  if (intention.type !== "navigate") return reject("unsupported");
+
+  const isForward = isForwardDirection(intention.direction, state.layoutDirection);
+  if (isDirectionLocked(state, isForward ? "forward" : "backward")) return reject("global-lock");
+
+  // Grid: left/right se mueven entre las columnas de la fila activa
+  const isColumnIntention = intention.direction === "left" || intention.direction === "right";
+  if (isColumnIntention && getColumnCount(activeView) > 1) {
+    const targetColumn = activeView.activeColumn + (isForward ? 1 : -1);
+    if (targetColumn < 0 || targetColumn >= getColumnCount(activeView)) return reject("boundary");
+    return { targetIndex: state.activeIndex, targetColumn, reason: null };
+  }
+
+  if (isForward) {
+    if (activeView.locks.forward.length > 0) return reject("view-lock", activeView.locks.forward[0]);
+
+    // Handle infinite scroll
+    if (state.activeIndex >= state.totalViews - 1) {
+      if (state.isLoadingMore) return reject("loading");
+      // El wrap con una sola vista volvería a la actual: no es una navegación
+      return state.infiniteScrollEnabled && state.totalViews > 1 ? { targetIndex: 0, reason: null } : reject("boundary");
+    }
+    return { targetIndex: extendFlick(state, 1, getFlickDistance(state, intention)), reason: null };
+  }
+
+  // Internal scroll is vertical: the content only holds "up" until the top is reached
+  const backwardLocks = activeView.locks.backward.filter(
+    (source) => source !== "content" || intention.direction === "up"
+  );
+  if (backwardLocks.length > 0) return reject("view-lock", backwardLocks[0]);
+
+  // Handle infinite scroll backward
+  if (state.activeIndex <= 0) {
+    return state.infiniteScrollEnabled && state.totalViews > 1
+      ? { targetIndex: state.totalViews - 1, reason: null }
+      : reject("boundary");
+  }
+  return { targetIndex: extendFlick(state, -1, getFlickDistance(state, intention)), reason: null };
+}
+
+/**
+ * Resuelve índice o id a un índice (con wrap si hay infinite scroll).
+ * Retorna -1 si el id no existe.
+ */
+function resolveTargetIndex(state: ScrollSystemState, indexOrId: number | string | GridPosition): number {
+  if (typeof indexOrId === "object") return resolveTargetIndex(state, indexOrId.row);
+  if (typeof indexOrId === "string") {
+    return state.views.find((v) => v.id === indexOrId)?.index ?? -1;
+  }
+
+  // Handle infinite scroll wrap
+  if (state.infiniteScrollEnabled && state.totalViews > 0) {
+    if (indexOrId < 0) return state.totalViews - 1;
+    if (indexOrId >= state.totalViews) return 0;
+  }
+  return indexOrId;
+}
+
+/**
+ * Añade una entrada al historial. Descarta las entradas "forward" (como un navegador)
+ * y las más antiguas por encima de DEFAULT_HISTORY_LIMIT.
+ */
+function pushHistoryEntry(
+  state: Pick<ScrollSystemState, "history" | "historyIndex">,
+  entry: NavigationHistoryEntry
+): Pick<ScrollSystemState, "history" | "historyIndex"> {
+  const history = [...state.history.slice(0, state.historyIndex + 1), entry].slice(-DEFAULT_HISTORY_LIMIT);
+  return { history, historyIndex: history.length - 1 };
+}
+
+type GuardCheck = () => boolean | Promise<boolean>;
+
+/**
+ * Ejecuta los guards en orden y se detiene en el primero que rechaza.
+ * Permanece síncrono mientras ningún guard devuelva una promesa.
+ * Un guard que lanza (o cuya promesa falla) cuenta como rechazo.
+ */
+function runGuardChain(checks: GuardCheck[], index = 0): boolean | Promise<boolean> {
+  if (index >= checks.length) return true;
+
+  let result: boolean | Promise<boolean>;
+  try {
+    result = checks[index]();
+  } catch {
+    return false;
+  }
+
+  if (typeof result === "boolean") {
+    return result ? runGuardChain(checks, index + 1) : false;
+  }
+  return Promise.resolve(result).then(
+    (allowed) => (allowed ? runGuardChain(checks, index + 1) : false),
+    () => false
+  );
+}
+
 // ============================================
 // Store Implementation
 // ============================================
@@ -83,359 +462,812 @@ const initialState: ScrollSystemState = {
   infiniteScrollEnabled: false,
   // NEW: Last navigation direction
   lastNavigationDirection: null,
+  // NEW: Async navigation guards
+  isGuardPending: false,
+  // NEW: Virtualization
+  virtualCount: null,
+  // NEW: Feed loading
+  isLoadingMore: false,
+  // NEW: Animation controller
+  transitionProgress: 1,
+  visualPosition: 0,
+  isInterruptible: false,
+  // NEW: Flick skip
+  flickSkip: null,
+  // NEW: RTL
+  layoutDirection: "ltr",
+  // NEW: Grid
+  activeColumn: 0,
+  // NEW: Scroll locks
+  lockHolders: [],
+  // NEW: Blocked navigation feedback
+  lastBlockedNavigation: null,
+  // NEW: History
+  history: [],
+  historyIndex: -1,
 };
 
-let lastNavigationTime = 0;
+// Rechazos que se comunican al usuario (el resto son internos: transición, cooldown...)
+const BLOCKED_FEEDBACK_REASONS: NavigationRejectionReason[] = ["view-lock", "global-lock", "boundary", "loading", "guard"];
 
-export const useScrollStore = create<ScrollSystemStore>()(
-  subscribeWithSelector((set, get) => ({
-    ...initialState,
+/**
+ * Crea una instancia independiente del store.
+ * Cada instancia tiene su propio estado y cooldown de navegación, lo que
+ * permite varios ScrollContainer en la misma página (vía ScrollSystemProvider).
+ */
+export function createScrollStore() {
+  let lastNavigationTime = 0;
 
-    initialize: () => {
-      const { views } = get();
-      if (views.length > 0) {
-        set({
-          isInitialized: true,
-          activeId: views[0]?.id ?? null,
-          activeIndex: 0,
-        });
-      }
-    },
-
-    registerView: (config: ViewConfig) => {
-      set((state) => {
-        if (state.views.some((v) => v.id === config.id)) return state;
-
-        const newIndex = state.views.length;
-        const newView: ViewState = {
-          id: config.id,
-          index: newIndex,
-          type: config.type,
-          isActive: newIndex === 0,
-          isPreloaded: newIndex <= 1, // Preload first 2 views by default
-          capability: "none",
-          navigation: "unlocked",
-          explicitLock: null,
-          progress: 0,
-          metrics: { scrollHeight: 0, clientHeight: 0, scrollTop: 0 },
-          config,
-          activeSnapPointId: null,
-        };
+  // Navegación programática esperando a que termine su transición
+  let pendingNavigation: {
+    fromIndex: number;
+    toIndex: number;
+    resolve: (result: NavigationResult) => void;
+  } | null = null;
 
-        const newViews = [...state.views, newView];
+  // Guards por vista (funciones, por eso viven fuera del estado)
+  const guards = new Map<string, NavigationGuards>();
 
-        return {
-          views: newViews,
-          totalViews: newViews.length,
-          activeId: state.activeId ?? newView.id,
-        };
+  // Id de cada adquisición de lock
+  let lastLockId = 0;
+
+  // Último rechazo reportado (los rechazos repetidos se agrupan)
+  let lastBlockedTime = 0;
+
+  return create<ScrollSystemStore>()(
+    subscribeWithSelector((set, get) => {
+    const consumeCooldown = (): boolean => {
+      const now = Date.now();
+      if (now - lastNavigationTime < NAVIGATION_COOLDOWN) return false;
+      lastNavigationTime = now;
+      return true;
+    };
+
+    const settlePendingNavigation = (reason: NavigationRejectionReason | null) => {
+      if (!pendingNavigation) return;
+      const { fromIndex, toIndex, resolve } = pendingNavigation;
+      pendingNavigation = null;
+      resolve({ status: reason ? "rejected" : "completed", reason, fromIndex, toIndex });
+    };
+
+    // Publica el rechazo de una intención para feedback (callbacks, nudge, hints).
+    // Máximo uno por cooldown: una rueda contra un lock no debe repetirlo en cada evento.
+    const reportBlocked = (intention: UserIntention, reason: NavigationRejectionReason, lockSource?: ViewLockSource) => {
+      if (!BLOCKED_FEEDBACK_REASONS.includes(reason)) return;
+      const now = Date.now();
+      if (now - lastBlockedTime < NAVIGATION_COOLDOWN) return;
+      lastBlockedTime = now;
+
+      const state = get();
+      const isForward = isForwardDirection(intention.direction, state.layoutDirection);
+      set({
+        lastBlockedNavigation: {
+          reason,
+          direction: intention.direction,
+          lockDirection: isForward ? "forward" : "backward",
+          origin: intention.origin,
+          viewId: state.activeId,
+          lockSource,
+          timestamp: now,
+        },
       });
-    },
+    };
+
+    // Aplica el cambio de vista activa (ya validado).
+    // `column` fija la columna de la fila destino (goTo({ row, col })).
+    // `historyIndex` mueve el puntero del historial (back/forward) en vez de añadir una entrada.
+    const commitNavigation = (targetIndex: number, column?: number, historyIndex?: number) => {
+      settlePendingNavigation("interrupted");
+
+      set((s) => {
+        // Determine navigation direction
+        const navigationDirection = targetIndex > s.activeIndex ? "down" : "up";
 
-    unregisterView: (id: string) => {
-      set((state) => {
-        const newViews = state.views
-          .filter((v) => v.id !== id)
-          .map((v, idx) => ({ ...v, index: idx }));
+        // Update preload status for adjacent views
+        const newViews = s.views.map((v) => {
+          const isAdjacent = Math.abs(v.index - targetIndex) <= 1 ||
+            (s.infiniteScrollEnabled && (
+              (targetIndex === 0 && v.index === s.totalViews - 1) ||
+              (targetIndex === s.totalViews - 1 && v.index === 0)
+            ));
 
-        const newActiveIndex = Math.min(state.activeIndex, newViews.length - 1);
+          return {
+            ...v,
+            isActive: v.index === targetIndex,
+            isPreloaded: isAdjacent || v.index === targetIndex,
+            activeColumn: v.index === targetIndex && column !== undefined ? column : v.activeColumn,
+          };
+        });
+        const targetView = getViewAtIndex(newViews, targetIndex);
+        const activeColumn = targetView?.activeColumn ?? 0;
 
         return {
+          ...s,
+          isTransitioning: true,
+          transitionProgress: 0,
+          lastBlockedNavigation: null,
+          activeIndex: targetIndex,
+          activeId: targetView?.id ?? null,
+          activeColumn,
           views: newViews,
-          totalViews: newViews.length,
-          activeIndex: Math.max(0, newActiveIndex),
-          activeId: newViews[newActiveIndex]?.id ?? null,
+          lastNavigationDirection: navigationDirection,
+          ...(historyIndex !== undefined
+            ? { historyIndex }
+            : pushHistoryEntry(s, { viewId: targetView?.id ?? null, index: targetIndex, column: activeColumn })),
         };
       });
-    },
-    
-    updateViewConfig: (id: string, config: Partial<ViewConfig>) => {
-      set((state) => {
-        const index = state.views.findIndex(v => v.id === id);
-        if (index === -1) return state;
-
-        const view = state.views[index];
-        const newConfig = { ...view.config, ...config } as ViewConfig; // Type assertion
-
-        // Re-evaluate state machine with new config
-        // Extract forceScrollLock from NEW config if it's a scroll-locked view
-        const forceScrollLock = newConfig.type === "scroll-locked" 
-          ? (newConfig as import("../types").ScrollLockedViewConfig).forceScrollLock 
-          : undefined;
-
-        const navigation = evaluateStateMachine(view.capability, view.progress, newConfig.type, view.explicitLock, forceScrollLock);
-
-        const newViews = [...state.views];
-        newViews[index] = {
-          ...view,
-          config: newConfig,
-          navigation // Update navigation state based on new config
-        };
+    };
 
-        return { views: newViews };
+    // Cambia de columna dentro de la fila activa (ya validado).
+    // Sin guards ni transición del store: la fila no se abandona.
+    const commitColumn = (column: number, historyIndex?: number) => {
+      set((s) => {
+        const view = getViewAtIndex(s.views, s.activeIndex);
+        if (!view || view.activeColumn === column) return s;
+
+        return {
+          views: s.views.map((v) => (v === view ? { ...v, activeColumn: column } : v)),
+          activeColumn: column,
+          ...(historyIndex !== undefined
+            ? { historyIndex }
+            : pushHistoryEntry(s, { viewId: view.id, index: view.index, column })),
+        };
       });
-    },
+    };
 
-    updateViewMetrics: (id: string, metrics: ViewMetrics) => {
-      set((state) => {
-        const viewIndex = state.views.findIndex(v => v.id === id);
-        if (viewIndex === -1) return state;
+    // beforeLeave de la vista actual, luego beforeEnter del destino
+    const runGuards = (
+      fromIndex: number,
+      targetIndex: number,
+      direction: "up" | "down",
+      origin: NavigationOrigin
+    ): boolean | Promise<boolean> => {
+      const { views } = get();
+      const from = getViewAtIndex(views, fromIndex);
+      const target = getViewAtIndex(views, targetIndex);
+      if (!from || !target) return true;
 
-        const view = state.views[viewIndex];
-        
-        // Extract forceScrollLock from config if it's a scroll-locked view
-        const forceScrollLock = view.config.type === "scroll-locked" 
-          ? (view.config as import("../types").ScrollLockedViewConfig).forceScrollLock 
-          : undefined;
-        
-        const capability = calculateCapability(metrics);
-        const progress = calculateProgress(metrics);
-        const navigation = evaluateStateMachine(capability, progress, view.type, view.explicitLock, forceScrollLock);
+      const leaving = guards.get(from.id);
+      const entering = guards.get(target.id);
+      const checks: GuardCheck[] = [];
 
-        
+      if (leaving?.beforeLeave && !leaving.skipGuardsFor?.includes(origin)) {
+        const { beforeLeave } = leaving;
+        checks.push(() => beforeLeave(direction, target));
+      }
+      if (entering?.beforeEnter && !entering.skipGuardsFor?.includes(origin)) {
+        const { beforeEnter } = entering;
+        checks.push(() => beforeEnter(from));
+      }
+
+      return runGuardChain(checks);
+    };
+
+    /**
+     * Ejecuta los guards y, si lo permiten, aplica la navegación.
+     * Retorna el motivo de rechazo (null si navegó); es una promesa solo
+     * cuando algún guard es asíncrono.
+     */
+    const requestNavigation = (
+      targetIndex: number,
+      direction: "up" | "down",
+      origin: NavigationOrigin,
+      column?: number,
+      historyIndex?: number
+    ): NavigationRejectionReason | null | Promise<NavigationRejectionReason | null> => {
+      const fromIndex = get().activeIndex;
+      // Sin cambio de vista no hay transición que termine (endTransition nunca llegaría)
+      if (targetIndex === fromIndex) return "boundary";
+
+      const allowed = runGuards(fromIndex, targetIndex, direction, origin);
+
+      if (allowed === true) {
+        commitNavigation(targetIndex, column, historyIndex);
+        return null;
+      }
+      if (allowed === false) return "guard";
+
+      set({ isGuardPending: true });
+      return allowed.then((ok) => {
+        set({ isGuardPending: false });
+        if (!ok) return "guard";
+
+        // El estado cambió mientras el guard decidía
+        const state = get();
         if (
-          view.capability === capability &&
-          Math.abs(view.progress - progress) < 0.0001 &&
-          view.navigation === navigation
+          state.activeIndex !== fromIndex ||
+          (state.isTransitioning && !state.isInterruptible) ||
+          isDirectionLocked(state, direction === "down" ? "forward" : "backward") ||
+          targetIndex >= state.totalViews
         ) {
-          return state;
+          return "interrupted";
         }
 
-        const newViews = [...state.views];
-        newViews[viewIndex] = {
-          ...view,
-          metrics,
-          capability,
-          progress,
-          navigation,
-        };
+        commitNavigation(targetIndex, column, historyIndex);
+        return null;
+      });
+    };
 
-        // Calculate global progress
-        const activeView = newViews[state.activeIndex];
-        const viewProgress = activeView?.progress ?? 0;
-        const globalProgress = (state.activeIndex + viewProgress) / state.totalViews;
+    // Navegación que respeta locks y se resuelve al terminar la transición.
+    // `historyIndex`: viene de back/forward (mueve el puntero en vez de añadir una entrada).
+    const navigate = (target: number | string | GridPosition, historyIndex?: number): Promise<NavigationResult> => {
+      const state = get();
+      const fromIndex = state.activeIndex;
+      const targetIndex = resolveTargetIndex(state, target);
+      const column = typeof target === "object" ? target.col : undefined;
 
-        return { views: newViews, globalProgress };
-      });
-    },
+      const settle = (reason: NavigationRejectionReason | null) =>
+        Promise.resolve<NavigationResult>({
+          status: reason ? "rejected" : "completed",
+          reason,
+          fromIndex,
+          toIndex: targetIndex,
+        });
 
-    processIntention: (intention: UserIntention): boolean => {
+      if (targetIndex < 0 || targetIndex >= state.totalViews) {
+        const row = typeof target === "object" ? target.row : target;
+        if (typeof row === "string") return settle("not-found");
+        return settle(state.isLoadingMore && targetIndex >= state.totalViews ? "loading" : "boundary");
+      }
+      if (column !== undefined && (column < 0 || column >= getColumnCount(getViewAtIndex(state.views, targetIndex)))) {
+        return settle("boundary");
+      }
+      if (state.isGuardPending) return settle("transitioning");
+      if (state.isTransitioning && !state.isInterruptible) return settle("transitioning");
+      if (state.isGlobalLocked) return settle("global-lock");
+      if (targetIndex !== fromIndex && isDirectionLocked(state, targetIndex > fromIndex ? "forward" : "backward")) {
+        return settle("global-lock");
+      }
+      if (targetIndex === fromIndex) {
+        // Misma fila: solo cambia la columna (sin transición del store)
+        if (column === undefined || column === state.activeColumn) {
+          if (historyIndex !== undefined) set({ historyIndex });
+          return settle(null);
+        }
+        if (!consumeCooldown()) return settle("cooldown");
+        commitColumn(column, historyIndex);
+        return settle(null);
+      }
+
+      // Programmatic jumps respect explicit and guard locks, not content progress
+      const activeView = getViewAtIndex(state.views, fromIndex);
+      if (activeView) {
+        const locks = activeView.locks[targetIndex > fromIndex ? "forward" : "backward"];
+        if (locks.some((source) => source !== "content")) return settle("view-lock");
+      }
+
+      if (!consumeCooldown()) return settle("cooldown");
+
+      // Espera a endTransition para resolver como completada
+      const awaitTransition = (reason: NavigationRejectionReason | null) => {
+        if (reason) return settle(reason);
+        return new Promise<NavigationResult>((resolve) => {
+          pendingNavigation = { fromIndex, toIndex: targetIndex, resolve };
+        });
+      };
+
+      const outcome = requestNavigation(
+        targetIndex,
+        targetIndex > fromIndex ? "down" : "up",
+        "programmatic",
+        column,
+        historyIndex
+      );
+      return outcome instanceof Promise ? outcome.then(awaitTransition) : awaitTransition(outcome);
+    };
+
+    // back (-1) / forward (1): navega a la entrada vecina del historial
+    const navigateHistory = (step: -1 | 1): Promise<NavigationResult> => {
       const state = get();
-      
-      if (state.isTransitioning || state.isGlobalLocked) return false;
-      
-      const activeView = state.views[state.activeIndex];
-      if (!activeView) return false;
-
-      if (intention.type === "navigate") {
-         if (intention.direction === "down") {
-             if (activeView.navigation === "locked") return false;
-             
-             // Handle infinite scroll
-             if (state.activeIndex >= state.totalViews - 1) {
-               if (state.infiniteScrollEnabled) {
-                 get().goToView(0);
-                 return true;
-               }
-               return false;
-             }
-             
-             get().goToView(state.activeIndex + 1);
-             return true;
-         } else if (intention.direction === "up") {
-             const isAtTop = activeView.metrics.scrollTop <= 1;
-
-             if (activeView.capability === "internal" && !isAtTop) {
-                 return false;
-             }
-             
-             if (activeView.type === "controlled") {
-                 const config = activeView.config as import("../types").ControlledViewConfig;
-                 if (config.allowGoBack === false) {
-                    return false;
-                 }
-             } else {
-                 if (activeView.explicitLock === "locked") return false; 
-             }
-             
-             // Handle infinite scroll backward
-             if (state.activeIndex <= 0) {
-               if (state.infiniteScrollEnabled) {
-                 get().goToView(state.totalViews - 1);
-                 return true;
-               }
-               return false;
-             }
-
-             get().goToView(state.activeIndex - 1);
-             return true;
-         }
+      const historyIndex = state.historyIndex + step;
+      const entry = state.history[historyIndex];
+      if (!entry) {
+        return Promise.resolve<NavigationResult>({
+          status: "rejected",
+          reason: "boundary",
+          fromIndex: state.activeIndex,
+          toIndex: -1,
+        });
       }
 
-      return false;
-    },
+      // Por id (la vista pudo moverse); virtualizado, las vistas desmontadas por índice lógico
+      const view = state.views.find((v) => v.id === entry.viewId);
+      const row = view?.index ?? (entry.viewId === null || state.virtualCount !== null ? entry.index : entry.viewId);
+      return navigate({ row, col: entry.column }, historyIndex);
+    };
 
-    goToNext: () => {
+    return {
+      ...initialState,
+
+      initialize: (target?: number | string | GridPosition) => {
         const state = get();
-        const nextIndex = state.infiniteScrollEnabled && state.activeIndex >= state.totalViews - 1
-          ? 0
-          : state.activeIndex + 1;
-        state.goToView(nextIndex);
-    },
+        const { views } = state;
+        if (views.length === 0) return;
+
+        // Restored/initial position: lands directly (no transition); unknown targets fall back to 0
+        const resolved = target === undefined ? 0 : resolveTargetIndex(state, target);
+        const index = resolved >= 0 && resolved < state.totalViews ? resolved : 0;
+        const view = getViewAtIndex(views, index);
+        const requestedColumn = typeof target === "object" && index === resolved ? target.col : undefined;
+        const column = requestedColumn !== undefined && requestedColumn >= 0 && requestedColumn < getColumnCount(view)
+          ? requestedColumn
+          : view?.activeColumn ?? 0;
+
+        set({
+          isInitialized: true,
+          activeId: view?.id ?? null,
+          activeIndex: index,
+          // Lands without animation
+          visualPosition: index,
+          activeColumn: column,
+          views: views.map((v) => ({
+            ...v,
+            isActive: v.index === index,
+            isPreloaded: v.isPreloaded || Math.abs(v.index - index) <= 1,
+            activeColumn: v === view ? column : v.activeColumn,
+          })),
+          history: [{ viewId: view?.id ?? null, index, column }],
+          historyIndex: 0,
+        });
+      },
+
+      registerView: (config: ViewConfig) => {
+        set((state) => {
+          if (state.views.some((v) => v.id === config.id)) return state;
+
+          // Virtualizado: el índice lógico viene del config (posición en el feed)
+          const isVirtual = state.virtualCount !== null;
+          const newIndex = isVirtual && config.index !== undefined ? config.index : state.views.length;
+          const newView: ViewState = withLocks({
+            id: config.id,
+            index: newIndex,
+            type: config.type,
+            isActive: newIndex === state.activeIndex,
+            isPreloaded: Math.abs(newIndex - state.activeIndex) <= 1, // Preload neighbours by default
+            capability: "none",
+            navigation: "unlocked",
+            explicitLock: null,
+            locks: { forward: [], backward: [] },
+            sourceLocks: {},
+            readRequirements: [],
+            progress: 0,
+            metrics: { scrollHeight: 0, clientHeight: 0, scrollTop: 0 },
+            scrollEndReached: true,
+            config,
+            activeSnapPointId: null,
+            activeColumn: 0,
+            activeNestedIndex: config.type === "nested" ? config.nestedConfig.activeItem ?? 0 : 0,
+          });
+
+          if (isVirtual) {
+            const newViews = [...state.views, newView].sort((a, b) => a.index - b.index);
+            return {
+              views: newViews,
+              activeId: newIndex === state.activeIndex ? newView.id : state.activeId,
+            };
+          }
+
+          // Orden explícito (config.index) o posición en el DOM, no orden de montaje
+          const next = reindexViews(state, sortViews([...state.views, newView]));
+          return {
+            ...next,
+            views: next.views.map((v) =>
+              v.id === newView.id ? { ...v, isPreloaded: Math.abs(v.index - next.activeIndex) <= 1 } : v
+            ),
+          };
+        });
+      },
+
+      unregisterView: (id: string) => {
+        set((state) => {
+          // Virtualizado: los índices lógicos no cambian al desmontar
+          if (state.virtualCount !== null) {
+            return {
+              views: state.views.filter((v) => v.id !== id),
+              activeId: state.activeId === id ? null : state.activeId,
+            };
+          }
+
+          if (!state.views.some((v) => v.id === id)) return state;
+          return reindexViews(state, state.views.filter((v) => v.id !== id));
+        });
+      },
+    
+      updateViewConfig: (id: string, config: Partial<ViewConfig>) => {
+        set((state) => {
+          const index = state.views.findIndex(v => v.id === id);
+          if (index === -1) return state;
 
-    goToPrevious: () => {
+          const view = state.views[index];
+          const newConfig = { ...view.config, ...config } as ViewConfig; // Type assertion
+
+          // Grid: la fila puede perder columnas
+          const activeColumn = Math.min(view.activeColumn, Math.max(1, newConfig.columns ?? 1) - 1);
+
+          // Re-evaluate state machine with new config (forceScrollLock, allowGoBack, thresholds)
+          const updated = withLocks({
+            ...view,
+            config: newConfig,
+            activeColumn,
+            scrollEndReached: isScrollEndReached({ ...view, config: newConfig }, view.metrics),
+          });
+
+          // Nuevo orden explícito: se recoloca la vista
+          if (state.virtualCount === null && newConfig.index !== view.config.index) {
+            return reindexViews(state, sortViews(state.views.map((v) => (v.id === id ? updated : v))));
+          }
+
+          const newViews = [...state.views];
+          newViews[index] = updated;
+
+          return {
+            views: newViews,
+            activeColumn: view.index === state.activeIndex ? activeColumn : state.activeColumn,
+          };
+        });
+      },
+
+      updateViewMetrics: (id: string, metrics: ViewMetrics) => {
+        set((state) => {
+          const viewIndex = state.views.findIndex(v => v.id === id);
+          if (viewIndex === -1) return state;
+
+          const view = state.views[viewIndex];
+          const updated = withLocks({
+            ...view,
+            metrics,
+            capability: calculateCapability(metrics),
+            progress: calculateProgress(metrics),
+            scrollEndReached: isScrollEndReached(view, metrics),
+          });
+
+          if (
+            view.capability === updated.capability &&
+            view.scrollEndReached === updated.scrollEndReached &&
+            Math.abs(view.progress - updated.progress) < 0.0001 &&
+            isSameLocks(view.locks, updated.locks)
+          ) {
+            return state;
+          }
+
+          const newViews = [...state.views];
+          newViews[viewIndex] = updated;
+
+          // Calculate global progress
+          const activeView = getViewAtIndex(newViews, state.activeIndex);
+          const viewProgress = activeView?.progress ?? 0;
+          const globalProgress = (state.activeIndex + viewProgress) / state.totalViews;
+
+          return { views: newViews, globalProgress };
+        });
+      },
+
+      processIntention: (intention: UserIntention): boolean => {
+        const { targetIndex, targetColumn, reason, lockSource } = evaluateIntention(get(), intention);
+        if (reason) {
+          reportBlocked(intention, reason, lockSource);
+          return false;
+        }
+
+        if (targetColumn !== undefined) {
+          if (consumeCooldown()) commitColumn(targetColumn);
+          return true;
+        }
+
+        if (consumeCooldown()) {
+          const isForward = isForwardDirection(intention.direction, get().layoutDirection);
+          const outcome = requestNavigation(targetIndex, isForward ? "down" : "up", intention.origin);
+          const onGuard = (result: NavigationRejectionReason | null) => {
+            if (result === "guard") reportBlocked(intention, result);
+          };
+          if (outcome instanceof Promise) outcome.then(onGuard);
+          else onGuard(outcome);
+        }
+        return true;
+      },
+
+      goToNext: () => {
+          const state = get();
+          const nextIndex = state.infiniteScrollEnabled && !state.isLoadingMore && state.activeIndex >= state.totalViews - 1
+            ? 0
+            : state.activeIndex + 1;
+          state.goToView(nextIndex);
+      },
+
+      goToPrevious: () => {
+          const state = get();
+          const prevIndex = state.infiniteScrollEnabled && state.activeIndex <= 0
+            ? state.totalViews - 1
+            : state.activeIndex - 1;
+          state.goToView(prevIndex);
+      },
+
+      goToView: (target: number | string | GridPosition, origin: NavigationOrigin = "programmatic") => {
         const state = get();
-        const prevIndex = state.infiniteScrollEnabled && state.activeIndex <= 0
-          ? state.totalViews - 1
-          : state.activeIndex - 1;
-        state.goToView(prevIndex);
-    },
+        if (state.isGuardPending) return;
+        if (!consumeCooldown()) return;
 
-    goToView: (indexOrId: number | string) => {
-      const state = get();
-      const now = Date.now();
-      if (now - lastNavigationTime < NAVIGATION_COOLDOWN) return;
-      lastNavigationTime = now;
+        const targetIndex = resolveTargetIndex(state, target);
+        if (targetIndex < 0 || targetIndex >= state.totalViews) return;
 
-      let targetIndex = typeof indexOrId === "string" 
-        ? state.views.findIndex(v => v.id === indexOrId)
-        : indexOrId;
+        const column = typeof target === "object" ? target.col : undefined;
+        if (column !== undefined && (column < 0 || column >= getColumnCount(getViewAtIndex(state.views, targetIndex)))) {
+          return;
+        }
 
-      // Handle infinite scroll wrap
-      if (state.infiniteScrollEnabled) {
-        if (targetIndex < 0) targetIndex = state.totalViews - 1;
-        if (targetIndex >= state.totalViews) targetIndex = 0;
-      }
+        if (targetIndex === state.activeIndex) {
+          if (column !== undefined) commitColumn(column);
+          return;
+        }
 
-      if (targetIndex < 0 || targetIndex >= state.totalViews) return;
-      if (targetIndex === state.activeIndex) return;
+        requestNavigation(targetIndex, targetIndex > state.activeIndex ? "down" : "up", origin, column);
+      },
+
+      goToColumn: (column: number, origin: NavigationOrigin = "programmatic") => {
+        get().goToView({ row: get().activeIndex, col: column }, origin);
+      },
+
+      navigateTo: (target: number | string | GridPosition) => navigate(target),
+
+      back: () => navigateHistory(-1),
+
+      forward: () => navigateHistory(1),
+
+      setLoadingMore: (loading: boolean) => set({ isLoadingMore: loading }),
+
+      setVirtualCount: (count: number | null) => {
+        set((state) => {
+          if (count === null) {
+            if (state.virtualCount === null) return state;
+            const views = state.views.map((v, idx) => ({ ...v, index: idx }));
+            const activeIndex = Math.max(0, Math.min(state.activeIndex, views.length - 1));
+            return {
+              virtualCount: null,
+              views,
+              totalViews: views.length,
+              activeIndex,
+              activeId: views[activeIndex]?.id ?? null,
+              activeColumn: views[activeIndex]?.activeColumn ?? 0,
+            };
+          }
+
+          // Re-indexar vistas registradas antes de activar la virtualización
+          const views = state.views
+            .map((v) => ({ ...v, index: v.config.index ?? v.index }))
+            .sort((a, b) => a.index - b.index);
+          const activeIndex = Math.max(0, Math.min(state.activeIndex, count - 1));
 
-      set((s) => {
-        // Determine navigation direction
-        const navigationDirection = targetIndex > s.activeIndex ? "down" : "up";
-        
-        // Update preload status for adjacent views
-        const newViews = s.views.map((v, idx) => {
-          const isAdjacent = Math.abs(idx - targetIndex) <= 1 ||
-            (s.infiniteScrollEnabled && (
-              (targetIndex === 0 && idx === s.totalViews - 1) ||
-              (targetIndex === s.totalViews - 1 && idx === 0)
-            ));
-          
           return {
-            ...v,
-            isActive: idx === targetIndex,
-            isPreloaded: isAdjacent || idx === targetIndex,
+            virtualCount: count,
+            views,
+            totalViews: count,
+            activeIndex,
+            activeId: getViewAtIndex(views, activeIndex)?.id ?? null,
+            activeColumn: getViewAtIndex(views, activeIndex)?.activeColumn ?? 0,
           };
         });
+      },
 
-        return {
-          ...s,
-          isTransitioning: true,
-          activeIndex: targetIndex,
-          activeId: newViews[targetIndex]?.id ?? null,
-          views: newViews,
-          lastNavigationDirection: navigationDirection,
+      registerGuards: (id: string, viewGuards: NavigationGuards) => {
+        guards.set(id, viewGuards);
+        return () => {
+          // Solo borrar si nadie los reemplazó mientras tanto
+          if (guards.get(id) === viewGuards) guards.delete(id);
         };
-      });
-    },
+      },
 
-    setViewExplicitLock: (id: string, lock: NavigationState | null) => {
-        set((state) => {
-            const index = state.views.findIndex(v => v.id === id);
-            if (index === -1) return state;
+      setViewExplicitLock: (id: string, lock: NavigationState | null) => {
+          set((state) => {
+              const index = state.views.findIndex(v => v.id === id);
+              if (index === -1) return state;
             
-            const view = state.views[index];
+              const newViews = [...state.views];
+              newViews[index] = withLocks({ ...newViews[index], explicitLock: lock });
             
-            // Extract forceScrollLock from config if it's a scroll-locked view
-            const forceScrollLock = view.config.type === "scroll-locked" 
-              ? (view.config as import("../types").ScrollLockedViewConfig).forceScrollLock 
-              : undefined;
-            
-            const navigation = evaluateStateMachine(view.capability, view.progress, view.type, lock, forceScrollLock);
+              return { views: newViews };
+          });
+      },
 
-            
-            const newViews = [...state.views];
-            newViews[index] = { ...view, explicitLock: lock, navigation };
-            
-            return { views: newViews };
+      setViewReadRequirements: (id: string, requirements: Exclude<ReadRequirement, "scroll">[]) => {
+        set((state) => {
+          const index = state.views.findIndex(v => v.id === id);
+          if (index === -1) return state;
+
+          const view = state.views[index];
+          if (view.readRequirements.join() === requirements.join()) return state;
+
+          const newViews = [...state.views];
+          newViews[index] = withLocks({ ...view, readRequirements: requirements });
+
+          return { views: newViews };
         });
-    },
+      },
+
+      setViewLock: (id: string, directions: LockDirection[], source: "explicit" | "guard" = "explicit") => {
+        set((state) => {
+          const index = state.views.findIndex(v => v.id === id);
+          if (index === -1) return state;
+
+          const view = state.views[index];
+          const newViews = [...state.views];
+          newViews[index] = withLocks({
+            ...view,
+            sourceLocks: { ...view.sourceLocks, [source]: directions },
+          });
+
+          return { views: newViews };
+        });
+      },
+
+      // Legacy: booleano con owner "global" (true no apila; false lo quita entero)
+      setGlobalLock: (locked: boolean) => {
+        const state = get();
+        if (!locked) {
+          set((s) => deriveLockState(s.lockHolders.filter((h) => h.ownerId !== "global")));
+        } else if (!state.lockHolders.some((h) => h.ownerId === "global")) {
+          state.acquireLock("global", { reason: "setGlobalLock" });
+        }
+      },
+
+      acquireLock: (ownerId: string, options = {}) => {
+        const directions = options.directions ?? ["forward", "backward"];
+        const key = getLockKey(ownerId, directions);
+        let holderId = -1;
 
-    setGlobalLock: (locked: boolean) => set({ isGlobalLocked: locked }),
+        // Un holder por owner + direcciones; adquirirlo de nuevo lo apila (y pasa a ser el último)
+        set((s) => {
+          const existing = s.lockHolders.find((h) => getLockKey(h.ownerId, h.directions) === key);
+          const holder: ScrollLockHolder = existing
+            ? { ...existing, count: existing.count + 1, reason: options.reason ?? existing.reason }
+            : { id: ++lastLockId, ownerId, directions, reason: options.reason, count: 1 };
+          holderId = holder.id;
+          return deriveLockState([...s.lockHolders.filter((h) => h !== existing), holder]);
+        });
+
+        // Liberar dos veces no afecta a otras adquisiciones
+        let released = false;
+        return () => {
+          if (released) return;
+          released = true;
+          set((s) => deriveLockState(decrementHolder(s.lockHolders, holderId)));
+        };
+      },
+
+      releaseLock: (ownerId: string) =>
+        set((s) => {
+          const latest = [...s.lockHolders].reverse().find((h) => h.ownerId === ownerId);
+          return deriveLockState(latest ? decrementHolder(s.lockHolders, latest.id) : s.lockHolders);
+        }),
     
-    setDragging: (dragging: boolean) => set({ isDragging: dragging }),
+      setDragging: (dragging: boolean) => set({ isDragging: dragging }),
+
+      startTransition: () => set({ isTransitioning: true }),
+      endTransition: () => {
+        set({ isTransitioning: false, transitionProgress: 1 });
+        settlePendingNavigation(null);
+      },
+      abortTransition: () => {
+        if (get().isTransitioning) set({ isTransitioning: false, transitionProgress: 1 });
+        settlePendingNavigation("interrupted");
+      },
 
-    startTransition: () => set({ isTransitioning: true }),
-    endTransition: () => set({ isTransitioning: false }),
+      setTransitionProgress: (progress: number) => set({ transitionProgress: progress }),
+
+      setVisualPosition: (position: number) => set({ visualPosition: position }),
+
+      setInterruptible: (interruptible: boolean) => set({ isInterruptible: interruptible }),
+
+      setFlickSkip: (config: FlickSkipConfig | null) =>
+        set({ flickSkip: config ? { ...DEFAULT_FLICK_SKIP, ...config } : null }),
+
+      setLayoutDirection: (direction: LayoutDirection) => set({ layoutDirection: direction }),
     
-    // NEW: AutoScroll control
-    setAutoScrolling: (enabled: boolean) => set({ isAutoScrolling: enabled }),
-    setAutoScrollPaused: (paused: boolean) => set({ isAutoScrollPaused: paused }),
+      // NEW: AutoScroll control
+      setAutoScrolling: (enabled: boolean) => set({ isAutoScrolling: enabled }),
+      setAutoScrollPaused: (paused: boolean) => set({ isAutoScrollPaused: paused }),
     
-    // NEW: Infinite scroll
-    setInfiniteScrollEnabled: (enabled: boolean) => set({ infiniteScrollEnabled: enabled }),
+      // NEW: Infinite scroll
+      setInfiniteScrollEnabled: (enabled: boolean) => set({ infiniteScrollEnabled: enabled }),
     
-    // NEW: Preload
-    setViewPreloaded: (id: string, preloaded: boolean) => {
-      set((state) => {
-        const index = state.views.findIndex(v => v.id === id);
-        if (index === -1) return state;
+      // NEW: Preload
+      setViewPreloaded: (id: string, preloaded: boolean) => {
+        set((state) => {
+          const index = state.views.findIndex(v => v.id === id);
+          if (index === -1) return state;
         
-        const newViews = [...state.views];
-        newViews[index] = { ...newViews[index], isPreloaded: preloaded };
+          const newViews = [...state.views];
+          newViews[index] = { ...newViews[index], isPreloaded: preloaded };
         
-        return { views: newViews };
-      });
-    },
+          return { views: newViews };
+        });
+      },
     
-    // NEW: Snap points
-    setActiveSnapPoint: (viewId: string, snapPointId: string | null) => {
-      set((state) => {
-        const index = state.views.findIndex(v => v.id === viewId);
-        if (index === -1) return state;
+      // NEW: Snap points
+      setActiveSnapPoint: (viewId: string, snapPointId: string | null) => {
+        set((state) => {
+          const index = state.views.findIndex(v => v.id === viewId);
+          if (index === -1) return state;
         
-        const newViews = [...state.views];
-        newViews[index] = { ...newViews[index], activeSnapPointId: snapPointId };
+          const newViews = [...state.views];
+          newViews[index] = { ...newViews[index], activeSnapPointId: snapPointId };
         
-        return { views: newViews };
-      });
-    },
+          return { views: newViews };
+        });
+      },
+
+      // NEW: Nested carousel
+      setNestedIndex: (viewId: string, index: number) => {
+        set((state) => {
+          const viewIndex = state.views.findIndex(v => v.id === viewId);
+          if (viewIndex === -1) return state;
+
+          const view = state.views[viewIndex];
+          const itemCount = view.config.type === "nested" ? view.config.nestedConfig.itemCount : undefined;
+          const maxIndex = itemCount !== undefined ? Math.max(0, itemCount - 1) : Infinity;
+          const nextIndex = Math.max(0, Math.min(maxIndex, Math.round(index)));
+          if (nextIndex === view.activeNestedIndex) return state;
+
+          const newViews = [...state.views];
+          newViews[viewIndex] = { ...view, activeNestedIndex: nextIndex };
+
+          return { views: newViews };
+        });
+      },
     
-    resetNavigationCooldown: () => {
-        lastNavigationTime = 0;
-    }
-  }))
-);
+      resetNavigationCooldown: () => {
+          lastNavigationTime = 0;
+      }
+    };
+    })
+  );
+}
+
+export type ScrollStore = ReturnType<typeof createScrollStore>;
+
+/**
+ * Store global por defecto.
+ * Usado por todos los hooks cuando no hay un ScrollSystemProvider por encima.
+ */
+export const useScrollStore = createScrollStore();
 
 // ============================================
 // Selectors
 // ============================================
 
 export const selectActiveView = (state: ScrollSystemStore) =>
-  state.views[state.activeIndex];
+  getViewAtIndex(state.views, state.activeIndex);
 
 export const selectActiveViewProgress = (state: ScrollSystemStore) =>
-  state.views[state.activeIndex]?.progress ?? 0;
+  getViewAtIndex(state.views, state.activeIndex)?.progress ?? 0;
+
+// Interruptible transitions accept new input: only a non-interruptible one blocks
+const isTransitionBlocking = (state: ScrollSystemStore) => state.isTransitioning && !state.isInterruptible;
 
 export const selectCanNavigateNext = (state: ScrollSystemStore) => {
-  if (state.isTransitioning || state.isGlobalLocked) return false;
-  const activeView = state.views[state.activeIndex];
+  if (isTransitionBlocking(state) || isDirectionLocked(state, "forward")) return false;
+  const activeView = getViewAtIndex(state.views, state.activeIndex);
   if (!activeView) return false;
+  const isAtEnd = state.activeIndex >= state.totalViews - 1;
+  if (isAtEnd && state.isLoadingMore) return false;
   if (state.infiniteScrollEnabled) return activeView.navigation === "unlocked";
-  return activeView.navigation === "unlocked" && state.activeIndex < state.totalViews - 1;
+  return activeView.navigation === "unlocked" && !isAtEnd;
 };
 
 export const selectCanNavigatePrevious = (state: ScrollSystemStore) => {
-    if (state.isTransitioning || state.isGlobalLocked) return false;
-    const activeView = state.views[state.activeIndex];
+    if (isTransitionBlocking(state) || isDirectionLocked(state, "backward")) return false;
+    const activeView = getViewAtIndex(state.views, state.activeIndex);
     if (!activeView) return false;
+    if (activeView.locks.backward.length > 0) return false;
     // With infinite scroll, can always navigate previous (it wraps)
     if (state.infiniteScrollEnabled) return true;
     // Without infinite scroll, check if we're not at the first view
     return state.activeIndex > 0;
 };
 
+/** NEW: Columnas de la vista activa (>1 = fila del grid) */
+export const selectActiveColumnCount = (state: ScrollSystemStore) =>
+  getColumnCount(getViewAtIndex(state.views, state.activeIndex));
+
 export const selectGlobalProgress = (state: ScrollSystemStore) =>
   state.globalProgress;
 
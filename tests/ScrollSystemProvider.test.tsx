@@ -0,0 +1,124 @@
+/**
+ * ScrollSystemProvider Tests
+ * ===========================
+ * Tests for isolated store instances (multiple scroll systems per page).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { useScrollSystem } from '../hooks/useScrollSystem';
+import { createScrollStore, useScrollStore } from '../store/navigation.store';
+
+describe('ScrollSystemProvider', () => {
+  beforeEach(() => {
+    useScrollStore.setState({
+      views: [],
+      activeIndex: 0,
+      activeId: null,
+      totalViews: 0,
+      isInitialized: false,
+      isTransitioning: false,
+    });
+  });
+
+  describe('createScrollStore', () => {
+    it('should create stores with independent state', () => {
+      const feed = createScrollStore();
+      const stories = createScrollStore();
+
+      feed.getState().registerView({ id: 'post-1', type: 'full' });
+      feed.getState().registerView({ id: 'post-2', type: 'full' });
+      stories.getState().registerView({ id: 'story-1', type: 'full' });
+
+      feed.getState().goToView(1);
+
+      expect(feed.getState().activeIndex).toBe(1);
+      expect(stories.getState().activeIndex).toBe(0);
+      expect(stories.getState().totalViews).toBe(1);
+    });
+
+    it('should keep navigation cooldown per store', () => {
+      const a = createScrollStore();
+      const b = createScrollStore();
+
+      for (const store of [a, b]) {
+        store.getState().registerView({ id: 'one', type: 'full' });
+        store.getState().registerView({ id: 'two', type: 'full' });
+      }
+
+      a.getState().goToView(1);
+      b.getState().goToView(1); // Would be swallowed by a shared cooldown
+
+      expect(a.getState().activeIndex).toBe(1);
+      expect(b.getState().activeIndex).toBe(1);
+    });
+  });
+
+  describe('Context', () => {
+    it('should register views into the provided store, not the global one', () => {
+      const store = createScrollStore();
+
+      render(
+        <ScrollSystemProvider store={store}>
+          <FullView id="modal-view">Content</FullView>
+        </ScrollSystemProvider>
+      );
+
+      expect(store.getState().views.map((v) => v.id)).toEqual(['modal-view']);
+      expect(useScrollStore.getState().views).toHaveLength(0);
+    });
+
+    it('should keep two providers isolated', () => {
+      const a = createScrollStore();
+      const b = createScrollStore();
+
+      render(
+        <>
+          <ScrollSystemProvider store={a}>
+            <FullView id="a-1">A1</FullView>
+            <FullView id="a-2">A2</FullView>
+          </ScrollSystemProvider>
+          <ScrollSystemProvider store={b}>
+            <FullView id="b-1">B1</FullView>
+          </ScrollSystemProvider>
+        </>
+      );
+
+      expect(a.getState().totalViews).toBe(2);
+      expect(b.getState().totalViews).toBe(1);
+    });
+
+    it('should expose the provided store through useScrollSystem', () => {
+      const store = createScrollStore();
+      store.getState().registerView({ id: 'one', type: 'full' });
+      store.getState().registerView({ id: 'two', type: 'full' });
+      store.getState().initialize();
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>
+      );
+
+      const { result } = renderHook(() => useScrollSystem(), { wrapper });
+
+      expect(result.current.totalViews).toBe(2);
+
+      act(() => {
+        result.current.goTo(1);
+      });
+
+      expect(store.getState().activeIndex).toBe(1);
+      expect(useScrollStore.getState().activeIndex).toBe(0);
+    });
+
+    it('should fall back to the global store without a provider', () => {
+      useScrollStore.getState().registerView({ id: 'global', type: 'full' });
+
+      const { result } = renderHook(() => useScrollSystem());
+
+      expect(result.current.totalViews).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * VirtualScrollContainer Tests
+ * =============================
+ * Tests for windowed rendering with stable logical indices.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import React from 'react';
+import { VirtualScrollContainer } from '../components/VirtualScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore, getViewAtIndex } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+function renderFeed(store: ScrollStore, itemCount = 5000, overscan = 2, props: Partial<ScrollContainerProps> = {}) {
+  const renderItem = vi.fn((index: number) => (
+    <FullView id={`post-${index}`}>Post {index}</FullView>
+  ));
+
+  const utils = render(
+    <ScrollSystemProvider store={store}>
+      <VirtualScrollContainer itemCount={itemCount} overscan={overscan} renderItem={renderItem} {...props} />
+    </ScrollSystemProvider>
+  );
+
+  return { ...utils, renderItem };
+}
+
+describe('VirtualScrollContainer', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should mount only a window of views around the active index', () => {
+    const { container } = renderFeed(store);
+
+    expect(container.querySelectorAll('.virtual-item')).toHaveLength(3); // 0, 1, 2
+    expect(store.getState().totalViews).toBe(5000);
+    expect(store.getState().views).toHaveLength(3);
+  });
+
+  it('should jump to a far logical index without mounting the items in between', () => {
+    const { container, renderItem } = renderFeed(store);
+
+    act(() => {
+      store.getState().goToView(4200);
+    });
+
+    const indices = Array.from(container.querySelectorAll('.virtual-item')).map((el) =>
+      Number(el.getAttribute('data-virtual-index'))
+    );
+    expect(indices).toEqual([4198, 4199, 4200, 4201, 4202]);
+    expect(renderItem.mock.calls.every(([index]) => index <= 2 || index >= 4198)).toBe(true);
+
+    const state = store.getState();
+    expect(state.activeIndex).toBe(4200);
+    expect(state.activeId).toBe('post-4200');
+    expect(getViewAtIndex(state.views, 4200)?.isActive).toBe(true);
+  });
+
+  it('should keep logical indices stable when views unmount', () => {
+    renderFeed(store);
+
+    act(() => {
+      store.getState().goToView(10);
+    });
+
+    expect(store.getState().views.map((v) => v.index)).toEqual([8, 9, 10, 11, 12]);
+    expect(store.getState().totalViews).toBe(5000);
+  });
+
+  it('should position items at their logical offset', () => {
+    const { container } = renderFeed(store, 100, 0);
+
+    act(() => {
+      store.getState().goToView(42);
+    });
+
+    const item = container.querySelector('[data-virtual-index="42"]') as HTMLElement;
+    expect(item.style.top).toBe('4200vh');
+  });
+
+  it('should navigate forward through processIntention across the window edge', () => {
+    renderFeed(store, 10, 1);
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+    act(() => {
+      store.getState().endTransition();
+      store.getState().resetNavigationCooldown();
+      store.getState().processIntention({ type: 'navigate', direction: 'down', strength: 1, origin: 'wheel' });
+    });
+
+    expect(store.getState().activeIndex).toBe(2);
+    expect(store.getState().activeId).toBe('post-2');
+  });
+
+  it('should start on an initialIndex outside the first window', () => {
+    const startTransition = vi.spyOn(store.getState(), 'startTransition');
+    const { container } = renderFeed(store, 5000, 2, { initialIndex: 4200 });
+
+    const state = store.getState();
+    expect(state.activeIndex).toBe(4200);
+    expect(state.activeId).toBe('post-4200');
+    expect(getViewAtIndex(state.views, 4200)?.isActive).toBe(true);
+    expect(startTransition).not.toHaveBeenCalled();
+    expect(container.querySelector('[data-virtual-index="0"]')).toBeNull();
+    expect((container.querySelector('.scroll-wrapper') as HTMLElement).style.transform).toBe('translateY(-420000vh)');
+  });
+
+  it('should restore a persisted index outside the first window', () => {
+    const storage = {
+      getItem: () => JSON.stringify({ activeIndex: 900, activeId: 'post-900', activeColumn: 0, views: {} }),
+      setItem: vi.fn(),
+    };
+    renderFeed(store, 5000, 2, { persist: { key: 'feed', storage } });
+
+    expect(store.getState().activeIndex).toBe(900);
+    expect(store.getState().activeId).toBe('post-900');
+  });
+
+  it('should warn that initialViewId needs initialIndex', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    renderFeed(store, 5000, 2, { initialViewId: 'post-1' });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('initialViewId "post-1"');
+    expect(warn.mock.calls[0][0]).toContain('initialIndex');
+    warn.mockRestore();
+  });
+
+  it('should restore dense mode on unmount', () => {
+    const { unmount } = renderFeed(store);
+
+    unmount();
+
+    expect(store.getState().virtualCount).toBeNull();
+    expect(store.getState().totalViews).toBe(0);
+  });
+});
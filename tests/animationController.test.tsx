@@ -0,0 +1,348 @@
+/**
+ * Animation Controller Tests
+ * ===========================
+ * Tests for interruptible, animation-driven transitions.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import React, { Profiler } from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import { createAnimationController, parseEasing } from '../utils/animationController';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('parseEasing', () => {
+  it('should map keywords and cubic-bezier curves to 0-1 functions', () => {
+    const easeOut = parseEasing('ease-out');
+    const custom = parseEasing('cubic-bezier(0.4, 0, 0.2, 1)');
+
+    expect(easeOut(0)).toBe(0);
+    expect(easeOut(1)).toBe(1);
+    expect(easeOut(0.5)).toBeGreaterThan(0.5);
+    expect(custom(0.5)).toBeGreaterThan(0.5);
+  });
+
+  it('should fall back to linear for unknown easings', () => {
+    expect(parseEasing('steps(4)')(0.3)).toBe(0.3);
+  });
+});
+
+// Frames too: the controller ticks with requestAnimationFrame
+const FAKE_FRAMES = {
+  toFake: ['setTimeout', 'clearTimeout', 'Date', 'requestAnimationFrame', 'cancelAnimationFrame'] as const,
+};
+
+describe('createAnimationController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: [...FAKE_FRAMES.toFake] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should finish after the duration and land on the target', () => {
+    const onFinish = vi.fn();
+    const onFrame = vi.fn();
+    const controller = createAnimationController({ onFrame, onFinish });
+
+    controller.animateTo(2, 500, 'linear');
+    expect(controller.isAnimating()).toBe(true);
+
+    vi.advanceTimersByTime(250);
+    expect(controller.getPosition()).toBeGreaterThan(0);
+    expect(controller.getPosition()).toBeLessThan(2);
+    expect(onFinish).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(controller.getPosition()).toBe(2);
+    expect(onFrame).toHaveBeenLastCalledWith({ position: 2, progress: 1 });
+  });
+
+  it('should retarget from the current visual position', () => {
+    const onFinish = vi.fn();
+    const controller = createAnimationController({ onFrame: vi.fn(), onFinish });
+
+    controller.animateTo(1, 400, 'linear');
+    vi.advanceTimersByTime(200);
+    const midway = controller.getPosition();
+
+    controller.animateTo(2, 400, 'linear');
+    vi.advanceTimersByTime(16);
+    expect(controller.getPosition()).toBeGreaterThanOrEqual(midway);
+
+    // First animation was replaced: only one finish, at the new target
+    vi.advanceTimersByTime(400);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(controller.getPosition()).toBe(2);
+  });
+
+  it('should jump and still finish asynchronously with zero duration', () => {
+    const onFinish = vi.fn();
+    const controller = createAnimationController({ onFrame: vi.fn(), onFinish });
+
+    controller.animateTo(3, 0, 'linear');
+    expect(controller.getPosition()).toBe(3);
+    expect(onFinish).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(0);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with an element', () => {
+    const toTransform = (position: number) => `translateY(${-position * 100}vh)`;
+
+    function createFakeAnimation(element: HTMLElement, progress: () => number) {
+      return {
+        effect: { target: element as HTMLElement | null, getComputedTiming: () => ({ progress: progress() }) },
+        onfinish: null as (() => void) | null,
+        cancel: vi.fn(),
+      };
+    }
+
+    it('should run tweens on the compositor with element.animate', () => {
+      const element = document.createElement('div');
+      let progress = 0;
+      const animations: ReturnType<typeof createFakeAnimation>[] = [];
+      element.animate = vi.fn(() => {
+        const animation = createFakeAnimation(element, () => progress);
+        animations.push(animation);
+        return animation;
+      }) as unknown as HTMLElement['animate'];
+      const onFinish = vi.fn();
+      const controller = createAnimationController({ onFrame: vi.fn(), onFinish, getElement: () => element, toTransform });
+
+      controller.animateTo(1, 400, 'ease-out');
+      expect(element.animate).toHaveBeenCalledWith(
+        [{ transform: 'translateY(0vh)' }, { transform: 'translateY(-100vh)' }],
+        { duration: 400, easing: 'ease-out' }
+      );
+      // Where it rests once the animation ends
+      expect(element.style.transform).toBe('translateY(-100vh)');
+
+      // Retarget from the sampled position
+      progress = 0.5;
+      controller.animateTo(0, 400, 'linear');
+      expect(animations[0].cancel).toHaveBeenCalled();
+      expect(element.animate).toHaveBeenLastCalledWith(
+        [{ transform: 'translateY(-50vh)' }, { transform: 'translateY(0vh)' }],
+        { duration: 400, easing: 'linear' }
+      );
+
+      progress = 1;
+      animations[1].onfinish?.();
+      expect(onFinish).toHaveBeenCalledTimes(1);
+      expect(controller.getPosition()).toBe(0);
+      expect(element.style.transform).toBe('translateY(0vh)');
+    });
+
+    it('should move a running tween off the compositor when a drag offset is set', () => {
+      const element = document.createElement('div');
+      const animation = createFakeAnimation(element, () => 0.5);
+      element.animate = vi.fn(() => animation) as unknown as HTMLElement['animate'];
+      const controller = createAnimationController({ onFrame: vi.fn(), onFinish: vi.fn(), getElement: () => element, toTransform });
+
+      controller.animateTo(1, 400, 'linear');
+      vi.advanceTimersByTime(16);
+      controller.setOffset(0.25);
+
+      expect(animation.effect.target).toBeNull();
+      expect(element.style.transform).toBe('translateY(-75vh)');
+      controller.stop();
+    });
+
+    it('should write style.transform on every spring frame', () => {
+      const element = document.createElement('div');
+      const controller = createAnimationController({ onFrame: vi.fn(), onFinish: vi.fn(), getElement: () => element, toTransform });
+
+      controller.springTo(1, undefined, 0);
+      vi.advanceTimersByTime(48);
+      const moving = parseFloat(element.style.transform.replace('translateY(', ''));
+      expect(moving).toBeLessThan(0);
+      expect(moving).toBeGreaterThan(-100);
+
+      vi.advanceTimersByTime(3000);
+      expect(element.style.transform).toBe('translateY(-100vh)');
+    });
+  });
+
+  it('stop should cancel without finishing', () => {
+    const onFinish = vi.fn();
+    const controller = createAnimationController({ onFrame: vi.fn(), onFinish });
+
+    controller.animateTo(1, 300, 'linear');
+    controller.stop();
+    vi.advanceTimersByTime(500);
+
+    expect(onFinish).not.toHaveBeenCalled();
+    expect(controller.isAnimating()).toBe(false);
+  });
+});
+
+describe('ScrollContainer animated transitions', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: [...FAKE_FRAMES.toFake] });
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderContainer(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={400} transitionEasing="linear" {...props}>
+          <FullView id="a">A</FullView>
+          <FullView id="b">B</FullView>
+          <FullView id="c">C</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    // Let the container finish initializing
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  it('should end the transition when the animation finishes and expose progress', () => {
+    renderContainer();
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+    expect(store.getState().isTransitioning).toBe(true);
+    expect(store.getState().transitionProgress).toBe(0);
+
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(store.getState().transitionProgress).toBeGreaterThan(0);
+    expect(store.getState().transitionProgress).toBeLessThan(1);
+    expect(store.getState().isTransitioning).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(store.getState().transitionProgress).toBe(1);
+  });
+
+  it('should accept new intentions mid-transition and retarget', () => {
+    const { container } = renderContainer({ transitionDuration: 1000 });
+    const wrapper = container.querySelector('.scroll-wrapper') as HTMLElement;
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+
+    // Past the navigation cooldown, still animating
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    act(() => {
+      store.getState().goToView(0);
+    });
+
+    expect(store.getState().activeIndex).toBe(0);
+    expect(store.getState().isTransitioning).toBe(true);
+    // Retargeted from the current visual position, not from view 1
+    expect(wrapper.style.transform).not.toBe('translateY(-100vh)');
+    expect(wrapper.style.transform).not.toBe('translateY(0vh)');
+
+    act(() => {
+      vi.advanceTimersByTime(1100);
+    });
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(wrapper.style.transform).toBe('translateY(0vh)');
+  });
+
+  it('should move the wrapper without re-rendering on every frame', () => {
+    const onRender = vi.fn();
+    const { container } = render(
+      <Profiler id="container" onRender={onRender}>
+        <ScrollSystemProvider store={store}>
+          <ScrollContainer transitionDuration={400} transitionEasing="linear">
+            <FullView id="a">A</FullView>
+            <FullView id="b">B</FullView>
+          </ScrollContainer>
+        </ScrollSystemProvider>
+      </Profiler>
+    );
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    const wrapper = container.querySelector('.scroll-wrapper') as HTMLElement;
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    const commits = onRender.mock.calls.length;
+
+    // One act per frame, as the browser would commit them
+    for (let frame = 0; frame < 12; frame++) {
+      act(() => {
+        vi.advanceTimersByTime(16);
+      });
+    }
+    expect(onRender).toHaveBeenCalledTimes(commits);
+    expect(store.getState().visualPosition).toBeGreaterThan(0);
+    expect(store.getState().visualPosition).toBeLessThan(1);
+    expect(wrapper.style.transform).not.toBe('translateY(0vh)');
+    expect(wrapper.style.transform).not.toBe('translateY(-100vh)');
+
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+    expect(wrapper.style.transform).toBe('translateY(-100vh)');
+  });
+
+  it('should keep rejecting input mid-transition when not interruptible', async () => {
+    renderContainer({ interruptible: false });
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+
+    let result;
+    await act(async () => {
+      result = await store.getState().navigateTo(2);
+    });
+    expect(result).toMatchObject({ status: 'rejected', reason: 'transitioning' });
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should settle a pending navigation as interrupted when the container unmounts', async () => {
+    const { unmount } = renderContainer();
+
+    let result;
+    const pending = store.getState().navigateTo(1).then((value) => {
+      result = value;
+    });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(store.getState().isTransitioning).toBe(true);
+
+    unmount();
+    await pending;
+
+    expect(result).toEqual({ status: 'rejected', reason: 'interrupted', fromIndex: 0, toIndex: 1 });
+    expect(store.getState().isTransitioning).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Flick Skip Tests
+ * =================
+ * Tests for velocity-based multi-view jumps.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { UserIntention } from '../types';
+
+function flick(direction: 'up' | 'down', velocity: number, strength = 1): UserIntention {
+  return { type: 'navigate', direction, strength, origin: 'touch', velocity };
+}
+
+describe('Flick Skip', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    for (let i = 0; i < 6; i++) {
+      store.getState().registerView({ id: `view-${i}`, type: 'full' });
+    }
+    store.getState().initialize();
+  });
+
+  it('should move one view per intention when disabled', () => {
+    store.getState().processIntention(flick('down', 10));
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should map velocity to several views', () => {
+    store.getState().setFlickSkip({});
+
+    // 5 px/ms with 2 px/ms per view → 3 views
+    store.getState().processIntention(flick('down', 5));
+    expect(store.getState().activeIndex).toBe(3);
+  });
+
+  it('should cap the jump at maxViews and at the last view', () => {
+    store.getState().setFlickSkip({ maxViews: 2 });
+    store.getState().processIntention(flick('down', 20));
+    expect(store.getState().activeIndex).toBe(2);
+
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+    store.getState().setFlickSkip({ maxViews: 10 });
+    store.getState().processIntention(flick('down', 20));
+    expect(store.getState().activeIndex).toBe(5);
+  });
+
+  it('should jump backward too', () => {
+    store.getState().setFlickSkip({});
+    store.getState().goToView(5);
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+
+    store.getState().processIntention(flick('up', 4));
+    expect(store.getState().activeIndex).toBe(3);
+  });
+
+  it('should ignore weak intentions', () => {
+    store.getState().setFlickSkip({});
+    store.getState().processIntention(flick('down', 6, 0.5));
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should stop on a locked view in between', () => {
+    store.getState().setFlickSkip({});
+    store.getState().setViewExplicitLock('view-2', 'locked');
+
+    store.getState().processIntention(flick('down', 6));
+    expect(store.getState().activeIndex).toBe(2);
+  });
+
+  it('should stop on a controlled view in between', () => {
+    const controlled = createScrollStore();
+    controlled.getState().registerView({ id: 'a', type: 'full' });
+    controlled.getState().registerView({ id: 'b', type: 'controlled' });
+    controlled.getState().registerView({ id: 'c', type: 'full' });
+    controlled.getState().registerView({ id: 'd', type: 'full' });
+    controlled.getState().initialize();
+    controlled.getState().setFlickSkip({});
+
+    controlled.getState().processIntention(flick('down', 6));
+    expect(controlled.getState().activeIndex).toBe(1);
+  });
+});
+
+describe('ScrollContainer flickSkip prop', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sync the config with the store and reset it on unmount', () => {
+    const store = createScrollStore();
+    const { unmount } = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer flickSkip={{ maxViews: 5 }}>
+          <FullView id="a">A</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(store.getState().flickSkip).toEqual({ maxViews: 5, velocityPerView: 2, minStrength: 1 });
+
+    unmount();
+    expect(store.getState().flickSkip).toBeNull();
+  });
+});
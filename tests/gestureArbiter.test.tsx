@@ -0,0 +1,184 @@
+/**
+ * Gesture Arbiter Tests
+ * ======================
+ * Tests for deciding whether a gesture belongs to the main axis or a nested view.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { NestedScrollView, NestedScrollItem } from '../components/NestedScrollView';
+import { createGestureArbiter, getGestureAxis } from '../utils/gestureArbiter';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('getGestureAxis', () => {
+  it('should split at the axis angle', () => {
+    expect(getGestureAxis(100, 20)).toBe('horizontal');
+    expect(getGestureAxis(20, 100)).toBe('vertical');
+    expect(getGestureAxis(-100, 90)).toBe('horizontal');
+    expect(getGestureAxis(0, 0)).toBeNull();
+  });
+
+  it('should accept a custom angle', () => {
+    expect(getGestureAxis(100, 50, 20)).toBe('vertical');
+  });
+});
+
+describe('createGestureArbiter', () => {
+  let carousel: HTMLElement;
+
+  beforeEach(() => {
+    carousel = document.createElement('div');
+    carousel.setAttribute('data-view-type', 'nested');
+    carousel.setAttribute('data-nested-direction', 'horizontal');
+    carousel.appendChild(document.createElement('span'));
+  });
+
+  it('should not decide inside the slop', () => {
+    const arbiter = createGestureArbiter({ slop: 10 });
+    arbiter.start(0, 0, document.body);
+
+    expect(arbiter.update(5, 5)).toBeNull();
+    expect(arbiter.getAxis()).toBeNull();
+  });
+
+  it('should give the main axis gestures outside nested views', () => {
+    const arbiter = createGestureArbiter();
+    arbiter.start(0, 0, document.body);
+
+    expect(arbiter.update(30, 2)).toBe('main');
+    expect(arbiter.getAxis()).toBe('horizontal');
+  });
+
+  it('should give a nested view gestures along its axis only', () => {
+    const arbiter = createGestureArbiter();
+
+    arbiter.start(0, 0, carousel.firstChild);
+    expect(arbiter.update(30, 2)).toBe('nested');
+
+    arbiter.start(0, 0, carousel.firstChild);
+    expect(arbiter.update(2, 30)).toBe('main');
+  });
+
+  it('should keep the first decision for the rest of the gesture', () => {
+    const arbiter = createGestureArbiter();
+    arbiter.start(0, 0, carousel.firstChild);
+
+    expect(arbiter.update(30, 2)).toBe('nested');
+    expect(arbiter.update(30, 300)).toBe('nested');
+    expect(arbiter.resolve(30, 300)).toBe('nested');
+  });
+
+  it('should resolve gestures that never passed the slop', () => {
+    const arbiter = createGestureArbiter();
+    arbiter.start(0, 0, carousel.firstChild);
+
+    expect(arbiter.resolve(0, 5)).toBe('main');
+    arbiter.reset();
+    expect(arbiter.resolve(0, 5)).toBeNull();
+  });
+});
+
+describe('Gesture arbitration with NestedScrollView', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderGallery(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0} {...props}>
+          <NestedScrollView id="gallery">
+            <NestedScrollItem>1</NestedScrollItem>
+            <NestedScrollItem>2</NestedScrollItem>
+            <NestedScrollItem>3</NestedScrollItem>
+          </NestedScrollView>
+          <FullView id="next">Next</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function getItem(container: HTMLElement) {
+    return container.querySelector('.nested-scroll-item') as HTMLElement;
+  }
+
+  function gesture(target: Element, pointerType: string, from: [number, number], to: [number, number]) {
+    fireEvent.pointerDown(target, { pointerType, clientX: from[0], clientY: from[1] });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerMove(target, { pointerType, clientX: to[0], clientY: to[1] });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerUp(target, { pointerType, clientX: to[0], clientY: to[1] });
+  }
+
+  it('should navigate on a vertical swipe over a horizontal carousel', () => {
+    const { container } = renderGallery();
+    const setGlobalLock = vi.spyOn(store.getState(), 'setGlobalLock');
+
+    gesture(getItem(container), 'touch', [200, 600], [210, 300]);
+
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().isGlobalLocked).toBe(false);
+    expect(setGlobalLock).not.toHaveBeenCalled();
+  });
+
+  it('should leave a horizontal swipe to the carousel', () => {
+    const { container } = renderGallery();
+
+    gesture(getItem(container), 'touch', [300, 300], [100, 320]);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should drag the main axis through a carousel with drag physics on', () => {
+    const { container } = renderGallery({ enableDragPhysics: true });
+
+    gesture(getItem(container), 'touch', [200, 600], [205, 300]);
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should let go of a drag that turns out to be the carousel axis', () => {
+    const { container } = renderGallery({ enableDragPhysics: true });
+
+    gesture(getItem(container), 'touch', [400, 400], [100, 350]);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should ignore cross-axis drags outside nested views', () => {
+    renderGallery({ enableDragPhysics: true });
+
+    gesture(document.body, 'touch', [400, 400], [100, 330]);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should move the carousel on a mouse drag along its axis', () => {
+    const { container } = renderGallery({ gestureConfig: { enableMouseDrag: true } });
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    scroller.scrollTo = vi.fn();
+
+    gesture(getItem(container), 'mouse', [300, 300], [100, 310]);
+
+    expect(store.getState().views[0].activeNestedIndex).toBe(1);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Grid Tests
+ * ===========
+ * Tests for 2D grid navigation (rows with horizontal columns).
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { GridRow } from '../components/GridRow';
+import { createScrollStore } from '../store/navigation.store';
+import { DEFAULT_TRANSITION_DURATION } from '../constants';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps, UserDirection } from '../types';
+
+function swipe(direction: UserDirection) {
+  return { type: 'navigate' as const, direction, strength: 1, origin: 'touch' as const };
+}
+
+describe('Grid navigation in the store', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    store.getState().registerView({ id: 'intro', type: 'full' });
+    store.getState().registerView({ id: 'chapter', type: 'full', columns: 3 });
+    store.getState().registerView({ id: 'outro', type: 'full' });
+    store.getState().initialize();
+  });
+
+  function next() {
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+  }
+
+  it('should move between columns with left/right', () => {
+    store.getState().goToView(1);
+    next();
+
+    store.getState().processIntention(swipe('right'));
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().activeColumn).toBe(1);
+
+    next();
+    store.getState().processIntention(swipe('left'));
+    expect(store.getState().activeColumn).toBe(0);
+  });
+
+  it('should reject moving past the first or last column', () => {
+    store.getState().goToView({ row: 'chapter', col: 2 });
+    next();
+
+    expect(store.getState().processIntention(swipe('right'))).toBe(false);
+    expect(store.getState().activeColumn).toBe(2);
+  });
+
+  it('should keep up/down moving between rows', () => {
+    store.getState().goToView({ row: 1, col: 1 });
+    next();
+
+    store.getState().processIntention(swipe('down'));
+    expect(store.getState().activeIndex).toBe(2);
+    expect(store.getState().activeColumn).toBe(0);
+  });
+
+  it('should remember the column of each row', () => {
+    store.getState().goToView({ row: 'chapter', col: 2 });
+    next();
+    store.getState().goToView('outro');
+    next();
+    store.getState().goToView('chapter');
+
+    expect(store.getState().activeColumn).toBe(2);
+    expect(store.getState().views[1].activeColumn).toBe(2);
+  });
+
+  it('should not change columns while transitioning a row', () => {
+    store.getState().goToView(1);
+    store.getState().resetNavigationCooldown();
+
+    expect(store.getState().processIntention(swipe('right'))).toBe(false);
+    expect(store.getState().activeColumn).toBe(0);
+  });
+
+  it('should resolve navigateTo({ row, col })', async () => {
+    const promise = store.getState().navigateTo({ row: 'chapter', col: 1 });
+    expect(store.getState().activeColumn).toBe(1);
+    store.getState().endTransition();
+
+    await expect(promise).resolves.toEqual({ status: 'completed', reason: null, fromIndex: 0, toIndex: 1 });
+  });
+
+  it('should change columns in the active row immediately', async () => {
+    store.getState().goToView(1);
+    next();
+
+    const result = await store.getState().navigateTo({ row: 1, col: 2 });
+    expect(result.status).toBe('completed');
+    expect(store.getState().activeColumn).toBe(2);
+  });
+
+  it('should reject a column out of range', async () => {
+    const result = await store.getState().navigateTo({ row: 'chapter', col: 5 });
+    expect(result).toMatchObject({ status: 'rejected', reason: 'boundary' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should move within the row with goToColumn', () => {
+    store.getState().goToView(1);
+    next();
+
+    store.getState().goToColumn(2);
+    expect(store.getState().activeColumn).toBe(2);
+  });
+
+  it('should clamp the column when a row loses columns', () => {
+    store.getState().goToView({ row: 1, col: 2 });
+    store.getState().updateViewConfig('chapter', { columns: 2 });
+
+    expect(store.getState().activeColumn).toBe(1);
+  });
+});
+
+describe('GridRow', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+    window.location.hash = '';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    window.location.hash = '';
+  });
+
+  function renderGrid(props: Partial<ScrollContainerProps> = {}, onColumnChange?: (column: number) => void) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0} {...props}>
+          <FullView id="intro">Intro</FullView>
+          <GridRow id="chapter" onColumnChange={onColumnChange}>
+            <div>Slide 1</div>
+            <div>Slide 2</div>
+            <div>Slide 3</div>
+          </GridRow>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function settle() {
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+  }
+
+  function enterChapter() {
+    act(() => {
+      store.getState().goToView(1);
+    });
+    settle();
+  }
+
+  it('should register its children as columns', () => {
+    renderGrid();
+    expect(store.getState().views[1].config.columns).toBe(3);
+  });
+
+  it('should move the track to the active column', () => {
+    const onColumnChange = vi.fn();
+    const { container } = renderGrid({}, onColumnChange);
+    enterChapter();
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    const track = container.querySelector('.grid-row-track') as HTMLElement;
+
+    expect(store.getState().activeColumn).toBe(1);
+    expect(track.style.transform).toBe('translateX(-100%)');
+    expect(onColumnChange).toHaveBeenCalledWith(1);
+  });
+
+  it('should slide columns with the container duration and easing by default', () => {
+    const grid = (columnProps: { transitionDuration?: number }) => (
+      <ScrollSystemProvider store={createScrollStore()}>
+        <ScrollContainer transitionDuration={300} transitionEasing="linear">
+          <GridRow id="chapter" {...columnProps}>
+            <div>Slide 1</div>
+          </GridRow>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    const { container, unmount } = render(grid({}));
+    expect((container.querySelector('.grid-row-track') as HTMLElement).style.transition).toBe('transform 300ms linear');
+    unmount();
+
+    const { container: own } = render(grid({ transitionDuration: 150 }));
+    expect((own.querySelector('.grid-row-track') as HTMLElement).style.transition).toBe('transform 150ms linear');
+  });
+
+  it('should apply reduced motion after mount, never during render', () => {
+    const matchMedia = vi.spyOn(window, 'matchMedia').mockImplementation(
+      (query: string) =>
+        ({ matches: true, media: query, addEventListener: () => {}, removeEventListener: () => {} }) as unknown as MediaQueryList
+    );
+    const grid = (
+      <ScrollSystemProvider store={createScrollStore()}>
+        <ScrollContainer>
+          <GridRow id="chapter">
+            <div>Slide 1</div>
+          </GridRow>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    // Server markup (and so hydration) doesn't depend on the media query
+    expect(renderToString(grid)).toContain(`transform ${DEFAULT_TRANSITION_DURATION}ms`);
+    expect(matchMedia).not.toHaveBeenCalled();
+
+    const { container } = render(grid);
+    const track = container.querySelector('.grid-row-track') as HTMLElement;
+    expect(track.style.transition).toContain('0ms');
+    matchMedia.mockRestore();
+  });
+
+  it('should ignore ArrowLeft/ArrowRight outside grid rows', () => {
+    renderGrid();
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should use horizontal wheel deltas in a grid row', () => {
+    renderGrid();
+    enterChapter();
+
+    fireEvent.wheel(window, { deltaX: 120, deltaY: 0 });
+    expect(store.getState().activeColumn).toBe(1);
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should swipe between columns with drag physics on', () => {
+    renderGrid({ enableDragPhysics: true });
+    enterChapter();
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientX: 300, clientY: 300 });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientX: 100, clientY: 310 });
+    expect(store.getState().activeColumn).toBe(1);
+  });
+
+  it('should sync the column with the hash', () => {
+    renderGrid({ enableHashSync: true });
+    enterChapter();
+    expect(window.location.hash).toBe('#chapter');
+
+    act(() => {
+      store.getState().goToColumn(2);
+    });
+    expect(window.location.hash).toBe('#chapter/2');
+  });
+
+  it('should navigate to the column from the initial hash', () => {
+    // replaceState: setting location.hash would also fire popstate
+    window.history.replaceState(null, '', '#chapter/1');
+    renderGrid({ enableHashSync: true });
+
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().activeColumn).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Horizontal Input Tests
+ * =======================
+ * Tests for orientation-aware wheel, keyboard, swipe and drag input.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('Horizontal intentions in the store', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    for (let i = 0; i < 3; i++) {
+      store.getState().registerView({ id: `view-${i}`, type: 'full' });
+    }
+    store.getState().initialize();
+  });
+
+  it('should treat right as forward and left as backward', () => {
+    store.getState().processIntention({ type: 'navigate', direction: 'right', strength: 1, origin: 'touch' });
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().lastNavigationDirection).toBe('down');
+
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+
+    store.getState().processIntention({ type: 'navigate', direction: 'left', strength: 1, origin: 'touch' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should reject left at the first view', () => {
+    const handled = store.getState().processIntention({
+      type: 'navigate', direction: 'left', strength: 1, origin: 'keyboard',
+    });
+    expect(handled).toBe(false);
+  });
+});
+
+describe('ScrollContainer orientation="horizontal"', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderDeck(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer orientation="horizontal" transitionDuration={0} {...props}>
+          <FullView id="a">A</FullView>
+          <FullView id="b">B</FullView>
+          <FullView id="c">C</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function settle() {
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+  }
+
+  it('should navigate with ArrowRight / ArrowLeft', () => {
+    renderDeck();
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(store.getState().activeIndex).toBe(1);
+
+    settle();
+    fireEvent.keyDown(window, { key: 'ArrowLeft' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should ignore ArrowDown in a horizontal deck', () => {
+    renderDeck();
+
+    fireEvent.keyDown(window, { key: 'ArrowDown' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should navigate with horizontal wheel deltas', () => {
+    renderDeck();
+
+    fireEvent.wheel(window, { deltaX: 120, deltaY: 0 });
+    expect(store.getState().activeIndex).toBe(1);
+
+    settle();
+    fireEvent.wheel(window, { deltaX: -120, deltaY: 0 });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should ignore horizontal wheel deltas in a vertical container', () => {
+    renderDeck({ orientation: 'vertical' });
+
+    fireEvent.wheel(window, { deltaX: 120, deltaY: 0 });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should navigate with horizontal swipes', () => {
+    renderDeck();
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientX: 300, clientY: 300 });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientX: 100, clientY: 310 });
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should ignore vertical swipes in a horizontal deck', () => {
+    renderDeck();
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientX: 300, clientY: 500 });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientX: 310, clientY: 200 });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should drag along the X axis', () => {
+    renderDeck({ enableDragPhysics: true });
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientX: 600, clientY: 300 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerMove(document.body, { pointerType: 'touch', clientX: 300, clientY: 300 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientX: 300, clientY: 300 });
+
+    expect(store.getState().activeIndex).toBe(1);
+  });
+});
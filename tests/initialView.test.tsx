@@ -0,0 +1,142 @@
+/**
+ * Initial View Tests
+ * ===================
+ * Tests for initialIndex / initialViewId, server rendering and hydration without a flash.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
+import { hydrateRoot, type Root } from 'react-dom/client';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('ScrollContainer initial view', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+  });
+
+  function App(props: Partial<ScrollContainerProps> & { store: ScrollStore }) {
+    const { store: appStore, ...containerProps } = props;
+    return (
+      <ScrollSystemProvider store={appStore}>
+        <ScrollContainer transitionDuration={400} {...containerProps}>
+          <FullView id="intro">Intro</FullView>
+          <FullView id="features">Features</FullView>
+          <FullView id="pricing">Pricing</FullView>
+          <FullView id="faq">FAQ</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+  }
+
+  const wrapperOf = (container: HTMLElement) => container.querySelector('.scroll-wrapper') as HTMLElement;
+
+  it('should initialize in the mount commit, without a timer', () => {
+    const onInitialized = vi.fn();
+    render(<App store={store} onInitialized={onInitialized} />);
+
+    expect(store.getState().isInitialized).toBe(true);
+    expect(onInitialized).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start on initialIndex without a transition', () => {
+    const startTransition = vi.spyOn(store.getState(), 'startTransition');
+    const { container } = render(<App store={store} initialIndex={2} />);
+
+    expect(store.getState().activeId).toBe('pricing');
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(startTransition).not.toHaveBeenCalled();
+    expect(wrapperOf(container).style.transform).toBe('translateY(-200vh)');
+  });
+
+  it('should prefer initialViewId and fall back to the first view when unknown', () => {
+    render(<App store={store} initialIndex={1} initialViewId="faq" />);
+    expect(store.getState().activeIndex).toBe(3);
+
+    const other = createScrollStore();
+    render(<App store={other} initialIndex={9} />);
+    expect(other.getState().activeIndex).toBe(0);
+  });
+
+  it('should render the initial transform on the server', () => {
+    const html = renderToString(<App store={store} initialViewId="pricing" />);
+
+    expect(html).toContain('translateY(-200vh)');
+    // Nothing runs on the server
+    expect(store.getState().isInitialized).toBe(false);
+  });
+
+  it('should render per-view transitions in place on the server', () => {
+    const host = document.createElement('div');
+    host.innerHTML = renderToString(<App store={store} transition="fade" initialViewId="pricing" />);
+    const sections = Array.from(host.querySelectorAll('section'));
+
+    expect(sections.map((section) => section.dataset.viewIndex)).toEqual(['0', '1', '2', '3']);
+    expect(sections.map((section) => section.style.position)).toEqual(['absolute', 'absolute', 'absolute', 'absolute']);
+    expect(sections.map((section) => section.style.opacity)).toEqual(['0', '0', '1', '0']);
+    expect(sections.map((section) => section.getAttribute('aria-hidden'))).toEqual(['true', 'true', 'false', 'true']);
+  });
+
+  describe('hydration', () => {
+    let root: Root | null = null;
+    let host: HTMLDivElement;
+
+    beforeEach(() => {
+      host = document.createElement('div');
+      document.body.appendChild(host);
+    });
+
+    afterEach(() => {
+      act(() => root?.unmount());
+      root = null;
+      host.remove();
+    });
+
+    it('should hydrate in place, never showing the first view', () => {
+      host.innerHTML = renderToString(<App store={createScrollStore()} initialViewId="faq" />);
+      const transforms: string[] = [];
+      const observer = new MutationObserver(() => transforms.push(wrapperOf(host).style.transform));
+      observer.observe(wrapperOf(host), { attributes: true, attributeFilter: ['style'] });
+      const onRecoverableError = vi.fn();
+
+      act(() => {
+        root = hydrateRoot(host, <App store={store} initialViewId="faq" />, { onRecoverableError });
+      });
+
+      observer.disconnect();
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(store.getState().activeId).toBe('faq');
+      expect(store.getState().isTransitioning).toBe(false);
+      expect(wrapperOf(host).style.transform).toBe('translateY(-300vh)');
+      expect(transforms.every((transform) => transform === 'translateY(-300vh)')).toBe(true);
+    });
+
+    it('should hydrate per-view transitions in place', () => {
+      host.innerHTML = renderToString(<App store={createScrollStore()} transition="stack" initialViewId="faq" />);
+      const faq = host.querySelector('#faq') as HTMLElement;
+      const styles: string[] = [faq.style.cssText];
+      const observer = new MutationObserver(() => styles.push(faq.style.cssText));
+      observer.observe(faq, { attributes: true, attributeFilter: ['style'] });
+      const onRecoverableError = vi.fn();
+
+      act(() => {
+        root = hydrateRoot(host, <App store={store} transition="stack" initialViewId="faq" />, { onRecoverableError });
+      });
+
+      observer.disconnect();
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(store.getState().activeId).toBe('faq');
+      expect(store.getState().isTransitioning).toBe(false);
+      expect(faq.getAttribute('aria-hidden')).toBe('false');
+      expect(styles.every((style) => style.includes('opacity: 1') && style.includes('scale(1)'))).toBe(true);
+    });
+  });
+});
@@ -491,6 +491,26 @@ describe("Integration Tests", () => {
       expect(selectCanNavigatePrevious(state)).toBe(true);
     });
 
+    it("selectors should only block during non-interruptible transitions", () => {
+      const store = useScrollStore.getState();
+
+      store.registerView({ id: "view-0", type: "full" });
+      store.registerView({ id: "view-1", type: "full" });
+      store.registerView({ id: "view-2", type: "full" });
+      store.goToView(1);
+
+      store.setInterruptible(true);
+      let state = useScrollStore.getState();
+      expect(state.isTransitioning).toBe(true);
+      expect(selectCanNavigateNext(state)).toBe(true);
+      expect(selectCanNavigatePrevious(state)).toBe(true);
+
+      store.setInterruptible(false);
+      state = useScrollStore.getState();
+      expect(selectCanNavigateNext(state)).toBe(false);
+      expect(selectCanNavigatePrevious(state)).toBe(false);
+    });
+
     it("selectCanNavigatePrevious should work with infiniteScroll", () => {
       const store = useScrollStore.getState();
 
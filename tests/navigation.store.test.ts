@@ -18,6 +18,7 @@ describe('Navigation Store', () => {
       isInitialized: false,
       isTransitioning: false,
       isGlobalLocked: false,
+      lockHolders: [],
       isDragging: false,
       globalProgress: 0,
     });
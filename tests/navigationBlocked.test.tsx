@@ -0,0 +1,197 @@
+/**
+ * Navigation Blocked Tests
+ * =========================
+ * Tests for blocked-navigation feedback: store events, callbacks, nudge and hints.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { ControlledView } from '../components/ControlledView';
+import { ScrollHint } from '../components/ScrollHint';
+import { AriaLiveRegion } from '../components/AriaLiveRegion';
+import { createScrollStore } from '../store/navigation.store';
+import { getScrollHintKind } from '../utils/scrollHint';
+import type { ScrollStore } from '../store';
+import type { NavigationBlockedEvent, ScrollContainerProps, UserDirection } from '../types';
+
+function swipe(direction: UserDirection) {
+  return { type: 'navigate' as const, direction, strength: 1, origin: 'touch' as const };
+}
+
+describe('lastBlockedNavigation', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+    store.getState().registerView({ id: 'article', type: 'scroll-locked', scrollDirection: 'vertical' });
+    store.getState().registerView({ id: 'next', type: 'full' });
+    store.getState().initialize();
+    store.getState().updateViewMetrics('article', { scrollHeight: 2000, clientHeight: 800, scrollTop: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record a refused intention with its lock source', () => {
+    expect(store.getState().processIntention(swipe('down'))).toBe(false);
+
+    expect(store.getState().lastBlockedNavigation).toMatchObject({
+      reason: 'view-lock',
+      direction: 'down',
+      lockDirection: 'forward',
+      origin: 'touch',
+      viewId: 'article',
+      lockSource: 'content',
+    });
+  });
+
+  it('should report repeated blocks once per cooldown', () => {
+    store.getState().processIntention(swipe('down'));
+    const first = store.getState().lastBlockedNavigation;
+
+    store.getState().processIntention(swipe('down'));
+    expect(store.getState().lastBlockedNavigation).toBe(first);
+
+    vi.advanceTimersByTime(600);
+    store.getState().processIntention(swipe('down'));
+    expect(store.getState().lastBlockedNavigation).not.toBe(first);
+  });
+
+  it('should report boundaries but not transitions', () => {
+    store.getState().processIntention(swipe('up'));
+    expect(store.getState().lastBlockedNavigation).toMatchObject({ reason: 'boundary', lockDirection: 'backward' });
+
+    vi.advanceTimersByTime(600);
+    store.setState({ isTransitioning: true, lastBlockedNavigation: null });
+    store.getState().processIntention(swipe('down'));
+    expect(store.getState().lastBlockedNavigation).toBeNull();
+  });
+
+  it('should report guard rejections and clear on navigation', () => {
+    store.getState().updateViewMetrics('article', { scrollHeight: 2000, clientHeight: 800, scrollTop: 1200 });
+    const release = store.getState().registerGuards('article', { beforeLeave: () => false });
+
+    store.getState().processIntention(swipe('down'));
+    expect(store.getState().lastBlockedNavigation).toMatchObject({ reason: 'guard' });
+
+    release();
+    store.getState().resetNavigationCooldown();
+    store.getState().processIntention(swipe('down'));
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().lastBlockedNavigation).toBeNull();
+  });
+});
+
+describe('getScrollHintKind', () => {
+  const event = (overrides: Partial<NavigationBlockedEvent>): NavigationBlockedEvent => ({
+    reason: 'view-lock',
+    direction: 'down',
+    lockDirection: 'forward',
+    origin: 'wheel',
+    viewId: 'a',
+    timestamp: 0,
+    ...overrides,
+  });
+
+  it('should pick a message for the context', () => {
+    expect(getScrollHintKind(event({ lockSource: 'content' }))).toBe('scroll-down');
+    expect(getScrollHintKind(event({ lockSource: 'content', lockDirection: 'backward' }))).toBe('scroll-up');
+    expect(getScrollHintKind(event({ lockSource: 'explicit' }), 'controlled')).toBe('complete');
+    expect(getScrollHintKind(event({ lockSource: 'explicit' }), 'full')).toBe('locked');
+    expect(getScrollHintKind(event({ lockSource: 'guard', lockDirection: 'backward' }))).toBe('no-back');
+    expect(getScrollHintKind(event({ reason: 'boundary' }))).toBe('end');
+    expect(getScrollHintKind(event({ reason: 'global-lock' }))).toBe('paused');
+  });
+});
+
+describe('Blocked navigation feedback', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function renderForm(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0} {...props}>
+          <ControlledView id="form">Form</ControlledView>
+          <FullView id="done">Done</FullView>
+          <ScrollHint duration={1000} />
+          <AriaLiveRegion />
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  it('should call onNavigationBlocked', () => {
+    const onNavigationBlocked = vi.fn();
+    renderForm({ onNavigationBlocked });
+
+    fireEvent.keyDown(window, { key: 'ArrowDown' });
+
+    expect(onNavigationBlocked).toHaveBeenCalledTimes(1);
+    expect(onNavigationBlocked).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'view-lock', viewId: 'form', origin: 'keyboard', lockSource: 'explicit' })
+    );
+  });
+
+  it('should nudge the wrapper when nudgeOnBlocked is set', () => {
+    const animate = vi.fn();
+    HTMLElement.prototype.animate = animate;
+    const { container } = renderForm({ nudgeOnBlocked: true });
+
+    fireEvent.keyDown(window, { key: 'ArrowDown' });
+
+    expect(animate).toHaveBeenCalledTimes(1);
+    expect(animate.mock.instances[0]).toBe(container.querySelector('.scroll-wrapper'));
+    expect(animate.mock.calls[0][0][1]).toEqual({ translate: '0px -24px' });
+    delete (HTMLElement.prototype as Partial<HTMLElement>).animate;
+  });
+
+  it('should not nudge by default', () => {
+    const animate = vi.fn();
+    HTMLElement.prototype.animate = animate;
+    renderForm();
+
+    fireEvent.keyDown(window, { key: 'ArrowDown' });
+    expect(animate).not.toHaveBeenCalled();
+    delete (HTMLElement.prototype as Partial<HTMLElement>).animate;
+  });
+
+  it('should show a context-aware hint and announce it', () => {
+    const { container, getByRole } = renderForm();
+
+    fireEvent.keyDown(window, { key: 'ArrowDown' });
+    act(() => {
+      vi.advanceTimersByTime(150);
+    });
+
+    const hint = container.querySelector('.scroll-hint');
+    expect(hint).toHaveTextContent('Complete the form to continue');
+    expect(hint).toHaveAttribute('data-hint', 'complete');
+    expect(getByRole('status')).toHaveTextContent('Complete the form to continue');
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(container.querySelector('.scroll-hint')).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Navigation Guards Tests
+ * ========================
+ * Tests for beforeLeave / beforeEnter guards (sync and async).
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import React from 'react';
+import { FullView } from '../components/FullView';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { UserIntention } from '../types';
+
+const wheelDown: UserIntention = { type: 'navigate', direction: 'down', strength: 1, origin: 'wheel' };
+const wheelUp: UserIntention = { type: 'navigate', direction: 'up', strength: 1, origin: 'wheel' };
+
+describe('Navigation Guards', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    for (const id of ['intro', 'form', 'summary']) {
+      store.getState().registerView({ id, type: 'full' });
+    }
+    store.getState().initialize();
+  });
+
+  describe('Sync guards', () => {
+    it('should cancel navigation when beforeLeave returns false', () => {
+      store.getState().registerGuards('intro', { beforeLeave: () => false });
+
+      store.getState().processIntention(wheelDown);
+
+      expect(store.getState().activeIndex).toBe(0);
+    });
+
+    it('should navigate synchronously when guards return true', () => {
+      const beforeLeave = vi.fn(() => true);
+      const beforeEnter = vi.fn(() => true);
+      store.getState().registerGuards('intro', { beforeLeave });
+      store.getState().registerGuards('form', { beforeEnter });
+
+      store.getState().processIntention(wheelDown);
+
+      expect(store.getState().activeIndex).toBe(1);
+      expect(beforeLeave).toHaveBeenCalledWith('down', expect.objectContaining({ id: 'form' }));
+      expect(beforeEnter).toHaveBeenCalledWith(expect.objectContaining({ id: 'intro' }));
+    });
+
+    it('should pass the intention direction to beforeLeave', () => {
+      store.getState().goToView(1);
+      store.getState().endTransition();
+      store.getState().resetNavigationCooldown();
+
+      const beforeLeave = vi.fn(() => true);
+      store.getState().registerGuards('form', { beforeLeave });
+
+      store.getState().processIntention(wheelUp);
+
+      expect(beforeLeave).toHaveBeenCalledWith('up', expect.objectContaining({ id: 'intro' }));
+      expect(store.getState().activeIndex).toBe(0);
+    });
+
+    it('should treat a throwing guard as a rejection', () => {
+      store.getState().registerGuards('form', {
+        beforeEnter: () => {
+          throw new Error('boom');
+        },
+      });
+
+      store.getState().goToView('form');
+
+      expect(store.getState().activeIndex).toBe(0);
+    });
+  });
+
+  describe('Async guards', () => {
+    it('should wait for an async beforeLeave before navigating', async () => {
+      let release!: (ok: boolean) => void;
+      store.getState().registerGuards('intro', {
+        beforeLeave: () => new Promise<boolean>((resolve) => { release = resolve; }),
+      });
+
+      store.getState().goToView(1);
+
+      expect(store.getState().activeIndex).toBe(0);
+      expect(store.getState().isGuardPending).toBe(true);
+
+      release(true);
+      await vi.waitFor(() => expect(store.getState().activeIndex).toBe(1));
+      expect(store.getState().isGuardPending).toBe(false);
+    });
+
+    it('should reject navigateTo with "guard" when an async guard resolves false', async () => {
+      store.getState().registerGuards('form', { beforeEnter: async () => false });
+
+      const result = await store.getState().navigateTo('form');
+
+      expect(result).toMatchObject({ status: 'rejected', reason: 'guard' });
+      expect(store.getState().activeIndex).toBe(0);
+    });
+
+    it('should resolve navigateTo as completed after guards and transition', async () => {
+      store.getState().registerGuards('intro', { beforeLeave: async () => true });
+
+      const promise = store.getState().navigateTo(2);
+      await vi.waitFor(() => expect(store.getState().activeIndex).toBe(2));
+      store.getState().endTransition();
+
+      await expect(promise).resolves.toMatchObject({ status: 'completed', toIndex: 2 });
+    });
+
+    it('should block other navigation while a guard is pending', async () => {
+      let release!: (ok: boolean) => void;
+      store.getState().registerGuards('intro', {
+        beforeLeave: () => new Promise<boolean>((resolve) => { release = resolve; }),
+      });
+
+      store.getState().goToView(1);
+      store.getState().resetNavigationCooldown();
+
+      expect(store.getState().processIntention(wheelDown)).toBe(false);
+      const result = await store.getState().navigateTo(2);
+      expect(result).toMatchObject({ status: 'rejected', reason: 'transitioning' });
+
+      release(true);
+      await vi.waitFor(() => expect(store.getState().activeIndex).toBe(1));
+    });
+  });
+
+  describe('Origin opt-out', () => {
+    it('should skip guards for origins listed in skipGuardsFor', () => {
+      const beforeLeave = vi.fn(() => false);
+      store.getState().registerGuards('intro', { beforeLeave, skipGuardsFor: ['programmatic'] });
+
+      store.getState().goToView(1);
+
+      expect(beforeLeave).not.toHaveBeenCalled();
+      expect(store.getState().activeIndex).toBe(1);
+    });
+
+    it('should still run guards for origins not listed', () => {
+      store.getState().registerGuards('intro', { beforeLeave: () => false, skipGuardsFor: ['keyboard'] });
+
+      store.getState().processIntention(wheelDown);
+
+      expect(store.getState().activeIndex).toBe(0);
+    });
+  });
+
+  describe('View props', () => {
+    it('should register guards from view props and remove them on unmount', () => {
+      const viewStore = createScrollStore();
+
+      const { unmount } = render(
+        <ScrollSystemProvider store={viewStore}>
+          <FullView id="locked" beforeLeave={() => false}>A</FullView>
+          <FullView id="next">B</FullView>
+        </ScrollSystemProvider>
+      );
+
+      viewStore.getState().goToView(1);
+      expect(viewStore.getState().activeIndex).toBe(0);
+
+      unmount();
+      viewStore.getState().registerView({ id: 'locked', type: 'full' });
+      viewStore.getState().registerView({ id: 'next', type: 'full' });
+      viewStore.getState().resetNavigationCooldown();
+      viewStore.getState().goToView(1);
+
+      expect(viewStore.getState().activeIndex).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Navigation History Tests
+ * =========================
+ * Tests for the bounded history stack, back()/forward() and hash sync integration.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { useScrollSystem } from '../hooks/useScrollSystem';
+import { useHashSync } from '../hooks/useHashSync';
+import { createScrollStore } from '../store/navigation.store';
+import { DEFAULT_HISTORY_LIMIT } from '../constants';
+import type { ScrollStore } from '../store';
+
+describe('Navigation history', () => {
+  let store: ScrollStore;
+
+  // Jump and settle (as the animation controller would)
+  async function jump(run: () => Promise<unknown>) {
+    const result = run();
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+    return result;
+  }
+
+  beforeEach(() => {
+    store = createScrollStore();
+    ['toc', 'intro', 'setup', 'api', 'faq'].forEach((id) => store.getState().registerView({ id, type: 'full' }));
+    store.getState().initialize();
+  });
+
+  const ids = () => store.getState().history.map((entry) => entry.viewId);
+
+  it('should start with the first view', () => {
+    expect(store.getState().history).toEqual([{ viewId: 'toc', index: 0, column: 0 }]);
+    expect(store.getState().historyIndex).toBe(0);
+  });
+
+  it('should return to where the user came from, not the previous view', async () => {
+    await jump(() => store.getState().navigateTo('api'));
+    expect(ids()).toEqual(['toc', 'api']);
+
+    const result = await jump(() => store.getState().back());
+    expect(result).toMatchObject({ status: 'completed', toIndex: 0 });
+    expect(store.getState().activeId).toBe('toc');
+    expect(store.getState().historyIndex).toBe(0);
+
+    await jump(() => store.getState().forward());
+    expect(store.getState().activeId).toBe('api');
+    expect(ids()).toEqual(['toc', 'api']);
+  });
+
+  it('should drop forward entries on a new navigation', async () => {
+    await jump(() => store.getState().navigateTo('api'));
+    await jump(() => store.getState().navigateTo('faq'));
+    await jump(() => store.getState().back());
+
+    await jump(() => store.getState().navigateTo('intro'));
+    expect(ids()).toEqual(['toc', 'api', 'intro']);
+    expect(store.getState().historyIndex).toBe(2);
+  });
+
+  it('should record user navigation too', () => {
+    store.getState().processIntention({ type: 'navigate', direction: 'down', strength: 1, origin: 'wheel' });
+    expect(ids()).toEqual(['toc', 'intro']);
+  });
+
+  it('should reject at the ends of the stack', async () => {
+    expect(await store.getState().back()).toMatchObject({ status: 'rejected', reason: 'boundary' });
+    expect(await store.getState().forward()).toMatchObject({ status: 'rejected', reason: 'boundary' });
+  });
+
+  it('should resolve entries by id when views move', async () => {
+    await jump(() => store.getState().navigateTo('api'));
+    await jump(() => store.getState().navigateTo('faq'));
+    store.getState().unregisterView('intro');
+
+    await jump(() => store.getState().back());
+    expect(store.getState().activeId).toBe('api');
+    expect(store.getState().activeIndex).toBe(2);
+  });
+
+  it('should stay bounded', () => {
+    for (let i = 0; i < DEFAULT_HISTORY_LIMIT + 10; i++) {
+      store.getState().goToView(i % 2 === 0 ? 1 : 0);
+      store.getState().endTransition();
+      store.getState().resetNavigationCooldown();
+    }
+    expect(store.getState().history).toHaveLength(DEFAULT_HISTORY_LIMIT);
+    expect(store.getState().historyIndex).toBe(DEFAULT_HISTORY_LIMIT - 1);
+  });
+
+  it('should expose history from useScrollSystem', async () => {
+    const { result } = renderHook(() => useScrollSystem(), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    });
+    expect(result.current.canGoBack).toBe(false);
+
+    await act(async () => {
+      await jump(() => result.current.goTo('setup'));
+    });
+    expect(result.current.canGoBack).toBe(true);
+    expect(result.current.canGoForward).toBe(false);
+    expect(result.current.history).toHaveLength(2);
+
+    await act(async () => {
+      await jump(() => result.current.back());
+    });
+    expect(result.current.activeId).toBe('toc');
+    expect(result.current.canGoForward).toBe(true);
+  });
+});
+
+describe('useHashSync historyStack', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.location.hash = '';
+    store = createScrollStore();
+    ['toc', 'intro', 'api'].forEach((id) => store.getState().registerView({ id, type: 'full' }));
+    store.getState().initialize();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    window.location.hash = '';
+  });
+
+  function popTo(hash: string) {
+    window.history.replaceState(null, '', hash);
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  }
+
+  function renderSync(historyStack: boolean) {
+    renderHook(() => useHashSync({ pushHistory: true, historyStack }), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    });
+    act(() => {
+      store.getState().goToView('api');
+      store.getState().endTransition();
+      store.getState().resetNavigationCooldown();
+    });
+  }
+
+  it('should move back through the stack on browser back', () => {
+    renderSync(true);
+    expect(window.location.hash).toBe('#api');
+
+    const pushState = vi.spyOn(window.history, 'pushState');
+    act(() => popTo('#toc'));
+
+    expect(store.getState().activeId).toBe('toc');
+    expect(store.getState().historyIndex).toBe(0);
+    expect(store.getState().history).toHaveLength(2);
+    // The browser already moved: no new entry
+    expect(pushState).not.toHaveBeenCalled();
+    pushState.mockRestore();
+  });
+
+  it('should push a new entry without historyStack', () => {
+    renderSync(false);
+    act(() => popTo('#toc'));
+
+    expect(store.getState().activeId).toBe('toc');
+    expect(store.getState().history).toHaveLength(3);
+  });
+});
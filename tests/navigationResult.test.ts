@@ -0,0 +1,170 @@
+/**
+ * Navigation Result Tests
+ * ========================
+ * Tests for promise-based navigation (navigateTo / goTo) and rejection reasons.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useScrollStore } from '../store/navigation.store';
+import { useScrollSystem } from '../hooks/useScrollSystem';
+
+function registerViews(count: number) {
+  for (let i = 0; i < count; i++) {
+    useScrollStore.getState().registerView({ id: `view-${i}`, type: 'full' });
+  }
+}
+
+describe('Navigation Results', () => {
+  beforeEach(() => {
+    useScrollStore.setState({
+      views: [],
+      activeIndex: 0,
+      activeId: null,
+      totalViews: 0,
+      isInitialized: false,
+      isTransitioning: false,
+      isGlobalLocked: false,
+      lockHolders: [],
+      infiniteScrollEnabled: false,
+    });
+    useScrollStore.getState().resetNavigationCooldown();
+    registerViews(3);
+    useScrollStore.getState().initialize();
+  });
+
+  it('should resolve as completed once the transition ends', async () => {
+    let settled = false;
+    const promise = useScrollStore.getState().navigateTo(1).then((result) => {
+      settled = true;
+      return result;
+    });
+
+    await Promise.resolve();
+    expect(settled).toBe(false);
+    expect(useScrollStore.getState().activeIndex).toBe(1);
+
+    useScrollStore.getState().endTransition();
+
+    await expect(promise).resolves.toEqual({
+      status: 'completed',
+      reason: null,
+      fromIndex: 0,
+      toIndex: 1,
+    });
+  });
+
+  it('should resolve by view id', async () => {
+    const promise = useScrollStore.getState().navigateTo('view-2');
+    useScrollStore.getState().endTransition();
+
+    const result = await promise;
+    expect(result.status).toBe('completed');
+    expect(result.toIndex).toBe(2);
+  });
+
+  it('should resolve immediately when already on the target view', async () => {
+    const result = await useScrollStore.getState().navigateTo(0);
+    expect(result).toEqual({ status: 'completed', reason: null, fromIndex: 0, toIndex: 0 });
+  });
+
+  it('should reject with "transitioning" while a transition is running', async () => {
+    useScrollStore.setState({ isTransitioning: true });
+
+    const result = await useScrollStore.getState().navigateTo(1);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'transitioning' });
+    expect(useScrollStore.getState().activeIndex).toBe(0);
+  });
+
+  it('should reject with "global-lock" when the system is locked', async () => {
+    useScrollStore.getState().setGlobalLock(true);
+
+    const result = await useScrollStore.getState().navigateTo(1);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'global-lock' });
+  });
+
+  it('should reject with "view-lock" when the active view is explicitly locked', async () => {
+    useScrollStore.getState().setViewExplicitLock('view-0', 'locked');
+
+    const result = await useScrollStore.getState().navigateTo(2);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'view-lock' });
+  });
+
+  it('should reject going back from a controlled view with allowGoBack: false', async () => {
+    useScrollStore.getState().registerView({
+      id: 'wizard',
+      type: 'controlled',
+      allowGoBack: false,
+    });
+    useScrollStore.getState().goToView('wizard');
+    useScrollStore.getState().endTransition();
+    useScrollStore.getState().resetNavigationCooldown();
+
+    const result = await useScrollStore.getState().navigateTo(0);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'view-lock' });
+  });
+
+  it('should reject with "boundary" for out-of-range indices', async () => {
+    const result = await useScrollStore.getState().navigateTo(5);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'boundary', toIndex: 5 });
+  });
+
+  it('should reject with "not-found" for unknown ids', async () => {
+    const result = await useScrollStore.getState().navigateTo('missing');
+    expect(result).toMatchObject({ status: 'rejected', reason: 'not-found', toIndex: -1 });
+  });
+
+  it('should reject with "cooldown" right after another navigation', async () => {
+    const first = useScrollStore.getState().navigateTo(1);
+    useScrollStore.getState().endTransition();
+    await first;
+
+    const result = await useScrollStore.getState().navigateTo(2);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'cooldown' });
+  });
+
+  it('should reject a pending navigation as "interrupted" when another one replaces it', async () => {
+    const first = useScrollStore.getState().navigateTo(1);
+    useScrollStore.getState().resetNavigationCooldown();
+    useScrollStore.getState().goToView(2);
+
+    await expect(first).resolves.toMatchObject({ status: 'rejected', reason: 'interrupted' });
+  });
+
+  it('should not start a transition when an infinite wrap lands on the active view', async () => {
+    useScrollStore.setState({ views: [], totalViews: 0, isInitialized: false, infiniteScrollEnabled: true });
+    registerViews(1);
+    useScrollStore.getState().initialize();
+
+    const moved = useScrollStore.getState().processIntention({
+      type: 'navigate',
+      direction: 'down',
+      strength: 1,
+      origin: 'wheel',
+    });
+    expect(moved).toBe(false);
+    expect(useScrollStore.getState().isTransitioning).toBe(false);
+    expect(useScrollStore.getState().lastBlockedNavigation?.reason).toBe('boundary');
+
+    // goTo(-1) wraps to the only view: settles right away
+    const result = await useScrollStore.getState().navigateTo(-1);
+    expect(result).toEqual({ status: 'completed', reason: null, fromIndex: 0, toIndex: 0 });
+    expect(useScrollStore.getState().isTransitioning).toBe(false);
+  });
+
+  describe('useScrollSystem().goTo', () => {
+    it('should return a promise with the navigation result', async () => {
+      const { result } = renderHook(() => useScrollSystem());
+
+      let promise!: ReturnType<typeof result.current.goTo>;
+      act(() => {
+        promise = result.current.goTo(2);
+      });
+      act(() => {
+        useScrollStore.getState().endTransition();
+      });
+
+      await expect(promise).resolves.toMatchObject({ status: 'completed', toIndex: 2 });
+    });
+  });
+});
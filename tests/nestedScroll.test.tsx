@@ -0,0 +1,290 @@
+/**
+ * Nested Scroll Tests
+ * ====================
+ * Tests for the store-tracked NestedScrollView carousel.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent, renderHook } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { NestedScrollView, NestedScrollItem } from '../components/NestedScrollView';
+import { useNestedScroll } from '../hooks/useNestedScroll';
+import { createScrollStore } from '../store/navigation.store';
+import { NESTED_SCROLL_IDLE } from '../constants';
+import type { ScrollStore } from '../store';
+import type { NestedScrollViewProps } from '../types';
+
+describe('setNestedIndex', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    store.getState().registerView({
+      id: 'gallery',
+      type: 'nested',
+      nestedConfig: { direction: 'horizontal', itemCount: 3 },
+    });
+    store.getState().registerView({ id: 'other', type: 'full' });
+  });
+
+  it('should store the active item on the view', () => {
+    store.getState().setNestedIndex('gallery', 2);
+    expect(store.getState().views[0].activeNestedIndex).toBe(2);
+  });
+
+  it('should clamp to itemCount', () => {
+    store.getState().setNestedIndex('gallery', 7);
+    expect(store.getState().views[0].activeNestedIndex).toBe(2);
+
+    store.getState().setNestedIndex('gallery', -1);
+    expect(store.getState().views[0].activeNestedIndex).toBe(0);
+  });
+
+  it('should start at nestedConfig.activeItem', () => {
+    store.getState().registerView({
+      id: 'controlled',
+      type: 'nested',
+      nestedConfig: { direction: 'horizontal', activeItem: 1 },
+    });
+    expect(store.getState().views[2].activeNestedIndex).toBe(1);
+  });
+});
+
+describe('useNestedScroll', () => {
+  it('should expose next/prev/goTo', () => {
+    const store = createScrollStore();
+    store.getState().registerView({
+      id: 'gallery',
+      type: 'nested',
+      nestedConfig: { direction: 'horizontal', itemCount: 3 },
+    });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>
+    );
+    const { result } = renderHook(() => useNestedScroll('gallery'), { wrapper });
+
+    expect(result.current).toMatchObject({ activeItem: 0, itemCount: 3, canPrev: false, canNext: true });
+
+    act(() => result.current.next());
+    expect(result.current.activeItem).toBe(1);
+
+    act(() => result.current.goTo(2));
+    expect(result.current).toMatchObject({ activeItem: 2, canNext: false });
+
+    act(() => result.current.prev());
+    expect(store.getState().views[0].activeNestedIndex).toBe(1);
+  });
+});
+
+describe('NestedScrollView', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderGallery(props: Partial<NestedScrollViewProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0}>
+          <NestedScrollView id="gallery" {...props}>
+            <NestedScrollItem>1</NestedScrollItem>
+            <NestedScrollItem>2</NestedScrollItem>
+            <NestedScrollItem>3</NestedScrollItem>
+          </NestedScrollView>
+          <FullView id="next">Next</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function getGallery() {
+    return store.getState().views.find((v) => v.id === 'gallery')!;
+  }
+
+  it('should count NestedScrollItem children', () => {
+    renderGallery();
+    expect(getGallery().config).toMatchObject({ nestedConfig: { itemCount: 3 } });
+  });
+
+  it('should drive the carousel with ArrowLeft/ArrowRight', () => {
+    const onItemChange = vi.fn();
+    renderGallery({ onItemChange });
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(getGallery().activeNestedIndex).toBe(2);
+    expect(onItemChange).toHaveBeenLastCalledWith(2);
+
+    // Clamped at the last item, main navigation untouched
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(getGallery().activeNestedIndex).toBe(2);
+    expect(store.getState().activeIndex).toBe(0);
+
+    fireEvent.keyDown(window, { key: 'ArrowLeft' });
+    expect(getGallery().activeNestedIndex).toBe(1);
+  });
+
+  it('should follow the controlled activeItem prop', () => {
+    const { rerender } = renderGallery({ activeItem: 1 });
+    expect(getGallery().activeNestedIndex).toBe(1);
+
+    rerender(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0}>
+          <NestedScrollView id="gallery" activeItem={2}>
+            <NestedScrollItem>1</NestedScrollItem>
+            <NestedScrollItem>2</NestedScrollItem>
+            <NestedScrollItem>3</NestedScrollItem>
+          </NestedScrollView>
+          <FullView id="next">Next</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+    expect(getGallery().activeNestedIndex).toBe(2);
+  });
+
+  it('should scroll the container when the store index changes', () => {
+    const { container } = renderGallery();
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    const scrollTo = vi.fn();
+    scroller.scrollTo = scrollTo;
+    Object.defineProperty(scroller, 'clientWidth', { value: 400 });
+
+    act(() => {
+      store.getState().setNestedIndex('gallery', 2);
+    });
+    expect(scrollTo).toHaveBeenCalledWith({ left: 800, behavior: 'smooth' });
+  });
+
+  it('should report native scrolling to the store', () => {
+    const { container } = renderGallery();
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    Object.defineProperty(scroller, 'clientWidth', { value: 400 });
+    scroller.scrollTo = vi.fn();
+
+    scroller.scrollLeft = 400;
+    fireEvent.scroll(scroller);
+    expect(getGallery().activeNestedIndex).toBe(1);
+    expect(scroller.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should ignore scroll events while a programmatic scroll is in flight', () => {
+    const onItemChange = vi.fn();
+    const { container } = renderGallery({ onItemChange });
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    Object.defineProperty(scroller, 'clientWidth', { value: 400 });
+    scroller.scrollTo = vi.fn();
+
+    act(() => {
+      store.getState().setNestedIndex('gallery', 2);
+    });
+    // Smooth scroll passing over item 1
+    scroller.scrollLeft = 400;
+    fireEvent.scroll(scroller);
+    expect(getGallery().activeNestedIndex).toBe(2);
+    expect(onItemChange).toHaveBeenCalledTimes(1);
+
+    scroller.scrollLeft = 800;
+    fireEvent.scroll(scroller);
+    act(() => {
+      scroller.dispatchEvent(new Event('scrollend'));
+    });
+
+    // User scrolling counts again once it ended
+    scroller.scrollLeft = 400;
+    fireEvent.scroll(scroller);
+    expect(getGallery().activeNestedIndex).toBe(1);
+  });
+
+  it('should stop ignoring scroll events after NESTED_SCROLL_IDLE without scrollend', () => {
+    const { container } = renderGallery();
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    Object.defineProperty(scroller, 'clientWidth', { value: 400 });
+    scroller.scrollTo = vi.fn();
+
+    act(() => {
+      store.getState().setNestedIndex('gallery', 2);
+    });
+    scroller.scrollLeft = 800;
+    fireEvent.scroll(scroller);
+    act(() => {
+      vi.advanceTimersByTime(NESTED_SCROLL_IDLE);
+    });
+
+    scroller.scrollLeft = 0;
+    fireEvent.scroll(scroller);
+    expect(getGallery().activeNestedIndex).toBe(0);
+  });
+
+  it('should snap back to a controlled activeItem the parent keeps', () => {
+    const onItemChange = vi.fn();
+    const { container } = renderGallery({ activeItem: 0, onItemChange });
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    Object.defineProperty(scroller, 'clientWidth', { value: 400 });
+    scroller.scrollTo = vi.fn();
+
+    scroller.scrollLeft = 400;
+    fireEvent.scroll(scroller);
+    expect(onItemChange).toHaveBeenCalledWith(1);
+    expect(getGallery().activeNestedIndex).toBe(0);
+
+    act(() => {
+      scroller.dispatchEvent(new Event('scrollend'));
+    });
+    expect(scroller.scrollTo).toHaveBeenCalledWith({ left: 0, behavior: 'smooth' });
+  });
+
+  it('should follow a controlled activeItem the parent updates, reporting it once', () => {
+    const onItemChange = vi.fn();
+    function Controlled() {
+      const [item, setItem] = React.useState(0);
+      return (
+        <ScrollSystemProvider store={store}>
+          <ScrollContainer transitionDuration={0}>
+            <NestedScrollView
+              id="gallery"
+              activeItem={item}
+              onItemChange={(index) => {
+                onItemChange(index);
+                setItem(index);
+              }}
+            >
+              <NestedScrollItem>1</NestedScrollItem>
+              <NestedScrollItem>2</NestedScrollItem>
+              <NestedScrollItem>3</NestedScrollItem>
+            </NestedScrollView>
+          </ScrollContainer>
+        </ScrollSystemProvider>
+      );
+    }
+    const { container } = render(<Controlled />);
+    const scroller = container.querySelector('.nested-scroll-container') as HTMLElement;
+    Object.defineProperty(scroller, 'clientWidth', { value: 400 });
+    scroller.scrollTo = vi.fn();
+
+    scroller.scrollLeft = 400;
+    fireEvent.scroll(scroller);
+    act(() => {
+      scroller.dispatchEvent(new Event('scrollend'));
+    });
+
+    expect(getGallery().activeNestedIndex).toBe(1);
+    expect(onItemChange).toHaveBeenCalledTimes(1);
+    expect(scroller.scrollTo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Persistence Tests
+ * ==================
+ * Tests for the ScrollContainer `persist` option: saving and restoring without animation.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { ScrollLockedView } from '../components/ScrollLockedView';
+import { NestedScrollView } from '../components/NestedScrollView';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import { DEFAULT_PERSIST_KEY, PERSIST_DEBOUNCE } from '../constants';
+import type { ScrollStore } from '../store';
+import type { PersistedScrollState, PersistStorage, ScrollContainerProps } from '../types';
+
+describe('ScrollContainer persist', () => {
+  let store: ScrollStore;
+
+  function createMemoryStorage(initial?: PersistedScrollState) {
+    const items = new Map<string, string>();
+    if (initial) items.set('scroll', JSON.stringify(initial));
+    const storage: PersistStorage = {
+      getItem: vi.fn((key: string) => items.get(key) ?? null),
+      setItem: vi.fn((key: string, value: string) => {
+        items.set(key, value);
+      }),
+    };
+    return { storage, read: () => JSON.parse(items.get('scroll') ?? 'null') as PersistedScrollState | null };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+    window.sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderContainer(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={400} {...props}>
+          <FullView id="intro">Intro</FullView>
+          <ScrollLockedView id="terms">
+            <p>Terms</p>
+          </ScrollLockedView>
+          <NestedScrollView id="gallery" direction="horizontal">
+            <div>One</div>
+            <div>Two</div>
+            <div>Three</div>
+          </NestedScrollView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  it('should save the position to a custom storage', () => {
+    const { storage, read } = createMemoryStorage();
+    renderContainer({ persist: { key: 'scroll', storage } });
+
+    act(() => {
+      store.getState().goToView('gallery');
+      store.getState().endTransition();
+    });
+    act(() => store.getState().setNestedIndex('gallery', 2));
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(PERSIST_DEBOUNCE);
+    });
+    expect(read()).toMatchObject({
+      activeIndex: 2,
+      activeId: 'gallery',
+      activeColumn: 0,
+      views: { gallery: { nestedIndex: 2 } },
+    });
+  });
+
+  it('should restore on initialize without a transition', () => {
+    const { storage } = createMemoryStorage({
+      activeIndex: 2,
+      activeId: 'gallery',
+      activeColumn: 0,
+      views: {
+        terms: { scrollTop: 320, snapPointId: null, nestedIndex: 0 },
+        gallery: { scrollTop: 0, snapPointId: null, nestedIndex: 1 },
+      },
+    });
+    const startTransition = vi.spyOn(store.getState(), 'startTransition');
+    const { container } = renderContainer({ persist: { key: 'scroll', storage } });
+
+    expect(store.getState().activeId).toBe('gallery');
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(startTransition).not.toHaveBeenCalled();
+    expect((container.querySelector('.scroll-wrapper') as HTMLElement).style.transform).toBe('translateY(-200vh)');
+
+    expect(store.getState().views[2].activeNestedIndex).toBe(1);
+    expect((container.querySelector('#terms [data-scrollable="true"]') as HTMLElement).scrollTop).toBe(320);
+  });
+
+  it('should report the restored scroll offset to the store', () => {
+    // jsdom has no layout: give scrollable views a size
+    const scrollHeight = vi.spyOn(HTMLElement.prototype, 'scrollHeight', 'get').mockReturnValue(1120);
+    const clientHeight = vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(800);
+    const { storage } = createMemoryStorage({
+      activeIndex: 1,
+      activeId: 'terms',
+      activeColumn: 0,
+      views: { terms: { scrollTop: 320, snapPointId: null, nestedIndex: 0 } },
+    });
+    renderContainer({ persist: { key: 'scroll', storage } });
+
+    expect(store.getState().views[1].metrics.scrollTop).toBe(320);
+    expect(store.getState().views[1].progress).toBe(1);
+    scrollHeight.mockRestore();
+    clientHeight.mockRestore();
+  });
+
+  it('should prefer the saved id over the saved index', () => {
+    const { storage } = createMemoryStorage({
+      activeIndex: 0,
+      activeId: 'terms',
+      activeColumn: 0,
+      views: {},
+    });
+    renderContainer({ persist: { key: 'scroll', storage } });
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should use sessionStorage by default and ignore invalid data', () => {
+    window.sessionStorage.setItem(DEFAULT_PERSIST_KEY, '{not json');
+    renderContainer({ persist: true });
+    expect(store.getState().activeIndex).toBe(0);
+
+    act(() => {
+      store.getState().goToView(1);
+      vi.advanceTimersByTime(PERSIST_DEBOUNCE);
+    });
+    expect(JSON.parse(window.sessionStorage.getItem(DEFAULT_PERSIST_KEY)!)).toMatchObject({ activeId: 'terms' });
+  });
+
+  it('should not touch storage when disabled', () => {
+    const { storage } = createMemoryStorage();
+    renderContainer();
+    act(() => {
+      store.getState().goToView(1);
+      vi.advanceTimersByTime(PERSIST_DEBOUNCE);
+    });
+    expect(storage.getItem).not.toHaveBeenCalled();
+    expect(window.sessionStorage.getItem(DEFAULT_PERSIST_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Pointer Gesture Tests
+ * ======================
+ * Tests for mouse/pen/touch drag and swipe via Pointer Events.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, renderHook, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { useDragHandler } from '../hooks/useDragHandler';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('Pointer Gestures', () => {
+  let store: ScrollStore;
+  let onButtonClick: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+    onButtonClick = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderContainer(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0} {...props}>
+          <FullView id="a">
+            <button onClick={onButtonClick}>Like</button>
+          </FullView>
+          <FullView id="b">B</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function drag(target: Element, pointerType: string, init: PointerEventInit = {}) {
+    fireEvent.pointerDown(target, { pointerType, clientY: 600, ...init });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerMove(target, { pointerType, clientY: 300, ...init });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerUp(target, { pointerType, clientY: 300, ...init });
+  }
+
+  it('should ignore mouse drags by default', () => {
+    renderContainer({ enableDragPhysics: true });
+
+    drag(document.body, 'mouse');
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should drag with the mouse when enableMouseDrag is set', () => {
+    renderContainer({ enableDragPhysics: true, gestureConfig: { enableMouseDrag: true } });
+
+    drag(document.body, 'mouse');
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should drag with a pen like with touch', () => {
+    renderContainer({ enableDragPhysics: true });
+
+    drag(document.body, 'pen');
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should ignore touch and pen when enableTouch is false', () => {
+    renderContainer({ enableDragPhysics: true, gestureConfig: { enableTouch: false } });
+
+    drag(document.body, 'touch');
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should ignore non-primary pointers', () => {
+    renderContainer({ enableDragPhysics: true });
+
+    drag(document.body, 'touch', { isPrimary: false, pointerId: 2 });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should swipe with the discrete handler when drag physics are off', () => {
+    renderContainer({ gestureConfig: { enableMouseDrag: true } });
+
+    drag(document.body, 'mouse');
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should capture the pointer once the drag passes the slop', () => {
+    const { getByText } = renderContainer({ enableDragPhysics: true });
+    const button = getByText('Like');
+    const setPointerCapture = vi.fn();
+    button.setPointerCapture = setPointerCapture;
+
+    drag(button, 'touch', { pointerId: 7 });
+    expect(setPointerCapture).toHaveBeenCalledWith(7);
+  });
+
+  it('should suppress the click that follows a drag', () => {
+    const { getByText } = renderContainer({ enableDragPhysics: true });
+    const button = getByText('Like');
+
+    drag(button, 'touch');
+    fireEvent.click(button);
+    expect(onButtonClick).not.toHaveBeenCalled();
+
+    // Later clicks go through
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    fireEvent.click(button);
+    expect(onButtonClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not suppress a plain tap', () => {
+    const { getByText } = renderContainer({ enableDragPhysics: true });
+    const button = getByText('Like');
+
+    fireEvent.pointerDown(button, { pointerType: 'touch', clientY: 300 });
+    fireEvent.pointerUp(button, { pointerType: 'touch', clientY: 302 });
+    fireEvent.click(button);
+
+    expect(onButtonClick).toHaveBeenCalledTimes(1);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should only hand a release to the snap animation after an actual drag', () => {
+    store.getState().registerView({ id: 'a', type: 'full' });
+    store.getState().registerView({ id: 'b', type: 'full' });
+    store.getState().initialize();
+    const onRelease = vi.fn();
+    renderHook(() => useDragHandler({ onRelease }), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    });
+
+    // A click that starts a navigation keeps the configured duration/easing
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientY: 300 });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientY: 302 });
+    expect(onRelease).not.toHaveBeenCalled();
+
+    drag(document.body, 'touch');
+    expect(onRelease).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop a move frame still queued at release', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+    store.getState().registerView({ id: 'a', type: 'full' });
+    store.getState().registerView({ id: 'b', type: 'full' });
+    store.getState().initialize();
+    // Stable callback, as ScrollContainer passes: the listeners stay attached across renders
+    const onRelease = vi.fn();
+    const { result } = renderHook(() => useDragHandler({ onRelease }), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    });
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientY: 600 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    // Released before the move's frame runs
+    fireEvent.pointerMove(document.body, { pointerType: 'touch', clientY: 500 });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientY: 500 });
+    act(() => {
+      vi.advanceTimersByTime(32);
+    });
+
+    expect(result.current).toMatchObject({ isDragging: false, dragOffset: 0, dragDirection: null });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Read Completion Tests
+ * ======================
+ * Tests for ScrollLockedView minDwellMs / requireSections and the lock reason.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, renderHook } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { ScrollLockedView } from '../components/ScrollLockedView';
+import { FullView } from '../components/FullView';
+import { useViewProgress } from '../hooks/useViewProgress';
+import { createScrollStore, getViewLockReason } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollLockedViewProps } from '../types';
+
+// jsdom has no IntersectionObserver: entries are pushed by hand
+class IntersectionObserverMock {
+  static instances: IntersectionObserverMock[] = [];
+  observed = new Set<Element>();
+
+  constructor(
+    public callback: IntersectionObserverCallback,
+    public options?: IntersectionObserverInit
+  ) {
+    IntersectionObserverMock.instances.push(this);
+  }
+
+  observe(el: Element) { this.observed.add(el); }
+  unobserve(el: Element) { this.observed.delete(el); }
+  disconnect() { this.observed.clear(); }
+
+  emit(target: Element, isIntersecting: boolean) {
+    this.callback(
+      [{ target, isIntersecting, intersectionRatio: isIntersecting ? 1 : 0 } as IntersectionObserverEntry],
+      this as unknown as IntersectionObserver
+    );
+  }
+}
+
+function latestObserver() {
+  return IntersectionObserverMock.instances[IntersectionObserverMock.instances.length - 1];
+}
+
+describe('getViewLockReason', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    store.getState().registerView({ id: 'terms', type: 'scroll-locked', scrollDirection: 'vertical' });
+    store.getState().registerView({ id: 'next', type: 'full' });
+    store.getState().initialize();
+  });
+
+  const terms = () => store.getState().views[0];
+
+  it('should report the pending scroll before read requirements', () => {
+    store.getState().updateViewMetrics('terms', { scrollHeight: 2000, clientHeight: 800, scrollTop: 0 });
+    store.getState().setViewReadRequirements('terms', ['dwell']);
+    expect(getViewLockReason(terms())).toBe('scroll');
+
+    store.getState().updateViewMetrics('terms', { scrollHeight: 2000, clientHeight: 800, scrollTop: 1200 });
+    expect(getViewLockReason(terms())).toBe('dwell');
+    expect(store.getState().processIntention({ type: 'navigate', direction: 'down', strength: 1, origin: 'wheel' })).toBe(false);
+
+    store.getState().setViewReadRequirements('terms', []);
+    expect(getViewLockReason(terms())).toBeNull();
+    expect(terms().navigation).toBe('unlocked');
+  });
+
+  it('should report explicit locks first', () => {
+    store.getState().setViewReadRequirements('terms', ['sections']);
+    store.getState().setViewLock('terms', ['forward']);
+    expect(getViewLockReason(terms())).toBe('explicit');
+  });
+});
+
+describe('ScrollLockedView read rules', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    IntersectionObserverMock.instances = [];
+    window.IntersectionObserver = IntersectionObserverMock as unknown as typeof IntersectionObserver;
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (window as Partial<Window>).IntersectionObserver;
+  });
+
+  function renderTerms(props: Partial<ScrollLockedViewProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0}>
+          <ScrollLockedView id="terms" {...props}>
+            <p data-scroll-section>Privacy</p>
+            <p data-scroll-section>Liability</p>
+          </ScrollLockedView>
+          <FullView id="next">Next</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  const progress = () =>
+    renderHook(() => useViewProgress('terms'), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    }).result;
+
+  it('should stay locked until minDwellMs has passed', () => {
+    renderTerms({ minDwellMs: 3000 });
+    const result = progress();
+
+    expect(result.current.lockReason).toBe('dwell');
+    expect(result.current.pendingRequirements).toEqual(['dwell']);
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(store.getState().views[0].navigation).toBe('locked');
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.lockReason).toBeNull();
+    expect(store.getState().views[0].navigation).toBe('unlocked');
+  });
+
+  it('should unlock once every section has been visible long enough', () => {
+    const { container } = renderTerms({ requireSections: { minVisibleMs: 500 } });
+    const result = progress();
+    const [privacy, liability] = Array.from(container.querySelectorAll('[data-scroll-section]'));
+    const observer = latestObserver();
+
+    expect(observer.options?.root).toBe(container.querySelector('[data-scrollable="true"]'));
+    expect(result.current.lockReason).toBe('sections');
+
+    // Scrolled away too early: doesn't count
+    act(() => {
+      observer.emit(privacy, true);
+      vi.advanceTimersByTime(300);
+      observer.emit(privacy, false);
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current.lockReason).toBe('sections');
+
+    act(() => {
+      observer.emit(privacy, true);
+      vi.advanceTimersByTime(500);
+    });
+    expect(observer.observed.has(privacy)).toBe(false);
+    expect(result.current.lockReason).toBe('sections');
+
+    act(() => {
+      observer.emit(liability, true);
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current.lockReason).toBeNull();
+    expect(result.current.pendingRequirements).toEqual([]);
+  });
+
+  it('should not trap the user without IntersectionObserver', () => {
+    delete (window as Partial<Window>).IntersectionObserver;
+    renderTerms({ requireSections: true });
+
+    expect(store.getState().views[0].readRequirements).toEqual([]);
+    expect(store.getState().views[0].navigation).toBe('unlocked');
+  });
+});
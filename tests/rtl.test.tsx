@@ -0,0 +1,191 @@
+/**
+ * RTL Tests
+ * ==========
+ * Tests for right-to-left horizontal decks (dir prop and detection).
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import { createTransitionPreset } from '../utils/transitions';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('RTL intentions in the store', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+    for (let i = 0; i < 3; i++) {
+      store.getState().registerView({ id: `view-${i}`, type: 'full' });
+    }
+    store.getState().initialize();
+    store.getState().setLayoutDirection('rtl');
+  });
+
+  it('should treat left as forward and right as backward', () => {
+    store.getState().processIntention({ type: 'navigate', direction: 'left', strength: 1, origin: 'touch' });
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().lastNavigationDirection).toBe('down');
+
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+
+    store.getState().processIntention({ type: 'navigate', direction: 'right', strength: 1, origin: 'touch' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should reject right at the first view', () => {
+    const handled = store.getState().processIntention({
+      type: 'navigate', direction: 'right', strength: 1, origin: 'keyboard',
+    });
+    expect(handled).toBe(false);
+  });
+
+  it('should keep down/up as next/previous', () => {
+    store.getState().processIntention({ type: 'navigate', direction: 'down', strength: 1, origin: 'keyboard' });
+    expect(store.getState().activeIndex).toBe(1);
+  });
+});
+
+describe('Mirrored transition presets', () => {
+  it('should slide the next view in from the left', () => {
+    const ltr = createTransitionPreset('slide', 'horizontal');
+    const rtl = createTransitionPreset('slide', 'horizontal', 'rtl');
+
+    expect(ltr(1, 0, 0).transform).toBe('translateX(100%)');
+    expect(rtl(1, 0, 0).transform).toBe('translateX(-100%)');
+  });
+
+  it('should not mirror vertical presets', () => {
+    const slide = createTransitionPreset('slide', 'vertical', 'rtl');
+    expect(slide(1, 0, 0).transform).toBe('translateY(100%)');
+  });
+
+  it('should hinge the cube on the mirrored edge', () => {
+    const cube = createTransitionPreset('cube', 'horizontal', 'rtl');
+    expect(cube(1, 0, 0.5).transformOrigin).toBe('right center');
+  });
+});
+
+describe('ScrollContainer dir', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderDeck(props: Partial<ScrollContainerProps> = {}, wrapperDir?: 'ltr' | 'rtl') {
+    const result = render(
+      <div dir={wrapperDir}>
+        <ScrollSystemProvider store={store}>
+          <ScrollContainer orientation="horizontal" transitionDuration={0} {...props}>
+            <FullView id="a">A</FullView>
+            <FullView id="b">B</FullView>
+            <FullView id="c">C</FullView>
+          </ScrollContainer>
+        </ScrollSystemProvider>
+      </div>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function settle() {
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+  }
+
+  it('should default to ltr', () => {
+    renderDeck();
+    expect(store.getState().layoutDirection).toBe('ltr');
+  });
+
+  it('should apply an explicit dir and mirror the wrapper', () => {
+    const { container } = renderDeck({ dir: 'rtl' });
+    const scrollContainer = container.querySelector('.scroll-container') as HTMLElement;
+    const wrapper = container.querySelector('.scroll-wrapper') as HTMLElement;
+
+    expect(scrollContainer.getAttribute('dir')).toBe('rtl');
+    expect(store.getState().layoutDirection).toBe('rtl');
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+    settle();
+    expect(wrapper.style.transform).toBe('translateX(100vw)');
+  });
+
+  it('should detect rtl from an ancestor', () => {
+    const { container } = renderDeck({}, 'rtl');
+    expect(store.getState().layoutDirection).toBe('rtl');
+    expect(container.querySelector('.scroll-container')?.hasAttribute('dir')).toBe(false);
+  });
+
+  it('should let an explicit dir override the detected one', () => {
+    renderDeck({ dir: 'ltr' }, 'rtl');
+    expect(store.getState().layoutDirection).toBe('ltr');
+  });
+
+  it('should navigate with ArrowLeft / ArrowRight mirrored', () => {
+    renderDeck({ dir: 'rtl' });
+
+    fireEvent.keyDown(window, { key: 'ArrowLeft' });
+    expect(store.getState().activeIndex).toBe(1);
+
+    settle();
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should keep PageDown as next', () => {
+    renderDeck({ dir: 'rtl' });
+
+    fireEvent.keyDown(window, { key: 'PageDown' });
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should invert horizontal swipes', () => {
+    renderDeck({ dir: 'rtl' });
+
+    // Finger moves right → next view in RTL
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientX: 100, clientY: 300 });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientX: 300, clientY: 310 });
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should invert horizontal drags', () => {
+    renderDeck({ dir: 'rtl', enableDragPhysics: true });
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientX: 100, clientY: 300 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerMove(document.body, { pointerType: 'touch', clientX: 400, clientY: 300 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientX: 400, clientY: 300 });
+
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should reset the store direction on unmount', () => {
+    const { unmount } = renderDeck({ dir: 'rtl' });
+    unmount();
+    expect(store.getState().layoutDirection).toBe('ltr');
+  });
+});
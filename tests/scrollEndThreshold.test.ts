@@ -0,0 +1,100 @@
+/**
+ * Scroll End Threshold Tests
+ * ===========================
+ * Tests for the per-view end of scroll: ratio, px offset and hysteresis.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { ScrollLockedViewConfig } from '../types';
+
+// maxScroll = 1000
+function scrollTo(store: ScrollStore, scrollTop: number) {
+  store.getState().updateViewMetrics('article', { scrollHeight: 1800, clientHeight: 800, scrollTop });
+}
+
+describe('Scroll end threshold', () => {
+  let store: ScrollStore;
+
+  function setup(config: Partial<ScrollLockedViewConfig> = {}) {
+    store.getState().registerView({ id: 'article', type: 'scroll-locked', scrollDirection: 'vertical', ...config });
+    store.getState().registerView({ id: 'next', type: 'full' });
+    store.getState().initialize();
+    scrollTo(store, 0);
+  }
+
+  const navigation = () => store.getState().views[0].navigation;
+
+  beforeEach(() => {
+    store = createScrollStore();
+  });
+
+  it('should unlock at 99% by default', () => {
+    setup();
+    expect(navigation()).toBe('locked');
+
+    scrollTo(store, 985);
+    expect(navigation()).toBe('locked');
+
+    scrollTo(store, 990);
+    expect(navigation()).toBe('unlocked');
+    expect(store.getState().views[0].scrollEndReached).toBe(true);
+  });
+
+  it('should respect a per-view ratio', () => {
+    setup({ scrollEndThreshold: 0.8 });
+
+    scrollTo(store, 790);
+    expect(navigation()).toBe('locked');
+
+    scrollTo(store, 800);
+    expect(navigation()).toBe('unlocked');
+  });
+
+  it('should accept a distance in px from the end', () => {
+    setup({ scrollEndThreshold: 0.5, scrollEndOffset: 100 });
+
+    scrollTo(store, 600);
+    expect(navigation()).toBe('locked');
+
+    scrollTo(store, 900);
+    expect(navigation()).toBe('unlocked');
+  });
+
+  it('should not relock on a small bounce-back', () => {
+    setup();
+    scrollTo(store, 1000);
+    expect(navigation()).toBe('unlocked');
+
+    // iOS rubber-band settling a few px above the end
+    scrollTo(store, 980);
+    expect(navigation()).toBe('unlocked');
+  });
+
+  it('should relock once the user scrolls back past the hysteresis', () => {
+    setup({ scrollEndHysteresis: 30 });
+    scrollTo(store, 1000);
+
+    scrollTo(store, 960);
+    expect(navigation()).toBe('unlocked');
+
+    scrollTo(store, 950);
+    expect(navigation()).toBe('locked');
+
+    // Back to the plain threshold to unlock again
+    scrollTo(store, 970);
+    expect(navigation()).toBe('locked');
+    scrollTo(store, 990);
+    expect(navigation()).toBe('unlocked');
+  });
+
+  it('should re-evaluate when the threshold changes', () => {
+    setup();
+    scrollTo(store, 900);
+    expect(navigation()).toBe('locked');
+
+    store.getState().updateViewConfig('article', { scrollEndThreshold: 0.9 } as Partial<ScrollLockedViewConfig>);
+    expect(navigation()).toBe('unlocked');
+  });
+});
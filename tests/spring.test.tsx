@@ -0,0 +1,186 @@
+/**
+ * Spring Physics Tests
+ * =====================
+ * Tests for the spring simulation, rubber-banding and drag release snaps.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import { createAnimationController } from '../utils/animationController';
+import { DEFAULT_SPRING, isSpringSettled, resolveSpring, rubberBand, stepSpring } from '../utils/spring';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('Spring simulation', () => {
+  it('should settle at the target', () => {
+    let state = { position: 0, velocity: 0 };
+    for (let i = 0; i < 200 && !isSpringSettled(state, 1); i++) {
+      state = stepSpring(state, 1, DEFAULT_SPRING, 16);
+    }
+
+    expect(isSpringSettled(state, 1)).toBe(true);
+  });
+
+  it('should overshoot with low damping', () => {
+    const bouncy = resolveSpring({ damping: 5 });
+    let state = { position: 0, velocity: 0 };
+    let max = 0;
+    for (let i = 0; i < 60; i++) {
+      state = stepSpring(state, 1, bouncy, 16);
+      max = Math.max(max, state.position);
+    }
+
+    expect(max).toBeGreaterThan(1);
+  });
+
+  it('should carry the initial velocity', () => {
+    const still = stepSpring({ position: 0, velocity: 0 }, 1, DEFAULT_SPRING, 16);
+    const flung = stepSpring({ position: 0, velocity: 5 }, 1, DEFAULT_SPRING, 16);
+
+    expect(flung.position).toBeGreaterThan(still.position);
+  });
+
+  it('resolveSpring should fill in defaults', () => {
+    expect(resolveSpring({ stiffness: 120 })).toEqual({ ...DEFAULT_SPRING, stiffness: 120 });
+  });
+});
+
+describe('rubberBand', () => {
+  it('should resist more the further you drag and never exceed one view', () => {
+    const small = rubberBand(0.1, 0.3);
+    const large = rubberBand(2, 0.3);
+
+    expect(small).toBeLessThan(0.1);
+    expect(large).toBeLessThan(1);
+    expect(large).toBeGreaterThan(small);
+  });
+
+  it('should keep the sign of the offset', () => {
+    expect(rubberBand(-0.5, 0.3)).toBeLessThan(0);
+    expect(rubberBand(0, 0.3)).toBe(0);
+  });
+});
+
+describe('createAnimationController springTo', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should finish when the spring comes to rest', () => {
+    const onFinish = vi.fn();
+    const controller = createAnimationController({ onFrame: vi.fn(), onFinish });
+
+    controller.springTo(1);
+    vi.advanceTimersByTime(100);
+    expect(onFinish).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(3000);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(controller.getPosition()).toBe(1);
+    expect(controller.isAnimating()).toBe(false);
+  });
+});
+
+describe('ScrollContainer drag release', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderContainer(props: Partial<ScrollContainerProps> = {}) {
+    const result = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer enableDragPhysics {...props}>
+          <FullView id="a">A</FullView>
+          <FullView id="b">B</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    return result;
+  }
+
+  function drag(fromY: number, toY: number) {
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientY: fromY });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerMove(document.body, { pointerType: 'touch', clientY: toY });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientY: toY });
+  }
+
+  it('should spring to the next view and end the transition when it settles', () => {
+    renderContainer();
+
+    drag(600, 300);
+    expect(store.getState().activeIndex).toBe(1);
+    expect(store.getState().isTransitioning).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(store.getState().transitionProgress).toBe(1);
+  });
+
+  it('should rubber-band at the first view and settle back', () => {
+    const { container } = renderContainer();
+    const wrapper = container.querySelector('.scroll-wrapper') as HTMLElement;
+
+    fireEvent.pointerDown(document.body, { pointerType: 'touch', clientY: 200 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    fireEvent.pointerMove(document.body, { pointerType: 'touch', clientY: 600 });
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+
+    // Pulled down past the first view: resisted, not 1:1
+    const pulled = parseFloat(wrapper.style.transform.replace('translateY(', ''));
+    expect(pulled).toBeGreaterThan(0);
+    expect(pulled).toBeLessThan((400 / window.innerHeight) * 100);
+
+    fireEvent.pointerUp(document.body, { pointerType: 'touch', clientY: 600 });
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(store.getState().activeIndex).toBe(0);
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(wrapper.style.transform).toBe('translateY(0vh)');
+  });
+
+  it('should fall back to the eased tween with spring: false', () => {
+    renderContainer({ gestureConfig: { spring: false }, transitionDuration: 300 });
+
+    drag(600, 300);
+    expect(store.getState().isTransitioning).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(350);
+    });
+    expect(store.getState().isTransitioning).toBe(false);
+  });
+});
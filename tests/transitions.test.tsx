@@ -0,0 +1,186 @@
+/**
+ * Transition Engine Tests
+ * ========================
+ * Tests for transition presets, custom functions and per-view overrides.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import { createTransitionPreset, resolveTransition } from '../utils/transitions';
+import type { ScrollStore } from '../store';
+import type { ScrollContainerProps } from '../types';
+
+describe('Transition Presets', () => {
+  it('slide should translate views by their offset from the active one', () => {
+    const slide = createTransitionPreset('slide');
+
+    expect(slide(2, 1, 0).transform).toBe('translateY(100%)');
+    expect(slide(0, 1, 0).transform).toBe('translateY(-100%)');
+    expect(createTransitionPreset('slide', 'horizontal')(1, 1, 0).transform).toBe('translateX(0%)');
+  });
+
+  it('slide should follow the drag offset', () => {
+    const slide = createTransitionPreset('slide');
+    expect(slide(1, 0, 0.5).transform).toBe('translateY(50%)');
+  });
+
+  it('fade should only show the active view at rest', () => {
+    const fade = createTransitionPreset('fade');
+
+    expect(fade(3, 3, 0).opacity).toBe(1);
+    expect(fade(4, 3, 0).opacity).toBe(0);
+    expect(fade(4, 3, 0.5).opacity).toBe(0.5);
+  });
+
+  it('stack should slide the next card over and shrink the previous ones', () => {
+    const stack = createTransitionPreset('stack');
+
+    expect(stack(2, 1, 0).transform).toBe('translateY(100%)');
+    expect(stack(0, 1, 0).transform).toBe('scale(0.9)');
+    expect(stack(2, 1, 0).zIndex).toBeGreaterThan(stack(1, 1, 0).zIndex as number);
+  });
+
+  it('cube should rotate neighbours around the shared edge', () => {
+    const cube = createTransitionPreset('cube');
+    const next = cube(1, 0, 0);
+
+    expect(next.transform).toContain('rotateX(-90deg)');
+    expect(next.transformOrigin).toBe('center top');
+  });
+
+  it('zoom should scale the incoming view up from a smaller size', () => {
+    const zoom = createTransitionPreset('zoom');
+
+    expect(zoom(1, 1, 0).transform).toBe('scale(1)');
+    expect(zoom(2, 1, 0).transform).toBe('scale(0.8)');
+    expect(zoom(2, 1, 0).opacity).toBe(0);
+  });
+
+  it('should hide views far from the active one', () => {
+    expect(createTransitionPreset('fade')(5, 1, 0).visibility).toBe('hidden');
+  });
+
+  it('resolveTransition should pass custom functions through', () => {
+    const custom = () => ({ opacity: 0.3 });
+    expect(resolveTransition(custom)).toBe(custom);
+  });
+});
+
+describe('ScrollContainer transitions', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function renderContainer(props: Partial<ScrollContainerProps>, views: React.ReactNode) {
+    return render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={0} {...props}>
+          {views}
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+  }
+
+  it('should keep the classic wrapper slide by default', () => {
+    const { container } = renderContainer({}, (
+      <>
+        <FullView id="a">A</FullView>
+        <FullView id="b">B</FullView>
+      </>
+    ));
+
+    const wrapper = container.querySelector('.scroll-wrapper') as HTMLElement;
+    const view = container.querySelector('#b') as HTMLElement;
+
+    expect(wrapper.style.transform).toBe('translateY(0vh)');
+    expect(view.style.position).toBe('relative');
+  });
+
+  it('should apply a preset per view instead of to the wrapper', () => {
+    const { container } = renderContainer({ transition: 'fade' }, (
+      <>
+        <FullView id="a">A</FullView>
+        <FullView id="b">B</FullView>
+      </>
+    ));
+
+    const wrapper = container.querySelector('.scroll-wrapper') as HTMLElement;
+    expect(wrapper.style.transform).toBe('');
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+
+    expect((container.querySelector('#a') as HTMLElement).style.opacity).toBe('0');
+    expect((container.querySelector('#b') as HTMLElement).style.opacity).toBe('1');
+  });
+
+  it('should call a custom transition with (viewIndex, activeIndex, offset)', () => {
+    const custom = vi.fn((viewIndex: number, activeIndex: number) => ({
+      opacity: viewIndex === activeIndex ? 1 : 0.25,
+    }));
+
+    const { container } = renderContainer({ transition: custom }, (
+      <>
+        <FullView id="a">A</FullView>
+        <FullView id="b">B</FullView>
+      </>
+    ));
+
+    expect(custom).toHaveBeenCalledWith(1, 0, 0);
+    expect((container.querySelector('#b') as HTMLElement).style.opacity).toBe('0.25');
+  });
+
+  it('should pass the animated offset to per-view transitions', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+    const custom = vi.fn(() => ({}));
+    renderContainer({ transition: custom, transitionDuration: 400, transitionEasing: 'linear' }, (
+      <>
+        <FullView id="a">A</FullView>
+        <FullView id="b">B</FullView>
+      </>
+    ));
+
+    act(() => {
+      store.getState().goToView(1);
+    });
+    for (let frame = 0; frame < 12; frame++) {
+      act(() => {
+        vi.advanceTimersByTime(16);
+      });
+    }
+
+    // Still on the way from view 0: between -1 and 0 views from the active one
+    const [, activeIndex, offset] = custom.mock.calls.at(-1) as unknown as [number, number, number];
+    expect(activeIndex).toBe(1);
+    expect(offset).toBeGreaterThan(-1);
+    expect(offset).toBeLessThan(0);
+  });
+
+  it('should let a view override the container effect', () => {
+    const { container } = renderContainer({}, (
+      <>
+        <FullView id="chapter-1">A</FullView>
+        <FullView id="chapter-break" transition="fade">Break</FullView>
+        <FullView id="chapter-2">B</FullView>
+      </>
+    ));
+
+    // Override switches the container to per-view mode; others keep sliding
+    expect((container.querySelector('#chapter-break') as HTMLElement).style.opacity).toBe('0');
+    expect((container.querySelector('#chapter-2') as HTMLElement).style.transform).toBe('translateY(200%)');
+    expect(store.getState().views[1].config.transition).toBe('fade');
+  });
+});
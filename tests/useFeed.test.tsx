@@ -0,0 +1,188 @@
+/**
+ * useFeed Tests
+ * ==============
+ * Tests for paginated feed loading with a local fake fetcher.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, act, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useFeed, type FeedState } from '../hooks/useFeed';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { FeedConfig, FeedPage } from '../types';
+
+interface Post {
+  id: string;
+}
+
+/** Fake backend: `total` posts, pages resolved manually via `flush()` */
+function createFakeFetcher(total: number) {
+  const pending: Array<{ resolve: () => void; reject: (err: Error) => void }> = [];
+
+  const fetchPage = vi.fn((cursor: number | null, pageSize: number) => {
+    const start = cursor ?? 0;
+    return new Promise<FeedPage<Post, number>>((resolve, reject) => {
+      pending.push({
+        resolve: () => {
+          const end = Math.min(start + pageSize, total);
+          const items = Array.from({ length: end - start }, (_, i) => ({ id: `post-${start + i}` }));
+          resolve({ items, nextCursor: end < total ? end : null });
+        },
+        reject,
+      });
+    });
+  });
+
+  return {
+    fetchPage,
+    flush: async () => {
+      await act(async () => {
+        pending.shift()?.resolve();
+      });
+    },
+    fail: async (message = 'network') => {
+      await act(async () => {
+        pending.shift()?.reject(new Error(message));
+      });
+    },
+  };
+}
+
+function renderFeed(store: ScrollStore, config: FeedConfig<Post, number>) {
+  const feed: { current: FeedState<Post> | null } = { current: null };
+
+  function Feed() {
+    const state = useFeed(config);
+    feed.current = state;
+    return (
+      <>
+        {state.items.map((post) => (
+          <FullView key={post.id} id={post.id}>{post.id}</FullView>
+        ))}
+      </>
+    );
+  }
+
+  render(
+    <ScrollSystemProvider store={store}>
+      <Feed />
+    </ScrollSystemProvider>
+  );
+
+  return feed as { current: FeedState<Post> };
+}
+
+const wheelDown = { type: 'navigate', direction: 'down', strength: 1, origin: 'wheel' } as const;
+
+describe('useFeed', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+  });
+
+  it('should load the first page on mount and append views', async () => {
+    const api = createFakeFetcher(50);
+    const feed = renderFeed(store, { fetchPage: api.fetchPage, pageSize: 5 });
+
+    expect(api.fetchPage).toHaveBeenCalledWith(null, 5);
+    expect(feed.current.isLoading).toBe(true);
+    expect(store.getState().isLoadingMore).toBe(true);
+
+    await api.flush();
+
+    expect(feed.current.items).toHaveLength(5);
+    expect(feed.current.isLoading).toBe(false);
+    expect(store.getState().totalViews).toBe(5);
+    expect(store.getState().isLoadingMore).toBe(false);
+  });
+
+  it('should fetch the next page when within prefetchThreshold of the end', async () => {
+    const api = createFakeFetcher(50);
+    renderFeed(store, { fetchPage: api.fetchPage, pageSize: 5, prefetchThreshold: 2 });
+    await api.flush();
+
+    act(() => {
+      store.getState().goToView(2);
+    });
+    expect(api.fetchPage).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      store.getState().endTransition();
+      store.getState().resetNavigationCooldown();
+      store.getState().goToView(3);
+    });
+    expect(api.fetchPage).toHaveBeenCalledTimes(2);
+    expect(api.fetchPage).toHaveBeenLastCalledWith(5, 5);
+
+    await api.flush();
+    expect(store.getState().totalViews).toBe(10);
+  });
+
+  it('should block forward navigation at the end with a "loading" reason', async () => {
+    const api = createFakeFetcher(50);
+    renderFeed(store, { fetchPage: api.fetchPage, pageSize: 3, prefetchThreshold: 1 });
+    await api.flush();
+
+    act(() => {
+      store.getState().goToView(2); // Last loaded view -> triggers next page
+    });
+    act(() => {
+      store.getState().endTransition();
+      store.getState().resetNavigationCooldown();
+    });
+
+    expect(store.getState().processIntention(wheelDown)).toBe(false);
+    const result = await store.getState().navigateTo(3);
+    expect(result).toMatchObject({ status: 'rejected', reason: 'loading' });
+
+    await api.flush();
+
+    expect(store.getState().processIntention(wheelDown)).toBe(true);
+    expect(store.getState().activeIndex).toBe(3);
+  });
+
+  it('should expose errors and retry the failed page', async () => {
+    const api = createFakeFetcher(50);
+    const feed = renderFeed(store, { fetchPage: api.fetchPage, pageSize: 5 });
+
+    await api.fail('offline');
+
+    expect(feed.current.error?.message).toBe('offline');
+    expect(feed.current.isLoading).toBe(false);
+    expect(store.getState().isLoadingMore).toBe(false);
+
+    act(() => {
+      feed.current.retry();
+    });
+    expect(api.fetchPage).toHaveBeenCalledTimes(2);
+    expect(api.fetchPage).toHaveBeenLastCalledWith(null, 5);
+    expect(feed.current.error).toBeNull();
+
+    await api.flush();
+    expect(feed.current.items).toHaveLength(5);
+  });
+
+  it('should stop loading when there are no more pages', async () => {
+    const api = createFakeFetcher(4);
+    const feed = renderFeed(store, { fetchPage: api.fetchPage, pageSize: 3, prefetchThreshold: 5 });
+
+    await api.flush();
+    await waitFor(() => expect(api.fetchPage).toHaveBeenCalledTimes(2));
+    await api.flush();
+
+    expect(feed.current.items).toHaveLength(4);
+    expect(feed.current.hasMore).toBe(false);
+    expect(api.fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not fetch when disabled', () => {
+    const api = createFakeFetcher(50);
+    renderFeed(store, { fetchPage: api.fetchPage, enabled: false });
+
+    expect(api.fetchPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for useScrollLock hook
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, render, act } from "@testing-library/react";
+import React from "react";
+import { useScrollLock } from "../hooks/useScrollLock";
+import { ScrollSystemProvider } from "../components/ScrollSystemProvider";
+import { ScrollDebugOverlay } from "../components/ScrollDebugOverlay";
+import { useScrollStore, createScrollStore, selectCanNavigateNext, selectCanNavigatePrevious } from "../store";
+import type { ScrollStore } from "../store";
+import type { UserIntention } from "../types";
+
+describe("useScrollLock", () => {
+  beforeEach(() => {
+    // Reset store before each test
+    useScrollStore.setState({
+      views: [],
+      activeIndex: 0,
+      totalViews: 0,
+      globalProgress: 0,
+      isInitialized: false,
+      isTransitioning: false,
+      isGlobalLocked: false,
+      lockHolders: [],
+      isDragging: false,
+      isAutoScrolling: false,
+      isAutoScrollPaused: false,
+      infiniteScrollEnabled: false,
+    });
+  });
+
+  it("should return initial isLocked as false", () => {
+    const { result } = renderHook(() => useScrollLock());
+    
+    expect(result.current.isLocked).toBe(false);
+  });
+
+  it("should lock navigation when lock() is called", () => {
+    const { result } = renderHook(() => useScrollLock());
+    
+    act(() => {
+      result.current.lock();
+    });
+    
+    expect(result.current.isLocked).toBe(true);
+    expect(useScrollStore.getState().isGlobalLocked).toBe(true);
+  });
+
+  it("should unlock navigation when unlock() is called", () => {
+    useScrollStore.setState({ isGlobalLocked: true });
+    
+    const { result } = renderHook(() => useScrollLock());
+    
+    act(() => {
+      result.current.unlock();
+    });
+    
+    expect(result.current.isLocked).toBe(false);
+    expect(useScrollStore.getState().isGlobalLocked).toBe(false);
+  });
+
+  it("should toggle lock state when toggle() is called", () => {
+    const { result } = renderHook(() => useScrollLock());
+    
+    expect(result.current.isLocked).toBe(false);
+    
+    act(() => {
+      result.current.toggle();
+    });
+    
+    expect(result.current.isLocked).toBe(true);
+    
+    act(() => {
+      result.current.toggle();
+    });
+    
+    expect(result.current.isLocked).toBe(false);
+  });
+
+  it("should lock specific view when lockView() is called", () => {
+    // Register a view first
+    act(() => {
+      useScrollStore.getState().registerView({ id: "test-view", type: "full" });
+    });
+    
+    const { result } = renderHook(() => useScrollLock());
+    
+    act(() => {
+      result.current.lockView("test-view");
+    });
+    
+    const view = useScrollStore.getState().views.find(v => v.id === "test-view");
+    expect(view?.explicitLock).toBe("locked");
+  });
+
+  it("should unlock specific view when unlockView() is called", () => {
+    // Register a view first
+    act(() => {
+      useScrollStore.getState().registerView({ id: "test-view", type: "full" });
+      useScrollStore.getState().setViewExplicitLock("test-view", "locked");
+    });
+    
+    const { result } = renderHook(() => useScrollLock());
+    
+    act(() => {
+      result.current.unlockView("test-view");
+    });
+    
+    const view = useScrollStore.getState().views.find(v => v.id === "test-view");
+    expect(view?.explicitLock).toBe("unlocked");
+  });
+
+  it("should keep navigation locked until every hook unlocks", () => {
+    const modal = renderHook(() => useScrollLock());
+    const sheet = renderHook(() => useScrollLock());
+
+    act(() => {
+      modal.result.current.lock();
+      sheet.result.current.lock();
+    });
+    act(() => {
+      modal.result.current.unlock();
+    });
+
+    expect(useScrollStore.getState().isGlobalLocked).toBe(true);
+    expect(sheet.result.current.isHeld).toBe(true);
+
+    act(() => {
+      sheet.result.current.unlock();
+    });
+    expect(useScrollStore.getState().isGlobalLocked).toBe(false);
+  });
+
+  it("should release its lock on unmount", () => {
+    const { result, unmount } = renderHook(() => useScrollLock({ reason: "modal" }));
+
+    act(() => {
+      result.current.lock();
+    });
+    expect(useScrollStore.getState().lockHolders).toHaveLength(1);
+
+    unmount();
+    expect(useScrollStore.getState().lockHolders).toHaveLength(0);
+    expect(useScrollStore.getState().isGlobalLocked).toBe(false);
+  });
+
+  it("should keep lock stable with an inline directions array", () => {
+    const { result, rerender } = renderHook(() => useScrollLock({ directions: ["forward"] }));
+    const { lock, toggle } = result.current;
+
+    rerender();
+    expect(result.current.lock).toBe(lock);
+    expect(result.current.toggle).toBe(toggle);
+
+    act(() => {
+      result.current.lock();
+    });
+    expect(useScrollStore.getState().lockHolders[0].directions).toEqual(["forward"]);
+  });
+});
+
+describe("acquireLock", () => {
+  let store: ScrollStore;
+
+  function intention(direction: UserIntention["direction"]): UserIntention {
+    return { type: "navigate", direction, strength: 1, origin: "wheel" };
+  }
+
+  beforeEach(() => {
+    store = createScrollStore();
+    store.getState().registerView({ id: "a", type: "full" });
+    store.getState().registerView({ id: "b", type: "full" });
+    store.getState().registerView({ id: "c", type: "full" });
+    store.getState().initialize();
+    store.getState().goToView(1);
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+  });
+
+  it("should count holders and release each one once", () => {
+    const releaseModal = store.getState().acquireLock("modal");
+    const releaseSheet = store.getState().acquireLock("sheet");
+
+    releaseModal();
+    releaseModal();
+    expect(store.getState().isGlobalLocked).toBe(true);
+    expect(store.getState().processIntention(intention("down"))).toBe(false);
+
+    releaseSheet();
+    expect(store.getState().isGlobalLocked).toBe(false);
+    expect(store.getState().processIntention(intention("down"))).toBe(true);
+  });
+
+  it("should block forward only", () => {
+    store.getState().acquireLock("form", { directions: ["forward"], reason: "invalid" });
+
+    expect(store.getState().isGlobalLocked).toBe(false);
+    expect(selectCanNavigateNext(store.getState())).toBe(false);
+    expect(selectCanNavigatePrevious(store.getState())).toBe(true);
+    expect(store.getState().processIntention(intention("down"))).toBe(false);
+    expect(store.getState().processIntention(intention("up"))).toBe(true);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it("should reject navigateTo in a locked direction", async () => {
+    store.getState().acquireLock("form", { directions: ["backward"] });
+
+    const result = await store.getState().navigateTo(0);
+    expect(result).toMatchObject({ status: "rejected", reason: "global-lock" });
+  });
+
+  it("should release an owner's acquisitions one at a time, latest first", () => {
+    store.getState().acquireLock("tour");
+    store.getState().acquireLock("tour", { directions: ["backward"] });
+    store.getState().acquireLock("modal", { directions: ["forward"] });
+
+    store.getState().releaseLock("tour");
+    expect(store.getState().lockHolders.map((h) => `${h.ownerId}:${h.directions.join("+")}`)).toEqual([
+      "tour:forward+backward",
+      "modal:forward",
+    ]);
+
+    store.getState().releaseLock("tour");
+    expect(store.getState().lockHolders.map((h) => h.ownerId)).toEqual(["modal"]);
+  });
+
+  it("should stack nested acquisitions by the same owner", () => {
+    const releaseOuter = store.getState().acquireLock("wizard");
+    store.getState().acquireLock("wizard");
+    expect(store.getState().lockHolders).toHaveLength(1);
+    expect(store.getState().lockHolders[0].count).toBe(2);
+
+    // One release undoes one acquisition
+    store.getState().releaseLock("wizard");
+    expect(store.getState().isGlobalLocked).toBe(true);
+    expect(store.getState().processIntention(intention("down"))).toBe(false);
+
+    releaseOuter();
+    releaseOuter();
+    expect(store.getState().isGlobalLocked).toBe(false);
+    expect(store.getState().lockHolders).toHaveLength(0);
+  });
+
+  it("should ignore a stale release handle after the owner re-acquires", () => {
+    const release = store.getState().acquireLock("modal");
+    store.getState().releaseLock("modal");
+    store.getState().acquireLock("modal");
+
+    release();
+    expect(store.getState().isGlobalLocked).toBe(true);
+  });
+
+  it("should not release other holders with setGlobalLock(false)", () => {
+    store.getState().acquireLock("modal");
+    store.getState().setGlobalLock(true);
+    store.getState().setGlobalLock(false);
+
+    expect(store.getState().isGlobalLocked).toBe(true);
+    expect(store.getState().lockHolders.map((h) => h.ownerId)).toEqual(["modal"]);
+  });
+
+  it("should list holders in ScrollDebugOverlay", () => {
+    store.getState().acquireLock("checkout", { directions: ["forward"], reason: "payment" });
+
+    const { getByText } = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollDebugOverlay />
+      </ScrollSystemProvider>
+    );
+    expect(getByText("checkout:")).toBeTruthy();
+    expect(getByText("forward (payment)")).toBeTruthy();
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * useUrlSync Tests
+ * =================
+ * Tests for URL serializers (hash, path, query) and router-style URL sync.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { useUrlSync, type UseUrlSyncOptions } from '../hooks/useUrlSync';
+import { useHashSync } from '../hooks/useHashSync';
+import { createScrollStore } from '../store/navigation.store';
+import {
+  createHashSerializer,
+  createPathSerializer,
+  createQuerySerializer,
+} from '../utils/urlSync';
+import type { ScrollStore } from '../store';
+import type { UrlLocation, UrlSyncAdapter } from '../types';
+
+const at = (url: string): UrlLocation => {
+  const { pathname, search, hash } = new URL(url, 'https://example.com');
+  return { pathname, search, hash };
+};
+
+describe('URL serializers', () => {
+  it('should read and write hashes with a strict prefix', () => {
+    const serializer = createHashSerializer({ prefix: 'section-' });
+
+    expect(serializer.format({ viewId: 'pricing', index: 2, detail: 'plan-b' }, at('/docs?x=1'))).toBe(
+      '/docs?x=1#section-pricing/plan-b'
+    );
+    expect(serializer.parse(at('/#section-pricing/plan-b'))).toEqual({ view: 'pricing', detail: 'plan-b' });
+    expect(serializer.parse(at('/#section-pricing'))).toEqual({ view: 'pricing', detail: null });
+    // Prefix is a prefix, not a substring to strip
+    expect(serializer.parse(at('/#pricing-section-'))).toBeNull();
+    expect(serializer.parse(at('/'))).toBeNull();
+  });
+
+  it('should read and write path segments', () => {
+    const byId = createPathSerializer({ pattern: '/story/:id' });
+    expect(byId.format({ viewId: 'intro', index: 0, detail: null }, at('/story/old?ref=mail'))).toBe(
+      '/story/intro?ref=mail'
+    );
+    expect(byId.format({ viewId: 'gallery', index: 3, detail: '2' }, at('/'))).toBe('/story/gallery/2');
+    expect(byId.parse(at('/story/gallery/2'))).toEqual({ view: 'gallery', detail: '2' });
+    expect(byId.parse(at('/other/gallery'))).toBeNull();
+
+    const byIndex = createPathSerializer({ pattern: '/slides/:index/view' });
+    expect(byIndex.format({ viewId: 'intro', index: 4, detail: null }, at('/'))).toBe('/slides/4/view');
+    expect(byIndex.parse(at('/slides/4/view'))).toEqual({ view: 4, detail: null });
+    expect(byIndex.parse(at('/slides/abc/view'))).toBeNull();
+  });
+
+  it('should read and write query params, keeping the others', () => {
+    const serializer = createQuerySerializer();
+    expect(serializer.format({ viewId: 'faq', index: 3, detail: null }, at('/?utm=x#top'))).toBe('/?utm=x&v=3#top');
+    expect(serializer.format({ viewId: 'faq', index: 3, detail: 'q2' }, at('/?v=1'))).toBe('/?v=3&sub=q2');
+    expect(serializer.parse(at('/?v=3&sub=q2'))).toEqual({ view: 3, detail: 'q2' });
+
+    const byId = createQuerySerializer({ param: 'view', key: 'id' });
+    expect(byId.parse(at('/?view=faq'))).toEqual({ view: 'faq', detail: null });
+  });
+});
+
+describe('useUrlSync', () => {
+  let store: ScrollStore;
+
+  // In-memory history, as an app router would provide
+  function createMemoryAdapter(initial: string) {
+    const entries = [initial];
+    let index = 0;
+    const listeners = new Set<() => void>();
+
+    const adapter: UrlSyncAdapter = {
+      getLocation: () => at(entries[index]),
+      push: vi.fn((url: string) => {
+        entries.splice(index + 1, entries.length, url);
+        index = entries.length - 1;
+      }),
+      replace: vi.fn((url: string) => {
+        entries[index] = url;
+      }),
+      listen: (onChange) => {
+        listeners.add(onChange);
+        return () => listeners.delete(onChange);
+      },
+    };
+
+    return {
+      adapter,
+      entries,
+      url: () => entries[index],
+      go: (url: string) => {
+        entries[index] = url;
+        listeners.forEach((listener) => listener());
+      },
+    };
+  }
+
+  function settle() {
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+  }
+
+  function renderSync(options: UseUrlSyncOptions) {
+    return renderHook(() => useUrlSync(options), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    });
+  }
+
+  beforeEach(() => {
+    store = createScrollStore();
+    store.getState().registerView({ id: 'intro', type: 'full' });
+    store.getState().registerView({ id: 'gallery', type: 'full', columns: 3 });
+    store.getState().registerView({
+      id: 'carousel',
+      type: 'nested',
+      nestedConfig: { direction: 'horizontal', itemCount: 4 },
+    });
+    store.getState().registerView({ id: 'pricing', type: 'full' });
+  });
+
+  it('should pass the URL to initialize() without polling or a transition', () => {
+    vi.useFakeTimers();
+    const memory = createMemoryAdapter('/story/pricing');
+    const { result } = renderSync({ serializer: createPathSerializer({ pattern: '/story/:id' }), adapter: memory.adapter });
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(store.getState().activeIndex).toBe(0);
+
+    act(() => store.getState().initialize(result.current.getInitialTarget()));
+    expect(store.getState().activeId).toBe('pricing');
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(memory.adapter.replace).not.toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it('should apply the initial detail once initialized', () => {
+    const memory = createMemoryAdapter('/#carousel/2');
+    const { result } = renderSync({ adapter: memory.adapter });
+
+    act(() => store.getState().initialize(result.current.getInitialTarget()));
+    expect(store.getState().activeId).toBe('carousel');
+    expect(store.getState().views[2].activeNestedIndex).toBe(2);
+  });
+
+  it('should write path segments through the adapter', () => {
+    store.getState().initialize();
+    const memory = createMemoryAdapter('/story/intro');
+    renderSync({
+      serializer: createPathSerializer({ pattern: '/story/:id' }),
+      adapter: memory.adapter,
+      pushHistory: true,
+    });
+
+    act(() => {
+      store.getState().goToView({ row: 'gallery', col: 2 });
+      settle();
+    });
+    expect(memory.url()).toBe('/story/gallery/2');
+    expect(memory.adapter.push).toHaveBeenCalledTimes(1);
+  });
+
+  it('should encode the nested item and the snap point, replacing the entry', () => {
+    store.getState().initialize();
+    const memory = createMemoryAdapter('/');
+    renderSync({ serializer: createQuerySerializer({ key: 'id' }), adapter: memory.adapter, pushHistory: true });
+
+    act(() => {
+      store.getState().goToView('carousel');
+      settle();
+    });
+    act(() => store.getState().setNestedIndex('carousel', 2));
+    expect(memory.url()).toBe('/?v=carousel&sub=2');
+
+    act(() => {
+      store.getState().goToView('pricing');
+      settle();
+    });
+    act(() => store.getState().setActiveSnapPoint('pricing', 'plan-b'));
+    expect(memory.url()).toBe('/?v=pricing&sub=plan-b');
+    // Only view changes add entries
+    expect(memory.adapter.push).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow router changes, including the detail', () => {
+    store.getState().initialize();
+    const memory = createMemoryAdapter('/');
+    renderSync({ adapter: memory.adapter });
+
+    act(() => memory.go('/#gallery/1'));
+    expect(store.getState().activeColumn).toBe(1);
+    settle();
+
+    act(() => memory.go('/#carousel/3'));
+    expect(store.getState().activeId).toBe('carousel');
+    expect(store.getState().views[2].activeNestedIndex).toBe(3);
+    settle();
+
+    act(() => memory.go('/#pricing/plan-b'));
+    expect(store.getState().activeId).toBe('pricing');
+    expect(store.getState().views[3].activeSnapPointId).toBe('plan-b');
+  });
+});
+
+describe('ScrollContainer urlSync', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should load a deep link in place, without a transition or the cooldown', () => {
+    window.history.replaceState(null, '', '/?v=2');
+    const startTransition = vi.spyOn(store.getState(), 'startTransition');
+
+    const { container } = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer urlSync={{ serializer: createQuerySerializer() }}>
+          <FullView id="intro">Intro</FullView>
+          <FullView id="features">Features</FullView>
+          <FullView id="pricing">Pricing</FullView>
+          <FullView id="faq">FAQ</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    expect(store.getState().activeId).toBe('pricing');
+    expect(store.getState().isTransitioning).toBe(false);
+    expect(startTransition).not.toHaveBeenCalled();
+    expect((container.querySelector('.scroll-wrapper') as HTMLElement).style.transform).toBe('translateY(-200vh)');
+    expect(window.location.search).toBe('?v=2');
+
+    // The first navigation isn't blocked by a cooldown the load used up
+    act(() => {
+      store.getState().goToView(3);
+    });
+    expect(store.getState().activeId).toBe('faq');
+  });
+});
+
+describe('useHashSync (URL sync preset)', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    store = createScrollStore();
+    store.getState().registerView({ id: 'about', type: 'full' });
+    store.getState().registerView({ id: 'contact', type: 'full' });
+    store.getState().initialize();
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should only match hashes that start with the prefix', () => {
+    window.history.replaceState(null, '', '/#contact');
+    renderHook(() => useHashSync({ hashPrefix: 'section-' }), {
+      wrapper: ({ children }) => <ScrollSystemProvider store={store}>{children}</ScrollSystemProvider>,
+    });
+    expect(store.getState().activeId).toBe('about');
+
+    act(() => {
+      window.history.replaceState(null, '', '/#section-contact');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+    expect(store.getState().activeId).toBe('contact');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * View Lock Tests
+ * ================
+ * Tests for per-view, per-direction navigation locks and their sources.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createScrollStore, selectCanNavigateNext, selectCanNavigatePrevious } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+import type { UserDirection, ViewConfig } from '../types';
+
+function swipe(direction: UserDirection) {
+  return { type: 'navigate' as const, direction, strength: 1, origin: 'wheel' as const };
+}
+
+describe('View direction locks', () => {
+  let store: ScrollStore;
+
+  function setup(middle: ViewConfig) {
+    store.getState().registerView({ id: 'a', type: 'full' });
+    store.getState().registerView(middle);
+    store.getState().registerView({ id: 'c', type: 'full' });
+    store.getState().initialize();
+    store.getState().goToView(1);
+    store.getState().endTransition();
+    store.getState().resetNavigationCooldown();
+  }
+
+  function getView(id = 'b') {
+    return store.getState().views.find((v) => v.id === id)!;
+  }
+
+  beforeEach(() => {
+    store = createScrollStore();
+  });
+
+  it('should start with both directions free', () => {
+    setup({ id: 'b', type: 'full' });
+    expect(getView().locks).toEqual({ forward: [], backward: [] });
+  });
+
+  it('should lock forward only from setViewLock', () => {
+    setup({ id: 'b', type: 'full' });
+    store.getState().setViewLock('b', ['forward']);
+
+    expect(getView()).toMatchObject({ locks: { forward: ['explicit'], backward: [] }, navigation: 'locked' });
+    expect(selectCanNavigateNext(store.getState())).toBe(false);
+    expect(selectCanNavigatePrevious(store.getState())).toBe(true);
+
+    expect(store.getState().processIntention(swipe('down'))).toBe(false);
+    expect(store.getState().processIntention(swipe('up'))).toBe(true);
+    expect(store.getState().activeIndex).toBe(0);
+  });
+
+  it('should lock backward only from setViewLock', () => {
+    setup({ id: 'b', type: 'full' });
+    store.getState().setViewLock('b', ['backward'], 'guard');
+
+    expect(getView().locks).toEqual({ forward: [], backward: ['guard'] });
+    expect(selectCanNavigatePrevious(store.getState())).toBe(false);
+    expect(store.getState().processIntention(swipe('up'))).toBe(false);
+    expect(store.getState().processIntention(swipe('down'))).toBe(true);
+  });
+
+  it('should keep sources independent', () => {
+    setup({ id: 'b', type: 'full' });
+    store.getState().setViewLock('b', ['forward'], 'explicit');
+    store.getState().setViewLock('b', ['forward', 'backward'], 'guard');
+    store.getState().setViewLock('b', [], 'explicit');
+
+    expect(getView().locks).toEqual({ forward: ['guard'], backward: ['guard'] });
+  });
+
+  it('should report content locks from internal scroll', () => {
+    setup({ id: 'b', type: 'scroll-locked', scrollDirection: 'vertical' });
+    store.getState().updateViewMetrics('b', { scrollHeight: 2000, clientHeight: 800, scrollTop: 600 });
+
+    expect(getView().locks).toEqual({ forward: ['content'], backward: ['content'] });
+    expect(selectCanNavigatePrevious(store.getState())).toBe(false);
+
+    store.getState().updateViewMetrics('b', { scrollHeight: 2000, clientHeight: 800, scrollTop: 1200 });
+    expect(getView().locks).toEqual({ forward: [], backward: ['content'] });
+    expect(store.getState().processIntention(swipe('down'))).toBe(true);
+  });
+
+  it('should map the legacy explicit lock to both directions', () => {
+    setup({ id: 'b', type: 'full' });
+    store.getState().setViewExplicitLock('b', 'locked');
+
+    expect(getView().locks).toEqual({ forward: ['explicit'], backward: ['explicit'] });
+  });
+
+  it('should lock a controlled view forward until it can proceed, and backward by allowGoBack', () => {
+    setup({ id: 'b', type: 'controlled', allowGoBack: false });
+    store.getState().setViewExplicitLock('b', 'locked');
+
+    expect(getView().locks).toEqual({ forward: ['explicit'], backward: ['guard'] });
+
+    store.getState().updateViewConfig('b', { allowGoBack: true } as Partial<ViewConfig>);
+    expect(getView().locks.backward).toEqual([]);
+  });
+
+  it('should let navigateTo pass content locks but not explicit ones', async () => {
+    setup({ id: 'b', type: 'scroll-locked', scrollDirection: 'vertical' });
+    store.getState().updateViewMetrics('b', { scrollHeight: 2000, clientHeight: 800, scrollTop: 600 });
+
+    const passed = store.getState().navigateTo(2);
+    store.getState().endTransition();
+    await expect(passed).resolves.toMatchObject({ status: 'completed' });
+
+    store.getState().setViewLock('c', ['backward']);
+    store.getState().resetNavigationCooldown();
+    const blocked = await store.getState().navigateTo(0);
+    expect(blocked).toMatchObject({ status: 'rejected', reason: 'view-lock' });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * View Order Tests
+ * =================
+ * Tests for explicit view order (config.index / order prop) and DOM-position ordering.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import React from 'react';
+import { ScrollContainer } from '../components/ScrollContainer';
+import { ScrollSystemProvider } from '../components/ScrollSystemProvider';
+import { FullView } from '../components/FullView';
+import { createScrollStore } from '../store/navigation.store';
+import type { ScrollStore } from '../store';
+
+describe('View order (store)', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    store = createScrollStore();
+  });
+
+  const ids = () => store.getState().views.map((v) => `${v.index}:${v.id}`);
+
+  it('should honor config.index instead of registration order', () => {
+    store.getState().registerView({ id: 'outro', type: 'full', index: 30 });
+    store.getState().registerView({ id: 'intro', type: 'full', index: 10 });
+    store.getState().registerView({ id: 'body', type: 'full', index: 20 });
+
+    expect(ids()).toEqual(['0:intro', '1:body', '2:outro']);
+    expect(store.getState().totalViews).toBe(3);
+  });
+
+  it('should keep registration order without an explicit order or DOM', () => {
+    ['a', 'b', 'c'].forEach((id) => store.getState().registerView({ id, type: 'full' }));
+    expect(ids()).toEqual(['0:a', '1:b', '2:c']);
+  });
+
+  it('should keep activeId while the active index shifts', () => {
+    store.getState().registerView({ id: 'intro', type: 'full', index: 1 });
+    store.getState().registerView({ id: 'faq', type: 'full', index: 3 });
+    store.getState().initialize('faq');
+
+    store.getState().registerView({ id: 'cover', type: 'full', index: 0 });
+    expect(store.getState().activeId).toBe('faq');
+    expect(store.getState().activeIndex).toBe(2);
+    expect(store.getState().views[2].isActive).toBe(true);
+
+    store.getState().unregisterView('intro');
+    expect(store.getState().activeId).toBe('faq');
+    expect(store.getState().activeIndex).toBe(1);
+  });
+
+  it('should slot explicit orders at their position and fill the rest in order when mixed', () => {
+    ['a', 'b', 'c', 'd'].forEach((id) => store.getState().registerView({ id, type: 'full' }));
+    store.getState().registerView({ id: 'late', type: 'full', index: 9 });
+    store.getState().registerView({ id: 'lazy', type: 'full', index: 2 });
+    store.getState().registerView({ id: 'cover', type: 'full', index: 0 });
+
+    // Positions past the end (9) go last
+    expect(ids()).toEqual(['0:cover', '1:a', '2:lazy', '3:b', '4:c', '5:d', '6:late']);
+  });
+
+  it('should move a view when its order changes', () => {
+    store.getState().registerView({ id: 'a', type: 'full', index: 1 });
+    store.getState().registerView({ id: 'b', type: 'full', index: 2 });
+    store.getState().registerView({ id: 'c', type: 'full', index: 3 });
+    store.getState().initialize('a');
+
+    store.getState().updateViewConfig('a', { index: 4 });
+    expect(ids()).toEqual(['0:b', '1:c', '2:a']);
+    expect(store.getState().activeIndex).toBe(2);
+  });
+});
+
+describe('View order (ScrollContainer)', () => {
+  let store: ScrollStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createScrollStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const ids = () => store.getState().views.map((v) => v.id);
+
+  function Story({ showExtra }: { showExtra: boolean }) {
+    return (
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer transitionDuration={400}>
+          <FullView id="intro">Intro</FullView>
+          {showExtra && <FullView id="extra">Extra</FullView>}
+          <FullView id="outro">Outro</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+  }
+
+  it('should insert a late view at its DOM position, staying on the active view', () => {
+    const { container, rerender } = render(<Story showExtra={false} />);
+    act(() => {
+      store.getState().goToView('outro');
+    });
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(store.getState().activeIndex).toBe(1);
+
+    rerender(<Story showExtra />);
+
+    expect(ids()).toEqual(['intro', 'extra', 'outro']);
+    expect(store.getState().activeId).toBe('outro');
+    expect(store.getState().activeIndex).toBe(2);
+    expect(store.getState().isTransitioning).toBe(false);
+    expect((container.querySelector('.scroll-wrapper') as HTMLElement).style.transform).toBe('translateY(-200vh)');
+  });
+
+  it('should sort by the order prop', () => {
+    render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer>
+          <FullView id="third" order={3}>3</FullView>
+          <FullView id="first" order={1}>1</FullView>
+          <FullView id="second" order={2}>2</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    expect(ids()).toEqual(['first', 'second', 'third']);
+    expect(store.getState().activeId).toBe('first');
+  });
+
+  it('should place a lazily mounted view at its order, not first', () => {
+    const lazy = (show: boolean) => (
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer>
+          <FullView id="a">A</FullView>
+          <FullView id="b">B</FullView>
+          <FullView id="c">C</FullView>
+          {show && <FullView id="ad" order={2}>Ad</FullView>}
+          <FullView id="d">D</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+    const { rerender } = render(lazy(false));
+
+    rerender(lazy(true));
+
+    expect(store.getState().views.map((v) => `${v.index}:${v.id}`)).toEqual(['0:a', '1:b', '2:ad', '3:c', '4:d']);
+  });
+
+  it('should place ordered views at their position and the rest in DOM order, whatever the mount order', () => {
+    const { rerender } = render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer>
+          <FullView id="b">B</FullView>
+          <FullView id="z" order={2}>Z</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    rerender(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer>
+          <FullView id="a">A</FullView>
+          <FullView id="b">B</FullView>
+          <FullView id="z" order={2}>Z</FullView>
+          <FullView id="y" order={1}>Y</FullView>
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+
+    expect(ids()).toEqual(['a', 'y', 'z', 'b']);
+  });
+
+  it('should query each view element once per reorder', () => {
+    render(
+      <ScrollSystemProvider store={store}>
+        <ScrollContainer>
+          {Array.from({ length: 20 }, (_, i) => (
+            <FullView key={i} id={`view-${i}`}>{i}</FullView>
+          ))}
+        </ScrollContainer>
+      </ScrollSystemProvider>
+    );
+    const lookups = vi.spyOn(document, 'getElementById');
+
+    store.getState().registerView({ id: 'late', type: 'full' });
+
+    expect(lookups).toHaveBeenCalledTimes(21);
+    expect(ids().slice(0, 2)).toEqual(['view-0', 'view-1']);
+    expect(ids()[20]).toBe('late');
+    lookups.mockRestore();
+  });
+});
@@ -20,6 +20,61 @@ export type ScrollCapability = "none" | "internal";
  */
 export type NavigationState = "locked" | "unlocked";
 
+/** NEW: Logical navigation direction ("forward" = towards the next view) */
+export type LockDirection = "forward" | "backward";
+
+/** NEW: Options for acquiring a scroll lock */
+export interface ScrollLockOptions {
+  /** Directions to block (default: both) */
+  directions?: LockDirection[];
+  /** Why the lock is held (shown by ScrollDebugOverlay) */
+  reason?: string;
+}
+
+/**
+ * NEW: Why a view blocks a direction.
+ * - content: internal scroll not at its end (forward) or top (backward), forceScrollLock
+ * - explicit: setViewExplicitLock / setViewLock
+ * - guard: flow gates such as a ControlledView with allowGoBack={false}
+ */
+export type ViewLockSource = "content" | "explicit" | "guard";
+
+/** NEW: Sources blocking each direction of a view (empty = free) */
+export type ViewDirectionLocks = Record<LockDirection, ViewLockSource[]>;
+
+/**
+ * NEW: What a view still needs before its content lets it move forward.
+ * - scroll: reach the end of the internal scroll (or forceScrollLock)
+ * - dwell: stay active for minDwellMs
+ * - sections: see every marked section (requireSections)
+ */
+export type ReadRequirement = "scroll" | "dwell" | "sections";
+
+/** NEW: Why a view is still locked forward (null = free) */
+export type ViewLockReason = ReadRequirement | "explicit" | "guard";
+
+/** NEW: Sections that must be seen before a ScrollLockedView unlocks */
+export interface ReadSectionsConfig {
+  /** Selector of the sections inside the view (default: "[data-scroll-section]") */
+  selector?: string;
+  /** Time each section must stay visible, in ms (default: 1000) */
+  minVisibleMs?: number;
+  /** Visible fraction of a section that counts as seen (default: 0.5) */
+  threshold?: number;
+}
+
+/** NEW: Active lock of an owner for a set of directions */
+export interface ScrollLockHolder {
+  /** Unique id of this holder */
+  id: number;
+  /** Who holds it (a component, a hook instance, "global"...) */
+  ownerId: string;
+  directions: LockDirection[];
+  reason?: string;
+  /** Nested acquisitions by the owner; each release undoes one */
+  count: number;
+}
+
 /**
  * Métricas crudas del DOM reportadas por las vistas.
  */
@@ -36,11 +91,223 @@ export interface ViewMetrics {
 export type UserIntentionType = "scroll" | "navigate";
 export type UserDirection = "up" | "down" | "left" | "right";
 
+/** NEW: Layout direction of horizontal decks (RTL puts the first view on the right) */
+export type LayoutDirection = "ltr" | "rtl";
+
 export interface UserIntention {
   type: UserIntentionType;
   direction: UserDirection;
   strength: number; // 0-1, intensidad normalizada
   origin: "wheel" | "touch" | "keyboard" | "programmatic";
+  /** NEW: Velocidad del gesto en px/ms (flickSkip) */
+  velocity?: number;
+}
+
+// ============================================
+// Resultado de Navegación
+// ============================================
+
+/**
+ * Motivo por el que una navegación fue rechazada.
+ * - "transitioning": ya hay una transición en curso
+ * - "global-lock": la navegación global está bloqueada
+ * - "view-lock": la vista activa bloquea la salida en esa dirección
+ * - "boundary": no hay vista en esa dirección (primera/última)
+ * - "cooldown": se navegó hace muy poco
+ * - "not-found": el índice o id de destino no existe
+ * - "unsupported": la intención no corresponde a una navegación
+ * - "interrupted": otra navegación reemplazó a esta antes de terminar, o se desmontó su contenedor
+ * - "guard": un guard (beforeLeave/beforeEnter) canceló la navegación
+ * - "loading": fin del feed mientras se carga la siguiente página
+ */
+export type NavigationRejectionReason =
+  | "transitioning"
+  | "global-lock"
+  | "view-lock"
+  | "boundary"
+  | "cooldown"
+  | "not-found"
+  | "unsupported"
+  | "interrupted"
+  | "guard"
+  | "loading";
+
+/**
+ * Resultado de una navegación programática.
+ * Se resuelve cuando termina la transición (endTransition) o al ser rechazada.
+ */
+export interface NavigationResult {
+  status: "completed" | "rejected";
+  /** Motivo del rechazo (null si se completó) */
+  reason: NavigationRejectionReason | null;
+  fromIndex: number;
+  /** Índice de destino resuelto (-1 si no existe) */
+  toIndex: number;
+}
+
+/**
+ * NEW: Una intención del usuario rechazada (para feedback: hints, nudge, anuncios).
+ * Solo motivos que el usuario puede entender: view-lock, global-lock, boundary, loading, guard.
+ */
+export interface NavigationBlockedEvent {
+  reason: NavigationRejectionReason;
+  /** Direction of the attempted gesture/key */
+  direction: UserDirection;
+  /** Logical direction of the attempt ("forward" = next view) */
+  lockDirection: LockDirection;
+  origin: NavigationOrigin;
+  /** Active view when the navigation was refused */
+  viewId: string | null;
+  /** What held the view (view-lock only) */
+  lockSource?: ViewLockSource;
+  /** When it was refused (ms); tells repeated blocks apart */
+  timestamp: number;
+}
+
+/**
+ * NEW: Una entrada del historial de navegación.
+ * Se resuelve por id (sobrevive a reordenaciones) y, si la vista ya no está, por índice.
+ */
+export interface NavigationHistoryEntry {
+  viewId: string | null;
+  index: number;
+  /** Column of the grid row (0 for plain views) */
+  column: number;
+}
+
+// ============================================
+// URL Sync (NEW)
+// ============================================
+
+/** Las partes de la URL que leen y escriben los serializers */
+export interface UrlLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+/** Lo que un serializer lee de la URL: la vista (id o índice) y el detalle tras ella */
+export interface UrlTarget {
+  view: string | number;
+  /** Column (GridRow), item (NestedScrollView) or snap point id */
+  detail: string | null;
+}
+
+/** Posición actual que se escribe en la URL */
+export interface UrlPosition {
+  viewId: string | null;
+  index: number;
+  detail: string | null;
+}
+
+/**
+ * Convierte posiciones en URLs y viceversa.
+ * Incluidos: createHashSerializer, createPathSerializer, createQuerySerializer.
+ */
+export interface UrlSerializer {
+  /** URL (path + search + hash) for `position`, based on the current location */
+  format: (position: UrlPosition, location: UrlLocation) => string;
+  /** Target the location points at (null if none) */
+  parse: (location: UrlLocation) => UrlTarget | null;
+}
+
+/**
+ * Dónde vive la URL: window.history por defecto, o el history del router de la app.
+ */
+export interface UrlSyncAdapter {
+  getLocation: () => UrlLocation;
+  push: (url: string) => void;
+  replace: (url: string) => void;
+  /** Subscribe to back/forward (or router) changes; returns the unsubscribe */
+  listen: (onChange: () => void) => () => void;
+}
+
+/** Qué se codifica tras la vista */
+export type UrlSyncDetail = "column" | "nested" | "snap";
+
+export interface UrlSyncConfig {
+  /** URL format (default: createHashSerializer()) */
+  serializer?: UrlSerializer;
+  /** History to bind to (default: window.history) */
+  adapter?: UrlSyncAdapter;
+  /** push (true) or replace (false) when the view or column changes (default: false) */
+  pushHistory?: boolean;
+  /** Back/forward call the store's back()/forward() when they match its history (default: false) */
+  historyStack?: boolean;
+  /** What to encode after the view (default: all) */
+  details?: UrlSyncDetail[];
+}
+
+// ============================================
+// Persistence (NEW)
+// ============================================
+
+/** Almacenamiento compatible con Web Storage (sessionStorage, localStorage o propio) */
+export interface PersistStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+}
+
+export interface PersistConfig {
+  /** Storage key (default: "scroll-system") */
+  key?: string;
+  /** Where to save (default: "session") */
+  storage?: "session" | "local" | PersistStorage;
+}
+
+/** Estado interno de una vista que se restaura */
+export interface PersistedViewState {
+  scrollTop: number;
+  snapPointId: string | null;
+  nestedIndex: number;
+}
+
+/** Lo que se guarda entre recargas */
+export interface PersistedScrollState {
+  activeIndex: number;
+  activeId: string | null;
+  activeColumn: number;
+  views: Record<string, PersistedViewState>;
+}
+
+// ============================================
+// Grid 2D (NEW)
+// ============================================
+
+/**
+ * Posición en un grid: fila (índice o id de la vista) y columna dentro de ella.
+ */
+export interface GridPosition {
+  row: number | string;
+  col: number;
+}
+
+// ============================================
+// Guards de Navegación
+// ============================================
+
+export type NavigationOrigin = UserIntention["origin"];
+
+/**
+ * Se ejecuta antes de salir de la vista activa.
+ * Retornar false (o una promesa que resuelva false) cancela la navegación.
+ */
+export type BeforeLeaveGuard = (
+  direction: "up" | "down",
+  target: ViewState
+) => boolean | Promise<boolean>;
+
+/**
+ * Se ejecuta antes de entrar en la vista, recibe la vista de origen.
+ * Retornar false (o una promesa que resuelva false) cancela la navegación.
+ */
+export type BeforeEnterGuard = (from: ViewState) => boolean | Promise<boolean>;
+
+export interface NavigationGuards {
+  beforeLeave?: BeforeLeaveGuard;
+  beforeEnter?: BeforeEnterGuard;
+  /** Orígenes para los que NO se ejecutan los guards (default: ninguno) */
+  skipGuardsFor?: NavigationOrigin[];
 }
 
 // ============================================
@@ -59,10 +326,26 @@ export interface GestureConfig {
   dragResistance?: number;
   /** Enable/disable wheel navigation (default: true) */
   enableWheel?: boolean;
-  /** Enable/disable touch navigation (default: true) */
+  /** Enable/disable touch and pen navigation (default: true) */
   enableTouch?: boolean;
   /** Enable/disable keyboard navigation (default: true) */
   enableKeyboard?: boolean;
+  /** NEW: Let the mouse drag/swipe between views like touch and pen (default: false) */
+  enableMouseDrag?: boolean;
+  /** NEW: Spring used to settle drag releases, or false for the eased tween (default: DEFAULT_SPRING) */
+  spring?: SpringConfig | false;
+}
+
+/**
+ * NEW: Spring physics for drag release (enableDragPhysics).
+ */
+export interface SpringConfig {
+  /** Spring stiffness (default: 300) */
+  stiffness?: number;
+  /** Friction; lower = more overshoot (default: 30) */
+  damping?: number;
+  /** Mass of the moving views (default: 1) */
+  mass?: number;
 }
 
 // ============================================
@@ -170,6 +453,19 @@ export interface PreloadConfig {
 /**
  * Configuration for infinite/loop scroll behavior.
  */
+/**
+ * NEW: Multi-view jumps for hard flicks and trackpad flings.
+ * Views moved = ceil(velocity / velocityPerView), capped at maxViews.
+ */
+export interface FlickSkipConfig {
+  /** Maximum views a single flick can move (default: 3) */
+  maxViews?: number;
+  /** Gesture velocity in px/ms per view moved (default: 2) */
+  velocityPerView?: number;
+  /** Minimum intention strength (0-1) for a multi-view jump (default: 1) */
+  minStrength?: number;
+}
+
 export interface InfiniteScrollConfig {
   /** Enable infinite scroll (loop from last to first) */
   enabled: boolean;
@@ -177,6 +473,47 @@ export interface InfiniteScrollConfig {
   loopDirection?: "forward" | "backward" | "both";
 }
 
+// ============================================
+// Transiciones (NEW)
+// ============================================
+
+export type TransitionPreset = "slide" | "fade" | "stack" | "cube" | "zoom";
+
+/**
+ * Efecto de transición personalizado, evaluado por vista.
+ * `offset` es el desplazamiento visual con signo, en vistas, respecto a la vista activa
+ * (animación + drag): positivo hacia la siguiente, 0 en reposo. No es un progreso 0-1:
+ * al avanzar de 2 a 3 va de -1 a 0 (activeIndex ya es 3).
+ */
+export type TransitionFunction = (
+  viewIndex: number,
+  activeIndex: number,
+  offset: number
+) => React.CSSProperties;
+
+export type ViewTransition = TransitionPreset | TransitionFunction;
+
+// ============================================
+// Feed Configuration (NEW)
+// ============================================
+
+export interface FeedPage<T, TCursor = unknown> {
+  items: T[];
+  /** Cursor for the next page (null = no more pages) */
+  nextCursor: TCursor | null;
+}
+
+export interface FeedConfig<T, TCursor = unknown> {
+  /** Loads a page; receives null for the first page */
+  fetchPage: (cursor: TCursor | null, pageSize: number) => Promise<FeedPage<T, TCursor>>;
+  /** Items requested per page (default: 10) */
+  pageSize?: number;
+  /** Load the next page when the active view is within N views of the end (default: 3) */
+  prefetchThreshold?: number;
+  /** Enable loading (default: true) */
+  enabled?: boolean;
+}
+
 // ============================================
 // Nested Scroll Configuration (NEW)
 // ============================================
@@ -205,7 +542,8 @@ export interface ScrollSystemAPI {
   // Navegación
   goToNext: () => boolean;
   goToPrev: () => boolean;
-  goTo: (index: number | string) => void;
+  /** Navega a una vista (o a una celda del grid). Se resuelve al terminar la transición o al ser rechazada. */
+  goTo: (target: number | string | GridPosition) => Promise<NavigationResult>;
 
   // Estado
   getCurrentIndex: () => number;
@@ -222,6 +560,15 @@ export interface ScrollSystemAPI {
   activeId: string | null;
   activeViewType: ViewType | null;
   totalViews: number;
+  /** NEW: Column of the active grid row (0 for plain views) */
+  activeColumn: number;
+
+  // NEW: History ("return to where I came from", independent of view order)
+  back: () => Promise<NavigationResult>;
+  forward: () => Promise<NavigationResult>;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  history: NavigationHistoryEntry[];
   
   // NEW: AutoScroll control
   isAutoScrolling?: boolean;
@@ -253,10 +600,15 @@ export type ScrollResetBehavior = "direction-aware" | "always-start" | "always-e
 export interface BaseViewConfig {
   id: string;
   type: ViewType;
+  /** Explicit position (taken, or the next free one); views without it fill the rest in DOM order. Virtualized: the logical index */
   index?: number;
   meta?: Record<string, unknown>;
   /** Snap points within this view (NEW) */
   snapPoints?: SnapPoint[];
+  /** Transition effect override for this view (NEW) */
+  transition?: ViewTransition;
+  /** Horizontal sub-views of this row in a 2D grid (NEW, default: 1) */
+  columns?: number;
 }
 
 export interface FullViewConfig extends BaseViewConfig {
@@ -266,13 +618,22 @@ export interface FullViewConfig extends BaseViewConfig {
 export interface ScrollLockedViewConfig extends BaseViewConfig {
   type: "scroll-locked";
   scrollDirection: ScrollDirection;
+  /** Progress ratio (0-1) that counts as the end of the scroll (default: 0.99) */
   scrollEndThreshold?: number;
+  /** NEW: Distance in px from the end that counts as the end (overrides scrollEndThreshold) */
+  scrollEndOffset?: number;
+  /** NEW: Extra px the user must scroll back before relocking (default: 16) */
+  scrollEndHysteresis?: number;
   /** Behavior for resetting scroll when view becomes active (default: "direction-aware") */
   scrollResetBehavior?: ScrollResetBehavior;
   /** Force scroll lock behavior even without overflow (default: false) */
   forceScrollLock?: boolean;
   /** Enable touch overscroll gestures to trigger navigation (default: false) */
   enableTouchPassthrough?: boolean;
+  /** NEW: Stay locked until the view has been active for this long (ms) */
+  minDwellMs?: number;
+  /** NEW: Stay locked until every marked section has been seen */
+  requireSections?: boolean | ReadSectionsConfig;
 }
 
 export interface ControlledViewConfig extends BaseViewConfig {
@@ -307,17 +668,33 @@ export interface ViewState {
   isPreloaded: boolean;
   
   capability: ScrollCapability;
+  /** Forward navigation state (derived from locks.forward) */
   navigation: NavigationState;
   
   explicitLock: NavigationState | null;
+
+  /** NEW: Sources blocking each direction (derived by the state machine) */
+  locks: ViewDirectionLocks;
+  /** NEW: Directions locked through setViewLock, per source */
+  sourceLocks: Partial<Record<Exclude<ViewLockSource, "content">, LockDirection[]>>;
+  /** NEW: Read requirements still pending, reported by the view (dwell, sections) */
+  readRequirements: Exclude<ReadRequirement, "scroll">[];
   
   progress: number;
   metrics: ViewMetrics;
+  /** NEW: Internal scroll reached the end (threshold + hysteresis) */
+  scrollEndReached: boolean;
   
   config: ViewConfig;
   
   /** NEW: Active snap point within this view */
   activeSnapPointId: string | null;
+
+  /** NEW: Column shown in this grid row (kept when leaving the row) */
+  activeColumn: number;
+
+  /** NEW: Active item of a NestedScrollView carousel (0 for other views) */
+  activeNestedIndex: number;
 }
 
 // ============================================
@@ -332,6 +709,7 @@ export interface ScrollSystemState {
   
   isInitialized: boolean;
   isTransitioning: boolean;
+  /** Navigation is locked in both directions (derived from lockHolders) */
   isGlobalLocked: boolean;
   isDragging: boolean;
   globalProgress: number;
@@ -345,6 +723,42 @@ export interface ScrollSystemState {
   
   /** NEW: Last navigation direction (for scroll reset behavior) */
   lastNavigationDirection: "up" | "down" | null;
+
+  /** NEW: An async navigation guard is deciding a pending navigation */
+  isGuardPending: boolean;
+
+  /** NEW: Logical item count when virtualized (null = every view is mounted) */
+  virtualCount: number | null;
+
+  /** NEW: A feed page is loading (forward navigation at the end waits for it) */
+  isLoadingMore: boolean;
+
+  /** NEW: Progress of the running transition (0-1, 1 when settled) */
+  transitionProgress: number;
+  /** NEW: Visual position as a floating view index (animation + drag). Changes every frame: subscribe only where needed */
+  visualPosition: number;
+  /** NEW: New intentions retarget a running transition instead of being dropped */
+  isInterruptible: boolean;
+
+  /** NEW: Multi-view flicks (null = always one view per intention) */
+  flickSkip: Required<FlickSkipConfig> | null;
+
+  /** NEW: "rtl" mirrors horizontal input: "left" moves to the next view */
+  layoutDirection: LayoutDirection;
+
+  /** NEW: Column of the active view when it is a grid row (0 otherwise) */
+  activeColumn: number;
+
+  /** NEW: Active scroll locks; navigation is blocked while any holder remains */
+  lockHolders: ScrollLockHolder[];
+
+  /** NEW: Last refused user navigation (cleared when a navigation succeeds) */
+  lastBlockedNavigation: NavigationBlockedEvent | null;
+
+  /** NEW: Visited positions, oldest first (bounded by DEFAULT_HISTORY_LIMIT) */
+  history: NavigationHistoryEntry[];
+  /** NEW: Current position in `history` (-1 before initialization) */
+  historyIndex: number;
 }
 
 // ============================================
@@ -352,7 +766,8 @@ export interface ScrollSystemState {
 // ============================================
 
 export interface ScrollSystemActions {
-  initialize: () => void;
+  /** Activa el sistema; `target` aterriza directamente en esa vista (sin transición) */
+  initialize: (target?: number | string | GridPosition) => void;
   registerView: (config: ViewConfig) => void;
   updateViewConfig: (id: string, config: Partial<ViewConfig>) => void;
   unregisterView: (id: string) => void;
@@ -363,19 +778,61 @@ export interface ScrollSystemActions {
   // Navegación (Raw Actions)
   goToNext: () => void;
   goToPrevious: () => void;
-  goToView: (indexOrId: number | string) => void;
+  goToView: (target: number | string | GridPosition, origin?: NavigationOrigin) => void;
+  /** Navegación que respeta locks y reporta el resultado al terminar la transición */
+  navigateTo: (target: number | string | GridPosition) => Promise<NavigationResult>;
+  /** NEW: Cambia de columna dentro de la fila activa (grid) */
+  goToColumn: (column: number, origin?: NavigationOrigin) => void;
+  /** NEW: Vuelve a la entrada anterior del historial (como navigateTo) */
+  back: () => Promise<NavigationResult>;
+  /** NEW: Avanza a la entrada siguiente del historial (como navigateTo) */
+  forward: () => Promise<NavigationResult>;
 
   // Reporte (DOM -> Store)
   updateViewMetrics: (id: string, metrics: ViewMetrics) => void;
 
+  /** NEW: Marca que se está cargando más contenido al final del feed */
+  setLoadingMore: (loading: boolean) => void;
+
+  /** NEW: Activa la virtualización con `count` ítems lógicos (null la desactiva) */
+  setVirtualCount: (count: number | null) => void;
+
+  /** Registra guards para una vista. Retorna la función para des-registrarlos. */
+  registerGuards: (id: string, guards: NavigationGuards) => () => void;
+
   // Overrides
   setViewExplicitLock: (id: string, lock: NavigationState | null) => void;
+  /** NEW: Bloquea `directions` de una vista desde `source` (reemplaza lo que ese source tenía; [] libera) */
+  setViewLock: (id: string, directions: LockDirection[], source?: Exclude<ViewLockSource, "content">) => void;
+  /** NEW: Requisitos de lectura pendientes de la vista (bloquean forward como content) */
+  setViewReadRequirements: (id: string, requirements: Exclude<ReadRequirement, "scroll">[]) => void;
+  /**
+   * Legacy: booleano sobre el owner "global". true lo bloquea una vez (llamadas repetidas
+   * no apilan), false lo libera del todo. No toca los locks de otros owners (acquireLock, useScrollLock).
+   */
   setGlobalLock: (locked: boolean) => void;
+  /** NEW: Añade un lock de `ownerId` (se apila si ya lo tiene). Retorna la función que lo libera una vez. */
+  acquireLock: (ownerId: string, options?: ScrollLockOptions) => () => void;
+  /** NEW: Deshace la última adquisición de `ownerId` */
+  releaseLock: (ownerId: string) => void;
   setDragging: (dragging: boolean) => void;
 
   // Transiciones
   startTransition: () => void;
   endTransition: () => void;
+  /** NEW: Cancela la transición en curso (su controlador se desmontó): la navegación pendiente se resuelve como "interrupted" */
+  abortTransition: () => void;
+  /** NEW: Reportado por el controlador de animación en cada frame */
+  setTransitionProgress: (progress: number) => void;
+  /** NEW: Reportado por el controlador de animación en cada frame y en cada arrastre */
+  setVisualPosition: (position: number) => void;
+  setInterruptible: (interruptible: boolean) => void;
+
+  /** NEW: Activa los saltos de varias vistas (null los desactiva) */
+  setFlickSkip: (config: FlickSkipConfig | null) => void;
+
+  /** NEW: Dirección del layout (la fija ScrollContainer desde `dir`) */
+  setLayoutDirection: (direction: LayoutDirection) => void;
   
   // NEW: AutoScroll control
   setAutoScrolling: (enabled: boolean) => void;
@@ -389,6 +846,9 @@ export interface ScrollSystemActions {
   
   // NEW: Snap points
   setActiveSnapPoint: (viewId: string, snapPointId: string | null) => void;
+
+  /** NEW: Ítem activo de un carrusel anidado (se limita a nestedConfig.itemCount) */
+  setNestedIndex: (viewId: string, index: number) => void;
   
   // Testing/Internal
   resetNavigationCooldown: () => void;
@@ -419,6 +879,19 @@ export interface BaseViewProps {
   snapPoints?: SnapPoint[];
   /** NEW: Callback when snap point changes */
   onSnapPointChange?: (snapPointId: string | null) => void;
+
+  /** NEW: Guard before leaving this view (may be async; false cancels) */
+  beforeLeave?: BeforeLeaveGuard;
+  /** NEW: Guard before entering this view (may be async; false cancels) */
+  beforeEnter?: BeforeEnterGuard;
+  /** NEW: Input origins that bypass this view's guards */
+  skipGuardsFor?: NavigationOrigin[];
+
+  /** NEW: Transition effect for this view (overrides the container's) */
+  transition?: ViewTransition;
+
+  /** NEW: Explicit position among the views (default: DOM order, filling the positions left) */
+  order?: number;
 }
 
 export interface FullViewProps extends BaseViewProps {
@@ -427,7 +900,12 @@ export interface FullViewProps extends BaseViewProps {
 
 export interface ScrollLockedViewProps extends BaseViewProps {
   scrollDirection?: ScrollDirection;
+  /** Progress ratio (0-1) that counts as the end of the scroll (default: 0.99) */
   scrollEndThreshold?: number;
+  /** NEW: Distance in px from the end that counts as the end (overrides scrollEndThreshold) */
+  scrollEndOffset?: number;
+  /** NEW: Extra px the user must scroll back before relocking (default: 16) */
+  scrollEndHysteresis?: number;
   onScrollProgress?: (progress: number) => void;
   /** Behavior for resetting scroll when view becomes active (default: "direction-aware") */
   scrollResetBehavior?: ScrollResetBehavior;
@@ -435,6 +913,10 @@ export interface ScrollLockedViewProps extends BaseViewProps {
   forceScrollLock?: boolean;
   /** Enable touch overscroll gestures to trigger navigation (default: false) */
   enableTouchPassthrough?: boolean;
+  /** NEW: Stay locked until the view has been active for this long (ms) */
+  minDwellMs?: number;
+  /** NEW: Stay locked until every marked section has been seen */
+  requireSections?: boolean | ReadSectionsConfig;
 }
 
 export interface ControlledViewProps extends BaseViewProps {
@@ -452,6 +934,21 @@ export interface NestedScrollViewProps extends BaseViewProps {
   enableSnap?: boolean;
   /** Callback when nested item changes */
   onItemChange?: (index: number) => void;
+  /** NEW: Number of items (default: counted from NestedScrollItem children) */
+  itemCount?: number;
+  /** NEW: Controlled active item */
+  activeItem?: number;
+}
+
+/** NEW: Props for GridRow (a view with horizontal sub-views) */
+export interface GridRowProps extends BaseViewProps {
+  meta?: Record<string, unknown>;
+  /** Duration of the column slide in ms (default: the container's transitionDuration) */
+  transitionDuration?: number;
+  /** Easing of the column slide (default: the container's transitionEasing) */
+  transitionEasing?: string;
+  /** Called when the active column of this row changes */
+  onColumnChange?: (column: number) => void;
 }
 
 export interface ScrollContainerProps {
@@ -466,6 +963,12 @@ export interface ScrollContainerProps {
   enableHashSync?: boolean;
   hashPushHistory?: boolean;
   hashPrefix?: string;
+  /** NEW: Browser back/forward move through the store's history stack (with enableHashSync) */
+  hashHistoryStack?: boolean;
+  /** NEW: Router-style URL sync (path, query or hash serializer; replaces enableHashSync) */
+  urlSync?: boolean | UrlSyncConfig;
+  /** NEW: Save the position (and internal scroll offsets) and restore it on reload */
+  persist?: boolean | PersistConfig;
   
   // Accessibility
   respectReducedMotion?: boolean;
@@ -476,10 +979,22 @@ export interface ScrollContainerProps {
   
   // Layout
   orientation?: "vertical" | "horizontal";
+
+  // NEW: Transition Effect
+  /** Built-in preset or custom per-view function (default: "slide") */
+  transition?: ViewTransition;
+  /** New input during a transition retargets it from the current position (default: true) */
+  interruptible?: boolean;
   
   // NEW: Skip Initial Animation
   /** Skip the initial animation when mounting (default: false) */
   skipInitialAnimation?: boolean;
+
+  // NEW: Initial View (SSR-safe)
+  /** Index of the view to start on; rendered in place from the first (server) render */
+  initialIndex?: number;
+  /** Id of the view to start on (wins over initialIndex). Resolved against direct children before hydration: VirtualScrollContainer needs initialIndex */
+  initialViewId?: string;
   
   // NEW: Global Progress
   /** Callback reporting global scroll progress 0-1 */
@@ -496,9 +1011,33 @@ export interface ScrollContainerProps {
   // NEW: Infinite Scroll
   /** Enable looping from last to first view */
   infiniteScroll?: boolean | InfiniteScrollConfig;
+
+  // NEW: RTL
+  /** Layout direction; "auto" reads the container's computed `direction` (default: "auto") */
+  dir?: LayoutDirection | "auto";
+
+  // NEW: Flick Skip
+  /** Let hard flicks and flings jump several views (opt-in) */
+  flickSkip?: boolean | FlickSkipConfig;
+
+  // NEW: Blocked navigation feedback
+  /** Called when a user navigation is refused (locked view, boundary, guard...) */
+  onNavigationBlocked?: (event: NavigationBlockedEvent) => void;
+  /** Rubber-band the views towards the refused direction (default: false) */
+  nudgeOnBlocked?: boolean;
   
   // NEW: Preload
   /** Configure view preloading */
   preload?: boolean | PreloadConfig;
 }
 
+
+// NEW: Virtualization
+export interface VirtualScrollContainerProps extends Omit<ScrollContainerProps, "children"> {
+  /** Total number of logical items in the feed */
+  itemCount: number;
+  /** Renders the view for a logical index (only called for mounted items) */
+  renderItem: (index: number) => React.ReactNode;
+  /** Views mounted on each side of the active one (default: 2) */
+  overscan?: number;
+}
@@ -0,0 +1,404 @@
+/**
+ * Scroll System - Animation Controller
+ * =====================================
+ * Anima la posición visual (índice flotante) entre vistas.
+ * Con un elemento, las transiciones con curva corren en el compositor
+ * (element.animate) y el muelle escribe style.transform en cada frame: React
+ * no re-renderiza por frame. Sin Web Animations API (SSR, jsdom) cae a un
+ * reloj con setTimeout. Una nueva animación puede arrancar desde la posición
+ * visual actual (retarget).
+ */
+
+import { isSpringSettled, resolveSpring, stepSpring, type SpringState } from "./spring";
+import type { SpringConfig } from "../types";
+
+export interface AnimationFrame {
+  /** Visual position as a floating view index */
+  position: number;
+  /** Progress of the current animation (0-1, eased) */
+  progress: number;
+}
+
+export interface AnimationControllerOptions {
+  /** Called on every frame with the current visual position */
+  onFrame: (frame: AnimationFrame) => void;
+  /** Called when an animation finishes (not when it is retargeted or stopped) */
+  onFinish: () => void;
+  /** NEW: Element moved by the animations (read when painting; null = nothing to paint) */
+  getElement?: () => HTMLElement | null;
+  /** NEW: CSS transform of the element for a visual position (required with getElement) */
+  toTransform?: (position: number) => string;
+}
+
+export interface AnimationController {
+  /** Animate from the current visual position to `target` */
+  animateTo: (target: number, duration: number, easing: string) => void;
+  /** Spring from the current visual position to `target` (velocity in views/s) */
+  springTo: (target: number, spring?: SpringConfig, velocity?: number) => void;
+  /** Jump to `position` without animating */
+  jumpTo: (position: number) => void;
+  /** NEW: Extra offset painted on top of the position (a drag). Moves a running tween off the compositor */
+  setOffset: (offset: number) => void;
+  /** NEW: Paint the element again (e.g. after the transform format changed) */
+  repaint: () => void;
+  /** Current visual position */
+  getPosition: () => number;
+  /** Whether an animation is running */
+  isAnimating: () => boolean;
+  /** Cancel the running animation (keeps the current position, no onFinish) */
+  stop: () => void;
+}
+
+// ============================================
+// Easing (fallback sin WAAPI)
+// ============================================
+
+const EASING_KEYWORDS: Record<string, [number, number, number, number]> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Convierte una curva cubic-bezier en función de easing.
+ * Resuelve x(t) con Newton-Raphson y bisección como respaldo.
+ */
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): (t: number) => number {
+  const sample = (a1: number, a2: number, t: number) =>
+    ((1 - 3 * a2 + 3 * a1) * t + (3 * a2 - 6 * a1)) * t * t + 3 * a1 * t;
+  const slope = (a1: number, a2: number, t: number) =>
+    3 * (1 - 3 * a2 + 3 * a1) * t * t + 2 * (3 * a2 - 6 * a1) * t + 3 * a1;
+
+  return (x: number) => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sample(x1, x2, t) - x;
+      if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+      const d = slope(x1, x2, t);
+      if (Math.abs(d) < 1e-6) break;
+      t -= error / d;
+    }
+
+    // Bisection fallback
+    let lo = 0;
+    let hi = 1;
+    t = x;
+    for (let i = 0; i < 20; i++) {
+      const value = sample(x1, x2, t);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) lo = t;
+      else hi = t;
+      t = (lo + hi) / 2;
+    }
+    return sample(y1, y2, t);
+  };
+}
+
+/**
+ * Parsea un easing CSS (keyword o cubic-bezier). Desconocidos → linear.
+ */
+export function parseEasing(easing: string): (t: number) => number {
+  const keyword = EASING_KEYWORDS[easing.trim()];
+  if (keyword) return cubicBezier(...keyword);
+
+  const match = easing.match(/cubic-bezier\(([^)]+)\)/);
+  if (match) {
+    const values = match[1].split(",").map((v) => parseFloat(v));
+    if (values.length === 4 && values.every((v) => !Number.isNaN(v))) {
+      return cubicBezier(values[0], values[1], values[2], values[3]);
+    }
+  }
+  return (t) => t;
+}
+
+// ============================================
+// Relojes
+// ============================================
+
+interface AnimationClock {
+  /** Current position and eased progress (0-1) */
+  sample: () => AnimationFrame;
+  /** Velocity in views per second (springs only) */
+  velocity: () => number;
+  cancel: () => void;
+  /** The browser moves the element itself: no painting per frame */
+  isCompositor?: () => boolean;
+  /** Hand the painting back to JS (the clock keeps running) */
+  detach?: () => void;
+}
+
+function hasWebAnimations(): boolean {
+  return typeof Animation !== "undefined" && typeof KeyframeEffect !== "undefined";
+}
+
+const lerp = (from: number, to: number, progress: number): AnimationFrame => ({
+  position: from + (to - from) * progress,
+  progress,
+});
+
+// WAAPI: animación sin target, solo como reloj con easing y finish nativos
+function createWebAnimationClock(
+  from: number,
+  to: number,
+  duration: number,
+  easing: string,
+  onFinish: () => void
+): AnimationClock {
+  const effect = new KeyframeEffect(null, [], { duration, easing, fill: "forwards" });
+  const animation = new Animation(effect, document.timeline);
+  animation.onfinish = onFinish;
+  animation.play();
+
+  return {
+    sample: () => lerp(from, to, effect.getComputedTiming().progress ?? 1),
+    velocity: () => 0,
+    cancel: () => {
+      animation.onfinish = null;
+      animation.cancel();
+    },
+  };
+}
+
+// WAAPI sobre el elemento: la curva corre en el compositor. El estilo inline ya
+// queda en el destino (donde se queda al terminar, sin fill)
+function createElementAnimationClock(
+  element: HTMLElement,
+  toTransform: (position: number) => string,
+  from: number,
+  to: number,
+  duration: number,
+  easing: string,
+  onFinish: () => void
+): AnimationClock {
+  element.style.transform = toTransform(to);
+  const animation = element.animate(
+    [{ transform: toTransform(from) }, { transform: toTransform(to) }],
+    { duration, easing }
+  );
+  const effect = animation.effect as KeyframeEffect;
+  animation.onfinish = onFinish;
+
+  return {
+    sample: () => lerp(from, to, effect.getComputedTiming().progress ?? 1),
+    velocity: () => 0,
+    cancel: () => {
+      animation.onfinish = null;
+      animation.cancel();
+    },
+    isCompositor: () => effect.target !== null,
+    // Sin target sigue como reloj (mismo easing y finish); el controlador pinta
+    detach: () => {
+      effect.target = null;
+    },
+  };
+}
+
+function createTimeoutClock(
+  from: number,
+  to: number,
+  duration: number,
+  easing: string,
+  onFinish: () => void
+): AnimationClock {
+  const ease = parseEasing(easing);
+  const start = Date.now();
+  const timer = setTimeout(onFinish, duration);
+
+  return {
+    sample: () => lerp(from, to, duration > 0 ? ease(Math.min(1, (Date.now() - start) / duration)) : 1),
+    velocity: () => 0,
+    cancel: () => clearTimeout(timer),
+  };
+}
+
+// Muelle: se integra en cada frame y termina al llegar al reposo
+function createSpringClock(
+  from: number,
+  to: number,
+  config: Required<SpringConfig>,
+  initialVelocity: number,
+  onFinish: () => void
+): AnimationClock {
+  let state: SpringState = { position: from, velocity: initialVelocity };
+  let last = Date.now();
+  let finished = false;
+
+  return {
+    sample: () => {
+      const now = Date.now();
+      // Evita saltos enormes si la pestaña estuvo en segundo plano
+      state = stepSpring(state, to, config, Math.min(64, now - last));
+      last = now;
+
+      if (!finished && isSpringSettled(state, to)) {
+        finished = true;
+        state = { position: to, velocity: 0 };
+        onFinish();
+      }
+
+      const progress = from === to ? 1 : (state.position - from) / (to - from);
+      return { position: state.position, progress: Math.max(0, Math.min(1, progress)) };
+    },
+    velocity: () => state.velocity,
+    cancel: () => {
+      finished = true;
+    },
+  };
+}
+
+const requestFrame = (callback: () => void): unknown =>
+  typeof requestAnimationFrame !== "undefined"
+    ? requestAnimationFrame(callback)
+    : setTimeout(callback, 16);
+
+const cancelFrame = (id: unknown) => {
+  if (typeof cancelAnimationFrame !== "undefined") cancelAnimationFrame(id as number);
+  else clearTimeout(id as ReturnType<typeof setTimeout>);
+};
+
+// ============================================
+// Controller
+// ============================================
+
+/**
+ * Crea un controlador de animación para la posición visual del scroll.
+ *
+ * @example
+ * ```ts
+ * const controller = createAnimationController({
+ *   onFrame: ({ progress }) => setTransitionProgress(progress),
+ *   onFinish: () => endTransition(),
+ *   // Optional: move an element (tweens on the compositor, springs via style.transform)
+ *   getElement: () => wrapperRef.current,
+ *   toTransform: (position) => `translateY(${-position * 100}vh)`,
+ * });
+ * controller.animateTo(3, 700, "ease-out");
+ * // ...a new intention arrives mid-animation:
+ * controller.animateTo(4, 700, "ease-out"); // continues from the current position
+ * // ...or release a drag with its velocity:
+ * controller.springTo(4, { stiffness: 300, damping: 30 }, 2.5);
+ * ```
+ */
+export function createAnimationController(
+  { onFrame, onFinish, getElement, toTransform }: AnimationControllerOptions,
+  initialPosition = 0
+): AnimationController {
+  let position = initialPosition;
+  let target = initialPosition;
+  let offset = 0;
+  let clock: AnimationClock | null = null;
+  let frameId: unknown = null;
+
+  const paint = () => {
+    const element = getElement?.();
+    if (element && toTransform) element.style.transform = toTransform(position + offset);
+  };
+
+  const emit = (progress: number) => {
+    // A compositor animation moves the element by itself
+    if (!clock?.isCompositor?.()) paint();
+    onFrame({ position, progress });
+  };
+
+  const stopFrames = () => {
+    if (frameId !== null) cancelFrame(frameId);
+    frameId = null;
+  };
+
+  const tick = () => {
+    if (!clock) return;
+    const frame = clock.sample();
+    // sample() may finish the animation (springs)
+    if (!clock) return;
+    position = frame.position;
+    emit(frame.progress);
+    frameId = requestFrame(tick);
+  };
+
+  const finish = () => {
+    stopFrames();
+    clock = null;
+    position = target;
+    emit(1);
+    onFinish();
+  };
+
+  const stop = () => {
+    stopFrames();
+    // Cancelled, the element falls back to its inline style (the target): keep it where it was
+    const wasCompositor = clock?.isCompositor?.() ?? false;
+    if (wasCompositor) position = clock!.sample().position;
+    clock?.cancel();
+    clock = null;
+    if (wasCompositor) paint();
+  };
+
+  const start = (nextClock: AnimationClock) => {
+    clock = nextClock;
+    emit(0);
+    frameId = requestFrame(tick);
+  };
+
+  return {
+    animateTo: (nextTarget, duration, easing) => {
+      // Retarget: arrancar desde donde está visualmente
+      stop();
+      const from = position;
+      target = nextTarget;
+
+      if (duration <= 0 || from === target) {
+        position = target;
+        emit(1);
+        // Async like a real animation so listeners see the transition start
+        clock = createTimeoutClock(target, target, 0, "linear", finish);
+        return;
+      }
+
+      // Mid-drag the offset changes every move: paint from JS instead
+      const element = offset === 0 && toTransform ? getElement?.() : null;
+      if (element && typeof element.animate === "function") {
+        start(createElementAnimationClock(element, toTransform!, from, target, duration, easing, finish));
+      } else {
+        start(hasWebAnimations()
+          ? createWebAnimationClock(from, target, duration, easing, finish)
+          : createTimeoutClock(from, target, duration, easing, finish));
+      }
+    },
+
+    springTo: (nextTarget, spring, velocity) => {
+      // Retarget keeps the current spring velocity unless a new one is given
+      const carried = velocity ?? clock?.velocity() ?? 0;
+      stop();
+      target = nextTarget;
+      start(createSpringClock(position, target, resolveSpring(spring), carried, finish));
+    },
+
+    jumpTo: (nextPosition) => {
+      stop();
+      position = target = nextPosition;
+      emit(1);
+    },
+
+    setOffset: (nextOffset) => {
+      if (nextOffset === offset) return;
+      offset = nextOffset;
+      if (offset !== 0) clock?.detach?.();
+      if (!clock?.isCompositor?.()) paint();
+    },
+
+    repaint: () => {
+      // The running keyframes use the old format: paint from JS from now on
+      clock?.detach?.();
+      paint();
+    },
+
+    getPosition: () => position,
+    isAnimating: () => clock !== null,
+    stop,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Scroll System - Gesture Arbiter
+ * ================================
+ * Decide a quién pertenece un gesto: al eje principal del contenedor o a un
+ * NestedScrollView bajo el dedo. Mira el ángulo del movimiento inicial una vez
+ * superado el slop, y mantiene la decisión hasta soltar.
+ *
+ * Compartido por useTouchHandler, useDragHandler y NestedScrollView: con los
+ * mismos eventos todos llegan a la misma decisión sin coordinarse.
+ */
+
+import { GESTURE_AXIS_ANGLE, GESTURE_SLOP } from "../constants";
+
+export type GestureAxis = "horizontal" | "vertical";
+
+/** "nested": el carrusel bajo el dedo se queda el gesto. "main": el contenedor. */
+export type GestureOwner = "main" | "nested";
+
+export interface GestureArbiterOptions {
+  /** Distance in px before the axis is decided (default: GESTURE_SLOP) */
+  slop?: number;
+  /** Angle in degrees from horizontal below which a gesture is horizontal (default: GESTURE_AXIS_ANGLE) */
+  axisAngle?: number;
+}
+
+export interface GestureArbiter {
+  /** Starts a gesture at (x, y); `target` is where the pointer went down */
+  start: (x: number, y: number, target: EventTarget | null) => void;
+  /** Feeds a move; returns the owner once decided (null while inside the slop) */
+  update: (x: number, y: number) => GestureOwner | null;
+  /**
+   * Decision for a gesture ending at (x, y). Gestures that never left the slop
+   * are decided from their total movement.
+   */
+  resolve: (x: number, y: number) => GestureOwner | null;
+  /** Axis of the decided gesture */
+  getAxis: () => GestureAxis | null;
+  reset: () => void;
+}
+
+/**
+ * Eje de un movimiento según su ángulo (null si no se movió).
+ */
+export function getGestureAxis(dx: number, dy: number, axisAngle = GESTURE_AXIS_ANGLE): GestureAxis | null {
+  if (dx === 0 && dy === 0) return null;
+  const angle = (Math.atan2(Math.abs(dy), Math.abs(dx)) * 180) / Math.PI;
+  return angle < axisAngle ? "horizontal" : "vertical";
+}
+
+/**
+ * Eje del NestedScrollView que contiene el elemento (null si no hay ninguno).
+ */
+export function getNestedAxis(target: EventTarget | null): GestureAxis | null {
+  const element = target as Element | null;
+  const nested = element?.closest?.('[data-view-type="nested"]');
+  const direction = nested?.getAttribute("data-nested-direction");
+  return direction === "horizontal" || direction === "vertical" ? direction : null;
+}
+
+export function createGestureArbiter(options: GestureArbiterOptions = {}): GestureArbiter {
+  const { slop = GESTURE_SLOP, axisAngle = GESTURE_AXIS_ANGLE } = options;
+
+  let origin: { x: number; y: number } | null = null;
+  let nestedAxis: GestureAxis | null = null;
+  let axis: GestureAxis | null = null;
+
+  const decide = (dx: number, dy: number): GestureOwner | null => {
+    axis = getGestureAxis(dx, dy, axisAngle);
+    if (!axis) return null;
+    return axis === nestedAxis ? "nested" : "main";
+  };
+
+  return {
+    start: (x, y, target) => {
+      origin = { x, y };
+      nestedAxis = getNestedAxis(target);
+      axis = null;
+    },
+
+    update: (x, y) => {
+      if (!origin) return null;
+      if (axis) return axis === nestedAxis ? "nested" : "main";
+
+      const dx = x - origin.x;
+      const dy = y - origin.y;
+      if (Math.hypot(dx, dy) < slop) return null;
+      return decide(dx, dy);
+    },
+
+    resolve: (x, y) => {
+      if (!origin) return null;
+      if (axis) return axis === nestedAxis ? "nested" : "main";
+      return decide(x - origin.x, y - origin.y);
+    },
+
+    getAxis: () => axis,
+
+    reset: () => {
+      origin = null;
+      nestedAxis = null;
+      axis = null;
+    },
+  };
+}
@@ -54,3 +54,100 @@ export function prefersReducedMotion(): boolean {
 export function getTransitionDuration(duration: number): number {
   return prefersReducedMotion() ? 0 : duration;
 }
+
+/**
+ * Root element of a view: its section (`id`), or `[data-view-id]` for NestedScrollView.
+ */
+export function getViewElement(viewId: string): HTMLElement | null {
+  if (typeof document === "undefined") return null;
+  return (
+    document.getElementById(viewId) ??
+    Array.from(document.querySelectorAll<HTMLElement>("[data-view-id]")).find((el) => el.dataset.viewId === viewId) ??
+    null
+  );
+}
+
+/**
+ * Internal scroll container of a view (the `[data-scrollable]` element inside its section).
+ */
+export function getViewScrollElement(viewId: string): HTMLElement | null {
+  return getViewElement(viewId)?.querySelector<HTMLElement>('[data-scrollable="true"]') ?? null;
+}
+
+/**
+ * Rango de cada vista en el orden del documento (0 = primera). Las vistas sin
+ * elemento (SSR, sin montar) no aparecen. Una sola pasada: cada elemento se busca una vez.
+ */
+export function getViewDocumentOrder(viewIds: string[]): Map<string, number> {
+  const ranks = new Map<string, number>();
+  if (typeof document === "undefined") return ranks;
+
+  const elements = new Map<HTMLElement, string>();
+  const pending = new Set<string>();
+  viewIds.forEach((id) => {
+    const element = document.getElementById(id);
+    if (element && !elements.has(element)) elements.set(element, id);
+    else if (!element) pending.add(id);
+  });
+  // NestedScrollView: [data-view-id], todas en una sola consulta
+  if (pending.size > 0) {
+    document.querySelectorAll<HTMLElement>("[data-view-id]").forEach((element) => {
+      const id = element.dataset.viewId;
+      if (id && pending.delete(id)) elements.set(element, id);
+    });
+  }
+
+  // El orden del documento es total: ordenar elementos (no pares de ids) es transitivo
+  Array.from(elements.keys())
+    .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1))
+    .forEach((element, rank) => ranks.set(elements.get(element)!, rank));
+  return ranks;
+}
+
+/**
+ * Coloca cada elemento con orden explícito en esa posición (ascendente; si está ocupada
+ * o pasa del final, en la siguiente libre) y rellena el resto de posiciones con los demás,
+ * en su orden actual. Sin ningún orden explícito, devuelve los elementos tal cual.
+ */
+export function placeByOrder<T>(items: T[], getOrder: (item: T) => number | undefined): T[] {
+  // Sort estable: los empates mantienen el orden actual
+  const ordered = items
+    .filter((item) => getOrder(item) !== undefined)
+    .sort((a, b) => getOrder(a)! - getOrder(b)!);
+  const rest = items.filter((item) => getOrder(item) === undefined);
+
+  const placed: T[] = [];
+  let nextOrdered = 0;
+  let nextRest = 0;
+  while (placed.length < items.length) {
+    const isDue = nextOrdered < ordered.length && getOrder(ordered[nextOrdered])! <= placed.length;
+    if (isDue || nextRest >= rest.length) {
+      placed.push(ordered[nextOrdered++]);
+    } else {
+      placed.push(rest[nextRest++]);
+    }
+  }
+  return placed;
+}
+
+/**
+ * Detect the layout direction an element inherits (CSS `direction` or the nearest `dir`).
+ * Returns "ltr" when it can't be determined (e.g. during SSR).
+ */
+export function detectLayoutDirection(element: Element | null): "ltr" | "rtl" {
+  if (typeof window === "undefined" || !element) return "ltr";
+  const computed = window.getComputedStyle(element).direction;
+  if (computed === "rtl" || computed === "ltr") return computed;
+  return element.closest("[dir]")?.getAttribute("dir") === "rtl" ? "rtl" : "ltr";
+}
+
+// Replaced by bundlers; undefined in a plain browser
+declare const process: { env: { NODE_ENV?: string } } | undefined;
+
+/**
+ * Development build? Warnings for misconfiguration only show here.
+ * Returns false when `process.env.NODE_ENV` is unknown (plain browser) or "production".
+ */
+export function isDevelopment(): boolean {
+  return typeof process !== "undefined" && process.env.NODE_ENV !== "production";
+}
@@ -0,0 +1,73 @@
+/**
+ * Scroll System - Pointer Utilities
+ * ==================================
+ * Helpers compartidos por los handlers de swipe y arrastre (Pointer Events).
+ * Un mismo gesto funciona con ratón, lápiz y dedo.
+ */
+
+import type { GestureConfig } from "../types";
+
+// Ventana (ms) en la que se cancela el click que sigue a un arrastre
+const CLICK_SUPPRESS_WINDOW = 100;
+
+/**
+ * ¿Debe este puntero iniciar un gesto?
+ * Solo el puntero primario; el ratón solo con el botón principal y enableMouseDrag.
+ */
+export function isPointerEnabled(
+  event: PointerEvent,
+  config: Pick<GestureConfig, "enableTouch" | "enableMouseDrag">
+): boolean {
+  if (!event.isPrimary) return false;
+  if (event.pointerType === "mouse") {
+    return config.enableMouseDrag === true && event.button === 0;
+  }
+  // touch, pen
+  return config.enableTouch !== false;
+}
+
+/**
+ * Captura el puntero para seguir recibiendo eventos aunque salga del elemento.
+ */
+export function capturePointer(event: PointerEvent): void {
+  const target = event.target as Element | null;
+  try {
+    target?.setPointerCapture?.(event.pointerId);
+  } catch {
+    // The pointer may already be gone (e.g. cancelled)
+  }
+}
+
+/**
+ * Libera una captura hecha con capturePointer.
+ */
+export function releasePointer(event: PointerEvent): void {
+  const target = event.target as Element | null;
+  try {
+    if (target?.hasPointerCapture?.(event.pointerId)) {
+      target.releasePointerCapture(event.pointerId);
+    }
+  } catch {
+    // Nothing to release
+  }
+}
+
+/**
+ * Cancela el click que el navegador dispara al soltar tras un arrastre,
+ * para que arrastrar sobre un enlace o botón no lo active.
+ */
+export function suppressNextClick(): void {
+  const handleClick = (e: MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    cleanup();
+  };
+
+  const cleanup = () => {
+    window.removeEventListener("click", handleClick, true);
+    clearTimeout(timer);
+  };
+
+  window.addEventListener("click", handleClick, true);
+  const timer = setTimeout(cleanup, CLICK_SUPPRESS_WINDOW);
+}
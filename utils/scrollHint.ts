@@ -0,0 +1,70 @@
+/**
+ * Scroll System - Scroll Hints
+ * =============================
+ * Traduce una navegación bloqueada en un mensaje para el usuario.
+ * Compartido por ScrollHint (visual) y AriaLiveRegion (lectores de pantalla).
+ */
+
+import type { NavigationBlockedEvent, ViewType } from "../types";
+
+export type ScrollHintKind =
+  | "scroll-down"
+  | "scroll-up"
+  | "complete"
+  | "no-back"
+  | "locked"
+  | "guard"
+  | "paused"
+  | "end"
+  | "start"
+  | "loading";
+
+export type ScrollHintMessages = Record<ScrollHintKind, string>;
+
+export const DEFAULT_HINT_MESSAGES: ScrollHintMessages = {
+  "scroll-down": "Scroll to continue",
+  "scroll-up": "Scroll up to go back",
+  complete: "Complete the form to continue",
+  "no-back": "You can't go back from here",
+  locked: "This section is locked",
+  guard: "You can't leave this section yet",
+  paused: "Navigation is paused",
+  end: "You've reached the end",
+  start: "You're at the beginning",
+  loading: "Loading more…",
+};
+
+/**
+ * Tipo de hint para un bloqueo. `viewType` es el de la vista activa:
+ * en una ControlledView un lock explícito hacia delante es "completa el paso".
+ */
+export function getScrollHintKind(event: NavigationBlockedEvent, viewType?: ViewType): ScrollHintKind {
+  const isForward = event.lockDirection === "forward";
+
+  switch (event.reason) {
+    case "view-lock":
+      if (event.lockSource === "content") return isForward ? "scroll-down" : "scroll-up";
+      if (!isForward) return "no-back";
+      return viewType === "controlled" ? "complete" : "locked";
+    case "global-lock":
+      return "paused";
+    case "boundary":
+      return isForward ? "end" : "start";
+    case "loading":
+      return "loading";
+    default:
+      return "guard";
+  }
+}
+
+/**
+ * Mensaje para un bloqueo, con `messages` sobre los textos por defecto.
+ */
+export function getScrollHintMessage(
+  event: NavigationBlockedEvent,
+  viewType?: ViewType,
+  messages: Partial<ScrollHintMessages> = {}
+): string {
+  const kind = getScrollHintKind(event, viewType);
+  return messages[kind] ?? DEFAULT_HINT_MESSAGES[kind];
+}
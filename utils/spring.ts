@@ -0,0 +1,79 @@
+/**
+ * Scroll System - Spring Physics
+ * ===============================
+ * Simulación de muelle (stiffness, damping, mass) para soltar el arrastre.
+ * Posiciones en vistas, velocidades en vistas/segundo.
+ */
+
+import type { SpringConfig } from "../types";
+
+export interface SpringState {
+  position: number;
+  /** Velocity in views per second */
+  velocity: number;
+}
+
+/** Default spring: slightly underdamped, like a native pager */
+export const DEFAULT_SPRING: Required<SpringConfig> = {
+  stiffness: 300,
+  damping: 30,
+  mass: 1,
+};
+
+// Paso máximo de integración (ms) para mantener la simulación estable
+const MAX_STEP = 4;
+
+// Umbrales de reposo (vistas y vistas/segundo)
+const REST_DISTANCE = 0.001;
+const REST_VELOCITY = 0.01;
+
+/**
+ * Completa una configuración parcial con los valores por defecto.
+ */
+export function resolveSpring(config?: SpringConfig): Required<SpringConfig> {
+  return { ...DEFAULT_SPRING, ...config };
+}
+
+/**
+ * Avanza la simulación `dt` ms hacia `target` (Euler semi-implícito).
+ */
+export function stepSpring(
+  state: SpringState,
+  target: number,
+  config: Required<SpringConfig>,
+  dt: number
+): SpringState {
+  let { position, velocity } = state;
+  let remaining = dt;
+
+  while (remaining > 0) {
+    const step = Math.min(MAX_STEP, remaining) / 1000;
+    const force = -config.stiffness * (position - target) - config.damping * velocity;
+    velocity += (force / config.mass) * step;
+    position += velocity * step;
+    remaining -= MAX_STEP;
+  }
+
+  return { position, velocity };
+}
+
+/**
+ * ¿Ha llegado el muelle al reposo en `target`?
+ */
+export function isSpringSettled(state: SpringState, target: number): boolean {
+  return Math.abs(state.position - target) < REST_DISTANCE && Math.abs(state.velocity) < REST_VELOCITY;
+}
+
+/**
+ * Resistencia tipo "rubber band" al arrastrar más allá de la primera/última vista.
+ * Crece rápido al principio y nunca supera una vista completa.
+ *
+ * @param offset - Drag offset in views (signed)
+ * @param resistance - 0-1, higher = stiffer edge
+ */
+export function rubberBand(offset: number, resistance: number): number {
+  const coefficient = Math.max(0.01, 1 - resistance);
+  const distance = Math.abs(offset);
+  const banded = (1 - 1 / (distance * coefficient + 1));
+  return Math.sign(offset) * banded;
+}
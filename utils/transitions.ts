@@ -0,0 +1,157 @@
+/**
+ * Scroll System - Transition Presets
+ * ===================================
+ * Efectos de transición evaluados por vista.
+ * Cada preset recibe (viewIndex, activeIndex, offset) y retorna estilos CSS;
+ * `offset` es el desplazamiento visual en vistas respecto a la activa (animación + drag).
+ */
+
+import type React from "react";
+import type { LayoutDirection, TransitionFunction, TransitionPreset, ViewTransition } from "../types";
+
+type Orientation = "vertical" | "horizontal";
+
+// En horizontal RTL la siguiente vista entra por la izquierda: se invierte el eje X
+function axisSign(orientation: Orientation, direction: LayoutDirection): number {
+  return orientation === "horizontal" && direction === "rtl" ? -1 : 1;
+}
+
+// Vistas más lejos que esto se ocultan (fuera de la transición)
+const VISIBILITY_RANGE = 1.5;
+
+/**
+ * Posición relativa de una vista respecto a la posición visual actual.
+ * 0 = en pantalla, 1 = siguiente, -1 = anterior.
+ */
+function getPosition(viewIndex: number, activeIndex: number, offset: number): number {
+  return viewIndex - activeIndex - offset;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function visibility(position: number): React.CSSProperties {
+  const isFar = Math.abs(position) >= VISIBILITY_RANGE;
+  return {
+    visibility: isFar ? "hidden" : "visible",
+    pointerEvents: Math.abs(position) < 0.5 ? "auto" : "none",
+  };
+}
+
+function createSlide(orientation: Orientation, direction: LayoutDirection): TransitionFunction {
+  const axis = orientation === "horizontal" ? "X" : "Y";
+  const sign = axisSign(orientation, direction);
+  return (viewIndex, activeIndex, offset) => {
+    const position = getPosition(viewIndex, activeIndex, offset);
+    return { transform: `translate${axis}(${sign * position * 100}%)` };
+  };
+}
+
+function createFade(): TransitionFunction {
+  return (viewIndex, activeIndex, offset) => {
+    const position = getPosition(viewIndex, activeIndex, offset);
+    return {
+      opacity: clamp(1 - Math.abs(position), 0, 1),
+      zIndex: Math.abs(position) < 0.5 ? 1 : 0,
+      ...visibility(position),
+    };
+  };
+}
+
+// Card deck: la siguiente vista se desliza por encima; las anteriores quedan detrás
+function createStack(orientation: Orientation, direction: LayoutDirection): TransitionFunction {
+  const axis = orientation === "horizontal" ? "X" : "Y";
+  const sign = axisSign(orientation, direction);
+  return (viewIndex, activeIndex, offset) => {
+    const position = getPosition(viewIndex, activeIndex, offset);
+    if (position > 0) {
+      return {
+        transform: `translate${axis}(${sign * position * 100}%)`,
+        zIndex: viewIndex + 1,
+        ...visibility(position),
+      };
+    }
+    return {
+      transform: `scale(${clamp(1 + position * 0.1, 0.8, 1)})`,
+      opacity: clamp(1 + position * 0.5, 0, 1),
+      zIndex: viewIndex + 1,
+      ...visibility(position),
+    };
+  };
+}
+
+function createCube(orientation: Orientation, direction: LayoutDirection): TransitionFunction {
+  const isHorizontal = orientation === "horizontal";
+  const axis = isHorizontal ? "X" : "Y";
+  const sign = axisSign(orientation, direction);
+  return (viewIndex, activeIndex, offset) => {
+    const position = getPosition(viewIndex, activeIndex, offset);
+    const angle = clamp(position, -1, 1) * 90;
+    const rotation = isHorizontal ? `rotateY(${sign * angle}deg)` : `rotateX(${-angle}deg)`;
+
+    // Cada cara gira sobre el borde que comparte con la vista activa
+    const isAfter = sign * position > 0;
+    const origin = isHorizontal
+      ? (isAfter ? "left center" : "right center")
+      : (position > 0 ? "center top" : "center bottom");
+
+    return {
+      transform: `translate${axis}(${sign * position * 100}%) ${rotation}`,
+      transformOrigin: origin,
+      backfaceVisibility: "hidden",
+      ...visibility(position),
+    };
+  };
+}
+
+function createZoom(): TransitionFunction {
+  return (viewIndex, activeIndex, offset) => {
+    const position = getPosition(viewIndex, activeIndex, offset);
+    const distance = clamp(Math.abs(position), 0, 1);
+    // Saliente crece, entrante viene desde más pequeña
+    const scale = position < 0 ? 1 + distance * 0.2 : 1 - distance * 0.2;
+    return {
+      transform: `scale(${scale})`,
+      opacity: 1 - distance,
+      zIndex: Math.abs(position) < 0.5 ? 1 : 0,
+      ...visibility(position),
+    };
+  };
+}
+
+/**
+ * Crea la función de un preset para la orientación (y dirección) dada.
+ */
+export function createTransitionPreset(
+  preset: TransitionPreset,
+  orientation: Orientation = "vertical",
+  direction: LayoutDirection = "ltr"
+): TransitionFunction {
+  switch (preset) {
+    case "fade":
+      return createFade();
+    case "stack":
+      return createStack(orientation, direction);
+    case "cube":
+      return createCube(orientation, direction);
+    case "zoom":
+      return createZoom();
+    case "slide":
+    default:
+      return createSlide(orientation, direction);
+  }
+}
+
+/**
+ * Normaliza un preset o función custom a una TransitionFunction.
+ */
+export function resolveTransition(
+  transition: ViewTransition,
+  orientation: Orientation = "vertical",
+  direction: LayoutDirection = "ltr"
+): TransitionFunction {
+  return typeof transition === "function"
+    ? transition
+    : createTransitionPreset(transition, orientation, direction);
+}
@@ -0,0 +1,150 @@
+/**
+ * Scroll System - URL Serializers & Adapters
+ * ============================================
+ * Formatos de URL para useUrlSync:
+ * - hash:  "#pricing", "#pricing/plan-b"
+ * - path:  "/story/:id", "/story/:id/2"
+ * - query: "?v=3", "?v=3&sub=plan-b"
+ *
+ * El "detalle" tras la vista es la columna (GridRow), el ítem (NestedScrollView)
+ * o el snap point activo; lo resuelve useUrlSync.
+ */
+
+import type { UrlLocation, UrlSerializer, UrlSyncAdapter } from "../types";
+
+/** Valor de la URL → vista: el id tal cual, o el índice (null si no es un entero >= 0) */
+function toView(value: string, key: "id" | "index"): string | number | null {
+  if (key === "id") return value;
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 ? index : null;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export interface HashSerializerOptions {
+  /** Prefix for hash (e.g., "view-" creates "#view-about") (default: "") */
+  prefix?: string;
+}
+
+/**
+ * "#prefix" + id, y "/detalle" si lo hay. Un hash sin el prefijo no apunta a ninguna vista.
+ */
+export function createHashSerializer({ prefix = "" }: HashSerializerOptions = {}): UrlSerializer {
+  return {
+    format: ({ viewId, index, detail }, location) => {
+      const view = viewId ?? String(index);
+      const hash = detail ? `#${prefix}${view}/${detail}` : `#${prefix}${view}`;
+      return `${location.pathname}${location.search}${hash}`;
+    },
+    parse: (location) => {
+      const hash = safeDecode(location.hash.slice(1));
+      if (!hash || !hash.startsWith(prefix)) return null;
+
+      const value = hash.slice(prefix.length);
+      if (!value) return null;
+
+      const separator = value.lastIndexOf("/");
+      if (separator === -1) return { view: value, detail: null };
+      return { view: value.slice(0, separator), detail: value.slice(separator + 1) };
+    },
+  };
+}
+
+export interface PathSerializerOptions {
+  /** Path with an ":id" or ":index" segment (e.g., "/story/:id") */
+  pattern: string;
+}
+
+/**
+ * Segmentos de ruta: "/story/:id" → "/story/pricing", y "/story/pricing/plan-b" con detalle.
+ */
+export function createPathSerializer({ pattern }: PathSerializerOptions): UrlSerializer {
+  const key = pattern.includes(":index") ? "index" : "id";
+  const token = `:${key}`;
+  const [before, after] = pattern.split(token);
+  const matcher = new RegExp(
+    `^${escapeRegExp(before)}([^/]+)${escapeRegExp(after ?? "")}(?:/([^/]+))?/?$`
+  );
+
+  return {
+    format: ({ viewId, index, detail }, location) => {
+      const value = key === "index" || viewId === null ? String(index) : encodeURIComponent(viewId);
+      const path = pattern.replace(token, value) + (detail ? `/${encodeURIComponent(detail)}` : "");
+      return `${path}${location.search}${location.hash}`;
+    },
+    parse: (location) => {
+      const match = location.pathname.match(matcher);
+      if (!match) return null;
+
+      const view = toView(safeDecode(match[1]), key);
+      if (view === null) return null;
+      return { view, detail: match[2] ? safeDecode(match[2]) : null };
+    },
+  };
+}
+
+export interface QuerySerializerOptions {
+  /** Query param holding the view (default: "v") */
+  param?: string;
+  /** Write the view index or its id (default: "index") */
+  key?: "id" | "index";
+  /** Query param holding the detail (default: "sub") */
+  detailParam?: string;
+}
+
+/**
+ * Query params: "?v=3" (o "?v=pricing" con key "id") y "&sub=plan-b" con detalle.
+ * El resto de params se conserva.
+ */
+export function createQuerySerializer({
+  param = "v",
+  key = "index",
+  detailParam = "sub",
+}: QuerySerializerOptions = {}): UrlSerializer {
+  return {
+    format: ({ viewId, index, detail }, location) => {
+      const params = new URLSearchParams(location.search);
+      params.set(param, key === "index" || viewId === null ? String(index) : viewId);
+      if (detail) params.set(detailParam, detail);
+      else params.delete(detailParam);
+      return `${location.pathname}?${params.toString()}${location.hash}`;
+    },
+    parse: (location) => {
+      const params = new URLSearchParams(location.search);
+      const value = params.get(param);
+      if (!value) return null;
+
+      const view = toView(value, key);
+      if (view === null) return null;
+      return { view, detail: params.get(detailParam) };
+    },
+  };
+}
+
+/**
+ * window.history + popstate. Para un router, implementa UrlSyncAdapter con su history.
+ */
+export function createBrowserUrlAdapter(): UrlSyncAdapter {
+  return {
+    getLocation: (): UrlLocation => {
+      const { pathname, search, hash } = window.location;
+      return { pathname, search, hash };
+    },
+    push: (url) => window.history.pushState(null, "", url),
+    replace: (url) => window.history.replaceState(null, "", url),
+    listen: (onChange) => {
+      window.addEventListener("popstate", onChange);
+      return () => window.removeEventListener("popstate", onChange);
+    },
+  };
+}